@@ -168,7 +168,7 @@ async function testListTools(): Promise<boolean> {
       }
 
       // Verify expected tools exist
-      const expectedTools = ['fetch_transcript', 'get_transcript', 'search_transcript', 'list_transcripts', 'find_transcripts'];
+      const expectedTools = ['fetch_transcript', 'get_transcript', 'search_transcript', 'list_transcripts', 'find_transcripts', 'list_caption_tracks', 'import_captions', 'export_transcript', 'fetch_playlist', 'get_fetch_job', 'fetch_transcripts_bulk', 'get_transcript_history', 'search_library'];
       const toolNames = result.tools.map(t => t.name);
 
       for (const expected of expectedTools) {
@@ -0,0 +1,31 @@
+import {
+  BUILT_IN_ANALYZERS,
+  createLanguageAnalyzer,
+  standardAnalyzer,
+  type LanguageAnalyzerOptions,
+} from './language';
+import { porterStem } from './porter-stemmer';
+
+export interface AnalyzedToken {
+  term: string; // the searchable form: lower case, stemmed, without accents
+  word: string; // the word before stemming (lower case, without accents)
+  stopWord: boolean;
+}
+
+/**
+ * Turns text into search terms, for indexing transcripts and for queries. The analyzer is
+ * picked from the transcript's language; built-in analyzers cover English, Spanish,
+ * Portuguese, French, German and Italian, and a standard analyzer handles other languages.
+ * Other plugins or app code can register more through the `analyzers` service:
+ *
+ *   strapi.plugin('yt-transcript-strapi-plugin').service('analyzers').register(myAnalyzer);
+ *
+ * Every token of the text is returned, stop words included, so phrase positions stay intact.
+ */
+export interface Analyzer {
+  name: string;
+  languages: string[]; // language codes it handles ("en", "pt-BR")
+  analyze: (text: string) => AnalyzedToken[];
+}
+
+export { BUILT_IN_ANALYZERS, createLanguageAnalyzer, standardAnalyzer, porterStem, type LanguageAnalyzerOptions };
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import {
+  englishAnalyzer,
+  frenchAnalyzer,
+  germanAnalyzer,
+  italianAnalyzer,
+  portugueseAnalyzer,
+  spanishAnalyzer,
+  standardAnalyzer,
+} from './language';
+import { removeAccents, spanishStem } from './light-stemmers';
+import type { Analyzer } from './index';
+
+const terms = (analyzer: Analyzer, text: string) => analyzer.analyze(text).map((token) => token.term);
+
+describe('standardAnalyzer', () => {
+  it('lower-cases Unicode words without stemming', () => {
+    expect(terms(standardAnalyzer, 'Running Straße, Привет мир!')).toEqual(['running', 'straße', 'привет', 'мир']);
+  });
+
+  it('skips single-character words', () => {
+    expect(terms(standardAnalyzer, 'a b cd')).toEqual(['cd']);
+  });
+
+  it('splits CJK runs into overlapping bigrams', () => {
+    expect(terms(standardAnalyzer, '機械学習 AI')).toEqual(['機械', '械学', '学習', 'ai']);
+  });
+
+  it('keeps Latin text mixed into a CJK word', () => {
+    expect(terms(standardAnalyzer, 'Python入門')).toEqual(['python', '入門']);
+  });
+});
+
+describe('englishAnalyzer', () => {
+  it('stems words and flags stop words without dropping them', () => {
+    expect(englishAnalyzer.analyze('The runners are running')).toEqual([
+      { term: 'the', word: 'the', stopWord: true },
+      { term: 'runner', word: 'runners', stopWord: false },
+      { term: 'ar', word: 'are', stopWord: true },
+      { term: 'run', word: 'running', stopWord: false },
+    ]);
+  });
+
+  it("drops possessive 's and joins contractions", () => {
+    expect(terms(englishAnalyzer, "Strapi's plugins don't break")).toEqual(['strapi', 'plugin', 'dont', 'break']);
+  });
+
+  it('normalizes typographic apostrophes', () => {
+    expect(terms(englishAnalyzer, 'don’t')).toEqual(['dont']);
+  });
+});
+
+describe('light stemmers', () => {
+  it('match singular and plural forms in Spanish', () => {
+    expect(terms(spanishAnalyzer, 'canción canciones')).toEqual(['cancion', 'cancion']);
+    expect(spanishStem('luces')).toBe('luz');
+    expect(spanishStem('meses')).toBe('mes');
+  });
+
+  it('match singular and plural forms in Portuguese', () => {
+    expect(terms(portugueseAnalyzer, 'canção canções animal animais')).toEqual(['canca', 'canca', 'animal', 'animal']);
+  });
+
+  it('drop French elisions and plural endings', () => {
+    expect(terms(frenchAnalyzer, "l'homme qu'il chevaux")).toEqual(['homme', 'il', 'cheval']);
+  });
+
+  it('fold German umlauts and endings', () => {
+    expect(terms(germanAnalyzer, 'Häuser Haus Straße')).toEqual(['haus', 'haus', 'stras']);
+  });
+
+  it('drop Italian elisions and plural endings of words with six or more letters', () => {
+    expect(terms(italianAnalyzer, "dell'albero alberi")).toEqual(['alber', 'alber']);
+    expect(terms(italianAnalyzer, 'amico amici')).toEqual(['amico', 'amici']);
+  });
+
+  it('remove accents from Latin letters only', () => {
+    expect(removeAccents('Crème brûlée')).toBe('Creme brulee');
+    expect(removeAccents('й')).toBe('й');
+  });
+});
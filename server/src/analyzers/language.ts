@@ -0,0 +1,127 @@
+import type { AnalyzedToken, Analyzer } from './index';
+import { porterStem } from './porter-stemmer';
+import { frenchStem, germanStem, italianStem, portugueseStem, removeAccents, spanishStem } from './light-stemmers';
+import {
+  ENGLISH_STOP_WORDS,
+  FRENCH_STOP_WORDS,
+  GERMAN_STOP_WORDS,
+  ITALIAN_STOP_WORDS,
+  PORTUGUESE_STOP_WORDS,
+  SPANISH_STOP_WORDS,
+} from './stop-words';
+import { cjkBigrams, containsCJK, splitCJK, splitWords } from './tokenizer';
+
+export interface LanguageAnalyzerOptions {
+  name: string;
+  languages: string[];
+  stopWords?: string[];
+  stem?: (word: string) => string;
+  // Rewrite a word containing apostrophes ("l'homme" -> ["homme"]); by default it is split at them
+  apostrophes?: (word: string) => string[];
+}
+
+// Single-character words are skipped, except in CJK text where one character can be a word
+const MIN_WORD_LENGTH = 2;
+
+/**
+ * Build an analyzer from a stop-word list and a stemmer. Every word is lower-cased,
+ * stemmed and has its accents removed, so "Canción" and "canciones" give the same term.
+ */
+export function createLanguageAnalyzer(options: LanguageAnalyzerOptions): Analyzer {
+  const stopWords = new Set((options.stopWords || []).map(removeAccents));
+  const stem = options.stem || ((word: string) => word);
+  const apostrophes = options.apostrophes || ((word: string) => word.split("'"));
+
+  return {
+    name: options.name,
+    languages: options.languages,
+
+    analyze(text: string): AnalyzedToken[] {
+      const tokens: AnalyzedToken[] = [];
+
+      const addWord = (word: string) => {
+        if (word.length < MIN_WORD_LENGTH) return;
+        const folded = removeAccents(word);
+        tokens.push({ term: removeAccents(stem(word)), word: folded, stopWord: stopWords.has(folded) });
+      };
+
+      for (const word of splitWords(text)) {
+        if (containsCJK(word)) {
+          for (const part of splitCJK(word)) {
+            if (part.cjk) {
+              cjkBigrams(part.text).forEach((gram) => tokens.push({ term: gram, word: gram, stopWord: false }));
+            } else {
+              apostrophes(part.text).forEach(addWord);
+            }
+          }
+        } else {
+          (word.includes("'") ? apostrophes(word) : [word]).forEach(addWord);
+        }
+      }
+
+      return tokens;
+    },
+  };
+}
+
+/**
+ * Any language: Unicode words and CJK bigrams, without stemming or stop words
+ */
+export const standardAnalyzer = createLanguageAnalyzer({ name: 'standard', languages: [] });
+
+export const englishAnalyzer = createLanguageAnalyzer({
+  name: 'english',
+  languages: ['en'],
+  stopWords: ENGLISH_STOP_WORDS,
+  stem: porterStem,
+  // Possessive "'s" is dropped and contractions are joined ("don't" -> "dont")
+  apostrophes: (word) => [word.replace(/'s$/, '').replace(/'/g, '')],
+});
+
+export const spanishAnalyzer = createLanguageAnalyzer({
+  name: 'spanish',
+  languages: ['es'],
+  stopWords: SPANISH_STOP_WORDS,
+  stem: spanishStem,
+});
+
+export const portugueseAnalyzer = createLanguageAnalyzer({
+  name: 'portuguese',
+  languages: ['pt'],
+  stopWords: PORTUGUESE_STOP_WORDS,
+  stem: portugueseStem,
+});
+
+export const frenchAnalyzer = createLanguageAnalyzer({
+  name: 'french',
+  languages: ['fr'],
+  stopWords: FRENCH_STOP_WORDS,
+  stem: frenchStem,
+  // Elided articles and pronouns are dropped ("l'homme" -> "homme", "qu'il" -> "il")
+  apostrophes: (word) => word.replace(/^(?:qu|[cdjlmnst])'/, '').split("'"),
+});
+
+export const germanAnalyzer = createLanguageAnalyzer({
+  name: 'german',
+  languages: ['de'],
+  stopWords: GERMAN_STOP_WORDS,
+  stem: germanStem,
+});
+
+export const italianAnalyzer = createLanguageAnalyzer({
+  name: 'italian',
+  languages: ['it'],
+  stopWords: ITALIAN_STOP_WORDS,
+  stem: italianStem,
+  apostrophes: (word) => word.replace(/^(?:dell|all|dall|nell|sull|coll|quell|un|[cdlmnstv])'/, '').split("'"),
+});
+
+export const BUILT_IN_ANALYZERS: Analyzer[] = [
+  standardAnalyzer,
+  englishAnalyzer,
+  spanishAnalyzer,
+  portugueseAnalyzer,
+  frenchAnalyzer,
+  germanAnalyzer,
+  italianAnalyzer,
+];
@@ -0,0 +1,76 @@
+/**
+ * Light stemmers for Spanish, Portuguese, French, German and Italian, after the
+ * light/minimal stemmers of J. Savoy. They mostly remove plural and gender endings,
+ * which is enough to match "canciones" with "canción" without over-stemming.
+ * Input is a lower-case word; accents are removed as part of stemming.
+ */
+
+/**
+ * Remove accents from Latin letters ("canción" -> "cancion")
+ */
+export function removeAccents(word: string): string {
+  return word.normalize('NFD').replace(/(\p{Script=Latin})\p{M}+/gu, '$1').normalize('NFC');
+}
+
+export function spanishStem(input: string): string {
+  if (input.length < 5) return input;
+  const word = removeAccents(input);
+
+  if (/[oae]$/.test(word)) return word.slice(0, -1);
+  if (word.endsWith('eses')) return word.slice(0, -2);
+  if (word.endsWith('ces')) return `${word.slice(0, -3)}z`;
+  if (/[oae]s$/.test(word)) return word.slice(0, -2);
+  return word;
+}
+
+export function portugueseStem(input: string): string {
+  if (input.length < 4) return input;
+  let word = input;
+
+  // Plurals: -ões/-ães -> -ão, -ais -> -al, -eis -> -el, -ns -> -m, -s
+  if (/(õ|ã)es$/.test(word)) word = `${word.slice(0, -3)}ão`;
+  else if (/ais$/.test(word)) word = `${word.slice(0, -3)}al`;
+  else if (/eis$/.test(word) && word.length > 5) word = `${word.slice(0, -3)}el`;
+  else if (/ns$/.test(word)) word = `${word.slice(0, -2)}m`;
+  else if (/[aeiou]s$/.test(word)) word = word.slice(0, -1);
+
+  word = removeAccents(word);
+  // Gender and verb endings
+  if (word.length >= 5 && /[aoe]$/.test(word)) word = word.slice(0, -1);
+  return word;
+}
+
+export function frenchStem(input: string): string {
+  if (input.length < 6) return input;
+  let word = input;
+
+  if (word.endsWith('x')) {
+    return word.endsWith('aux') ? `${word.slice(0, -2)}l` : word.slice(0, -1);
+  }
+  if (word.endsWith('s')) word = word.slice(0, -1);
+  if (word.endsWith('r')) word = word.slice(0, -1);
+  if (word.endsWith('e')) word = word.slice(0, -1);
+  if (word.endsWith('é')) word = word.slice(0, -1);
+  if (word.length > 1 && word[word.length - 1] === word[word.length - 2]) word = word.slice(0, -1);
+
+  return removeAccents(word);
+}
+
+export function germanStem(input: string): string {
+  if (input.length < 5) return input;
+  const word = input.replace(/ä/g, 'a').replace(/ö/g, 'o').replace(/ü/g, 'u').replace(/ß/g, 'ss');
+
+  if (word.length > 6 && word.endsWith('nen')) return word.slice(0, -3);
+  if (word.length > 5 && /(en|se|es|er)$/.test(word)) return word.slice(0, -2);
+  if (/[nesr]$/.test(word)) return word.slice(0, -1);
+  return word;
+}
+
+export function italianStem(input: string): string {
+  if (input.length < 6) return input;
+  const word = removeAccents(input);
+
+  if (/[ih]e$/.test(word) || /[hi]i$/.test(word) || /i[ao]$/.test(word)) return word.slice(0, -2);
+  if (/[eiao]$/.test(word)) return word.slice(0, -1);
+  return word;
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { porterStem } from './porter-stemmer';
+
+// Examples from Porter's paper, one per rule group
+const EXAMPLES: Array<[string, string]> = [
+  // Step 1a: plurals
+  ['caresses', 'caress'],
+  ['ponies', 'poni'],
+  ['caress', 'caress'],
+  ['cats', 'cat'],
+  // Step 1b: -ed and -ing
+  ['feed', 'feed'],
+  ['agreed', 'agre'],
+  ['plastered', 'plaster'],
+  ['bled', 'bled'],
+  ['motoring', 'motor'],
+  ['sing', 'sing'],
+  ['conflated', 'conflat'],
+  ['sized', 'size'],
+  ['hopping', 'hop'],
+  ['falling', 'fall'],
+  ['filing', 'file'],
+  // Step 1c: y -> i
+  ['happy', 'happi'],
+  ['sky', 'sky'],
+  // Steps 2-4: derivational suffixes
+  ['relational', 'relat'],
+  ['conditional', 'condit'],
+  ['digitizer', 'digit'],
+  ['vietnamization', 'vietnam'],
+  ['operator', 'oper'],
+  ['hopefulness', 'hope'],
+  ['goodness', 'good'],
+  ['triplicate', 'triplic'],
+  ['electrical', 'electr'],
+  ['allowance', 'allow'],
+  ['adjustment', 'adjust'],
+  ['adoption', 'adopt'],
+  ['effective', 'effect'],
+  // Step 5: final e and double l
+  ['probate', 'probat'],
+  ['rate', 'rate'],
+  ['controlling', 'control'],
+  ['roll', 'roll'],
+];
+
+describe('porterStem', () => {
+  it.each(EXAMPLES)('stems %s to %s', (word, stem) => {
+    expect(porterStem(word)).toBe(stem);
+  });
+
+  it('gives inflections of a word the same stem', () => {
+    const stems = new Set(['connect', 'connected', 'connecting', 'connection', 'connections'].map(porterStem));
+    expect([...stems]).toEqual(['connect']);
+  });
+
+  it('treats a leading y as a consonant', () => {
+    expect(porterStem('yelling')).toBe('yell');
+  });
+
+  it('leaves short words and words with other characters as they are', () => {
+    expect(porterStem('is')).toBe('is');
+    expect(porterStem('covid19')).toBe('covid19');
+    expect(porterStem('naïve')).toBe('naïve');
+  });
+});
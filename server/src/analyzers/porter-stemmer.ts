@@ -0,0 +1,129 @@
+/**
+ * Porter stemming algorithm for English (M.F. Porter, 1980).
+ * Reduces inflected words to a common stem: "running", "runs" -> "run", "connection" -> "connect".
+ */
+
+const STEP2_SUFFIXES: Record<string, string> = {
+  ational: 'ate',
+  tional: 'tion',
+  enci: 'ence',
+  anci: 'ance',
+  izer: 'ize',
+  bli: 'ble',
+  alli: 'al',
+  entli: 'ent',
+  eli: 'e',
+  ousli: 'ous',
+  ization: 'ize',
+  ation: 'ate',
+  ator: 'ate',
+  alism: 'al',
+  iveness: 'ive',
+  fulness: 'ful',
+  ousness: 'ous',
+  aliti: 'al',
+  iviti: 'ive',
+  biliti: 'ble',
+  logi: 'log',
+};
+
+const STEP3_SUFFIXES: Record<string, string> = {
+  icate: 'ic',
+  ative: '',
+  alize: 'al',
+  iciti: 'ic',
+  ical: 'ic',
+  ful: '',
+  ness: '',
+};
+
+const CONSONANT = '[^aeiou]';
+const VOWEL = '[aeiouy]';
+const CONSONANTS = `${CONSONANT}[^aeiouy]*`;
+const VOWELS = `${VOWEL}[aeiou]*`;
+
+// Measure of a stem ([C](VC){m}[V]): m > 0, m = 1, m > 1; and whether it contains a vowel
+const MEASURE_GT_0 = new RegExp(`^(${CONSONANTS})?${VOWELS}${CONSONANTS}`);
+const MEASURE_EQ_1 = new RegExp(`^(${CONSONANTS})?${VOWELS}${CONSONANTS}(${VOWELS})?$`);
+const MEASURE_GT_1 = new RegExp(`^(${CONSONANTS})?${VOWELS}${CONSONANTS}${VOWELS}${CONSONANTS}`);
+const HAS_VOWEL = new RegExp(`^(${CONSONANTS})?${VOWEL}`);
+
+// Stem ending consonant-vowel-consonant, where the last consonant is not w, x or y
+const ENDS_CVC = new RegExp(`^${CONSONANTS}${VOWEL}[^aeiouwxy]$`);
+
+export function porterStem(input: string): string {
+  if (input.length < 3 || !/^[a-z]+$/.test(input)) return input;
+
+  // A leading y is a consonant; upper case keeps it out of the vowel patterns
+  const startsWithY = input[0] === 'y';
+  let word = startsWithY ? `Y${input.slice(1)}` : input;
+  let match: RegExpExecArray | null;
+
+  // Step 1a: plurals
+  if ((match = /^(.+?)(ss|i)es$/.exec(word))) {
+    word = match[1] + match[2];
+  } else if ((match = /^(.+?)([^s])s$/.exec(word))) {
+    word = match[1] + match[2];
+  }
+
+  // Step 1b: -eed, -ed, -ing
+  if ((match = /^(.+?)eed$/.exec(word))) {
+    if (MEASURE_GT_0.test(match[1])) {
+      word = word.slice(0, -1);
+    }
+  } else if ((match = /^(.+?)(ed|ing)$/.exec(word))) {
+    const stem = match[1];
+    if (HAS_VOWEL.test(stem)) {
+      word = stem;
+      if (/(at|bl|iz)$/.test(word)) {
+        word += 'e';
+      } else if (/([^aeiouylsz])\1$/.test(word)) {
+        word = word.slice(0, -1);
+      } else if (ENDS_CVC.test(word)) {
+        word += 'e';
+      }
+    }
+  }
+
+  // Step 1c: y -> i
+  if ((match = /^(.+?)y$/.exec(word)) && HAS_VOWEL.test(match[1])) {
+    word = `${match[1]}i`;
+  }
+
+  // Step 2: double suffixes
+  match = /^(.+?)(ational|tional|enci|anci|izer|bli|alli|entli|eli|ousli|ization|ation|ator|alism|iveness|fulness|ousness|aliti|iviti|biliti|logi)$/.exec(word);
+  if (match && MEASURE_GT_0.test(match[1])) {
+    word = match[1] + STEP2_SUFFIXES[match[2]];
+  }
+
+  // Step 3: -ic-, -full, -ness, ...
+  match = /^(.+?)(icate|ative|alize|iciti|ical|ful|ness)$/.exec(word);
+  if (match && MEASURE_GT_0.test(match[1])) {
+    word = match[1] + STEP3_SUFFIXES[match[2]];
+  }
+
+  // Step 4: -ant, -ence, ...
+  if ((match = /^(.+?)(al|ance|ence|er|ic|able|ible|ant|ement|ment|ent|ou|ism|ate|iti|ous|ive|ize)$/.exec(word))) {
+    if (MEASURE_GT_1.test(match[1])) {
+      word = match[1];
+    }
+  } else if ((match = /^(.+?)(s|t)(ion)$/.exec(word))) {
+    const stem = match[1] + match[2];
+    if (MEASURE_GT_1.test(stem)) {
+      word = stem;
+    }
+  }
+
+  // Step 5: final -e and -ll
+  if ((match = /^(.+?)e$/.exec(word))) {
+    const stem = match[1];
+    if (MEASURE_GT_1.test(stem) || (MEASURE_EQ_1.test(stem) && !ENDS_CVC.test(stem))) {
+      word = stem;
+    }
+  }
+  if (/ll$/.test(word) && MEASURE_GT_1.test(word)) {
+    word = word.slice(0, -1);
+  }
+
+  return startsWithY ? `y${word.slice(1)}` : word;
+}
@@ -0,0 +1,63 @@
+/**
+ * Stop words per language: words so common that they say little about what a segment is
+ * about. They are indexed (so quoted phrases can contain them) but left out of unquoted queries.
+ * Apostrophes are removed before matching, so contractions are listed without them.
+ */
+
+export const ENGLISH_STOP_WORDS = [
+  'a', 'about', 'above', 'after', 'again', 'against', 'all', 'am', 'an', 'and', 'any', 'are', 'arent', 'as', 'at',
+  'be', 'because', 'been', 'before', 'being', 'below', 'between', 'both', 'but', 'by',
+  'can', 'cant', 'could', 'couldnt', 'did', 'didnt', 'do', 'does', 'doesnt', 'doing', 'dont', 'down', 'during',
+  'each', 'few', 'for', 'from', 'further', 'had', 'hadnt', 'has', 'hasnt', 'have', 'havent', 'having',
+  'he', 'her', 'here', 'hers', 'herself', 'him', 'himself', 'his', 'how',
+  'i', 'if', 'im', 'in', 'into', 'is', 'isnt', 'it', 'its', 'itself', 'ive', 'just', 'let', 'lets',
+  'me', 'more', 'most', 'my', 'myself', 'no', 'nor', 'not', 'now', 'of', 'off', 'on', 'once', 'only', 'or', 'other',
+  'our', 'ours', 'ourselves', 'out', 'over', 'own', 'same', 'she', 'should', 'shouldnt', 'so', 'some', 'such',
+  'than', 'that', 'thats', 'the', 'their', 'theirs', 'them', 'themselves', 'then', 'there', 'theres', 'these', 'they',
+  'theyre', 'this', 'those', 'through', 'to', 'too', 'under', 'until', 'up', 'very',
+  'was', 'wasnt', 'we', 'were', 'werent', 'weve', 'what', 'when', 'where', 'which', 'while', 'who', 'whom', 'why',
+  'will', 'with', 'wont', 'would', 'wouldnt', 'you', 'youre', 'youve', 'your', 'yours', 'yourself', 'yourselves',
+  // Fillers that auto-generated captions transcribe
+  'uh', 'um', 'uhm', 'yeah', 'okay', 'gonna', 'wanna', 'kinda',
+];
+
+export const SPANISH_STOP_WORDS = [
+  'a', 'al', 'algo', 'algunos', 'ante', 'antes', 'como', 'con', 'contra', 'cual', 'cuando', 'de', 'del', 'desde',
+  'donde', 'durante', 'e', 'el', 'él', 'ella', 'ellas', 'ellos', 'en', 'entre', 'era', 'es', 'esa', 'esas', 'ese',
+  'eso', 'esos', 'esta', 'está', 'estaba', 'están', 'estas', 'este', 'esto', 'estos', 'fue', 'ha', 'había', 'han',
+  'hasta', 'hay', 'la', 'las', 'le', 'les', 'lo', 'los', 'más', 'me', 'mi', 'mis', 'mucho', 'muy', 'nada', 'ni',
+  'no', 'nos', 'nosotros', 'o', 'otra', 'otro', 'para', 'pero', 'poco', 'por', 'porque', 'que', 'qué', 'quien',
+  'se', 'sea', 'ser', 'si', 'sí', 'sin', 'sobre', 'son', 'su', 'sus', 'también', 'te', 'tiene', 'todo', 'todos',
+  'tu', 'tus', 'un', 'una', 'uno', 'unos', 'y', 'ya', 'yo',
+];
+
+export const PORTUGUESE_STOP_WORDS = [
+  'a', 'ao', 'aos', 'as', 'até', 'com', 'como', 'da', 'das', 'de', 'dele', 'deles', 'depois', 'do', 'dos', 'e', 'é',
+  'ela', 'elas', 'ele', 'eles', 'em', 'entre', 'era', 'essa', 'esse', 'esta', 'está', 'estão', 'este', 'eu', 'foi',
+  'há', 'isso', 'isto', 'já', 'lhe', 'mais', 'mas', 'me', 'mesmo', 'meu', 'minha', 'muito', 'na', 'não', 'nas',
+  'nem', 'no', 'nos', 'nós', 'num', 'numa', 'o', 'os', 'ou', 'para', 'pela', 'pelo', 'por', 'quando', 'que', 'quem',
+  'se', 'sem', 'ser', 'seu', 'sua', 'são', 'também', 'te', 'tem', 'tu', 'um', 'uma', 'você', 'vocês',
+];
+
+export const FRENCH_STOP_WORDS = [
+  'a', 'à', 'au', 'aux', 'avec', 'c', 'ce', 'ces', 'cest', 'dans', 'de', 'des', 'du', 'elle', 'en', 'est', 'et',
+  'eux', 'il', 'ils', 'j', 'je', 'l', 'la', 'le', 'les', 'leur', 'lui', 'm', 'ma', 'mais', 'me', 'même', 'mes',
+  'moi', 'mon', 'n', 'ne', 'nos', 'notre', 'nous', 'on', 'ou', 'où', 'par', 'pas', 'pour', 'qu', 'que', 'qui', 's',
+  'sa', 'se', 'ses', 'son', 'sont', 'sur', 'ta', 'te', 'tes', 'toi', 'ton', 'tu', 'un', 'une', 'vos', 'votre',
+  'vous', 'y', 'été', 'être', 'avoir', 'fait', 'était', 'très', 'bien', 'plus', 'tout',
+];
+
+export const GERMAN_STOP_WORDS = [
+  'aber', 'alle', 'als', 'also', 'am', 'an', 'auch', 'auf', 'aus', 'bei', 'bin', 'bis', 'da', 'damit', 'dann',
+  'das', 'dass', 'dem', 'den', 'der', 'des', 'die', 'dies', 'diese', 'dieser', 'doch', 'du', 'ein', 'eine',
+  'einem', 'einen', 'einer', 'es', 'für', 'hat', 'hatte', 'ich', 'ihr', 'im', 'in', 'ist', 'ja', 'kann', 'man',
+  'mit', 'nach', 'nicht', 'noch', 'nur', 'ob', 'oder', 'schon', 'sich', 'sie', 'sind', 'so', 'um', 'und', 'uns',
+  'von', 'vor', 'war', 'was', 'wie', 'wir', 'wird', 'zu', 'zum', 'zur',
+];
+
+export const ITALIAN_STOP_WORDS = [
+  'a', 'ad', 'al', 'alla', 'alle', 'anche', 'che', 'chi', 'ci', 'come', 'con', 'da', 'dal', 'dalla', 'dei', 'del',
+  'della', 'delle', 'di', 'e', 'è', 'gli', 'ha', 'hanno', 'i', 'il', 'in', 'io', 'la', 'le', 'lei', 'lo', 'loro',
+  'lui', 'ma', 'mi', 'mio', 'ne', 'nel', 'nella', 'no', 'noi', 'non', 'o', 'per', 'più', 'questa', 'questo', 'se',
+  'si', 'sono', 'su', 'sua', 'suo', 'sul', 'ti', 'tra', 'tu', 'un', 'una', 'uno', 'voi',
+];
@@ -0,0 +1,43 @@
+/**
+ * Unicode-aware word splitting shared by all analyzers.
+ * Words are runs of letters, digits and combining marks in any script, so accented and
+ * non-Latin text survives. Chinese, Japanese and Korean text has no spaces between words
+ * and is split into overlapping two-character grams instead ("機械学習" -> 機械, 械学, 学習).
+ */
+
+// Letters, digits and combining marks, with apostrophes inside words ("don't", "l'homme")
+const WORD_REGEX = /[\p{L}\p{N}\p{M}]+(?:'[\p{L}\p{N}\p{M}]+)*/gu;
+
+const CJK_REGEX = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/u;
+const CJK_SPLIT_REGEX = /([\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]+)/u;
+
+/**
+ * Lower-case words of a text, with typographic apostrophes normalized to '
+ */
+export function splitWords(text: string): string[] {
+  const normalized = text.normalize('NFKC').toLowerCase().replace(/[’‘`]/g, "'");
+  return normalized.match(WORD_REGEX) || [];
+}
+
+export function containsCJK(word: string): boolean {
+  return CJK_REGEX.test(word);
+}
+
+/**
+ * Split a word into its CJK runs and the other parts between them
+ */
+export function splitCJK(word: string): Array<{ text: string; cjk: boolean }> {
+  return word
+    .split(CJK_SPLIT_REGEX)
+    .filter(Boolean)
+    .map((text) => ({ text, cjk: CJK_REGEX.test(text) }));
+}
+
+/**
+ * Overlapping two-character grams of a CJK run (a single character stays as it is)
+ */
+export function cjkBigrams(run: string): string[] {
+  const chars = Array.from(run);
+  if (chars.length < 2) return chars;
+  return chars.slice(0, -1).map((char, i) => char + chars[i + 1]);
+}
@@ -1,6 +1,7 @@
 import type { Core } from '@strapi/strapi';
 import { createMcpServer } from './mcp/server';
 import { ProxyAgent, fetch as undiciFetch } from 'undici';
+import { maskProxyUrl } from './services/proxy-pool';
 
 const PLUGIN_ID = 'yt-transcript-strapi-plugin';
 const OAUTH_PLUGIN_ID = 'strapi-oauth-mcp-manager';
@@ -68,6 +69,10 @@ function createFallbackAuthMiddleware(strapi: Core.Strapi) {
 
 interface PluginConfig {
   proxyUrl?: string;
+  proxyUrls?: string[];
+  proxyStrategy?: string;
+  subscriptionCron?: string;
+  asrRefreshCron?: string;
   chunkSizeSeconds?: number;
   previewLength?: number;
   maxFullTranscriptLength?: number;
@@ -80,26 +85,95 @@ const bootstrap = async ({ strapi }: { strapi: Core.Strapi }) => {
   plugin.createMcpServer = () => createMcpServer(strapi);
   plugin.sessions = new Map(); // Track active sessions
 
-  // Log proxy configuration status and test connectivity
-  const pluginConfig = strapi.config.get('plugin::yt-transcript-strapi-plugin') as PluginConfig | undefined;
-  if (pluginConfig?.proxyUrl) {
-    // Mask the proxy URL for security (hide credentials)
-    const maskedUrl = pluginConfig.proxyUrl.replace(/:([^@:]+)@/, ':****@');
-    strapi.log.info(`[${PLUGIN_ID}] Proxy configured: ${maskedUrl}`);
+  // Log proxy configuration status and test connectivity of every proxy in the pool
+  const proxyPool = strapi.plugin(PLUGIN_ID).service('proxy-pool');
+  const proxyUrls: string[] = proxyPool.getProxyUrls();
+  if (proxyUrls.length > 0) {
+    const pluginConfig = strapi.config.get('plugin::yt-transcript-strapi-plugin') as PluginConfig | undefined;
+    strapi.log.info(
+      `[${PLUGIN_ID}] Proxy pool configured: ${proxyUrls.length} ${proxyUrls.length === 1 ? 'proxy' : 'proxies'} ` +
+        `(strategy: ${pluginConfig?.proxyStrategy || 'round-robin'})`
+    );
 
     // Test proxy connectivity (non-blocking)
-    testProxyConnection(pluginConfig.proxyUrl).then((result) => {
-      if (result.success) {
-        strapi.log.info(`[${PLUGIN_ID}] ✓ Proxy connection successful - Outbound IP: ${result.ip}`);
-      } else {
-        strapi.log.error(`[${PLUGIN_ID}] ✗ Proxy connection FAILED: ${result.error}`);
-        strapi.log.error(`[${PLUGIN_ID}] YouTube requests will likely fail. Check your proxy credentials and URL.`);
-      }
-    });
+    for (const proxyUrl of proxyUrls) {
+      // Mask the proxy URL for security (hide credentials)
+      const maskedUrl = maskProxyUrl(proxyUrl);
+
+      testProxyConnection(proxyUrl).then((result) => {
+        if (result.success) {
+          strapi.log.info(`[${PLUGIN_ID}] ✓ Proxy ${maskedUrl} connection successful - Outbound IP: ${result.ip}`);
+        } else {
+          proxyPool.reportFailure(proxyUrl, new Error(result.error));
+          strapi.log.error(`[${PLUGIN_ID}] ✗ Proxy ${maskedUrl} connection FAILED: ${result.error}`);
+          strapi.log.error(`[${PLUGIN_ID}] Requests through this proxy will likely fail. Check its credentials and URL.`);
+        }
+      });
+    }
   } else {
     strapi.log.warn(`[${PLUGIN_ID}] No proxy configured - YouTube may block requests. Set PROXY_URL in .env`);
   }
 
+  // Run queued fetch jobs in the background (including jobs queued before a restart)
+  await strapi.plugin(PLUGIN_ID).service('jobs').start();
+
+  // Build the search index of transcripts saved before it existed or with other settings (non-blocking)
+  strapi
+    .plugin(PLUGIN_ID)
+    .service('search-index')
+    .syncIndex()
+    .catch((error: unknown) => {
+      strapi.log.error(
+        `[${PLUGIN_ID}] Search index sync failed: ${error instanceof Error ? error.message : String(error)}`
+      );
+    });
+
+  // Poll subscribed channels for new uploads (requires cron to be enabled in config/server)
+  const subscriptionCron = (strapi.config.get('plugin::yt-transcript-strapi-plugin') as PluginConfig | undefined)
+    ?.subscriptionCron;
+  if (subscriptionCron) {
+    strapi.cron.add({
+      ytTranscriptChannelSubscriptions: {
+        task: async ({ strapi }: { strapi: Core.Strapi }) => {
+          try {
+            await strapi.plugin(PLUGIN_ID).service('subscriptions').checkDueSubscriptions();
+          } catch (error) {
+            strapi.log.error(
+              `[${PLUGIN_ID}] Channel subscription check failed: ${error instanceof Error ? error.message : String(error)}`
+            );
+          }
+        },
+        options: {
+          rule: subscriptionCron,
+        },
+      },
+    });
+    strapi.log.info(`[${PLUGIN_ID}] Channel subscriptions checked on schedule: ${subscriptionCron}`);
+  }
+
+  // Upgrade recent auto-generated transcripts once a manual caption track appears
+  const asrRefreshCron = (strapi.config.get('plugin::yt-transcript-strapi-plugin') as PluginConfig | undefined)
+    ?.asrRefreshCron;
+  if (asrRefreshCron) {
+    strapi.cron.add({
+      ytTranscriptCaptionUpgrades: {
+        task: async ({ strapi }: { strapi: Core.Strapi }) => {
+          try {
+            await strapi.plugin(PLUGIN_ID).service('caption-upgrades').checkDueTranscripts();
+          } catch (error) {
+            strapi.log.error(
+              `[${PLUGIN_ID}] Caption upgrade check failed: ${error instanceof Error ? error.message : String(error)}`
+            );
+          }
+        },
+        options: {
+          rule: asrRefreshCron,
+        },
+      },
+    });
+    strapi.log.info(`[${PLUGIN_ID}] Auto-generated transcripts checked for manual captions on schedule: ${asrRefreshCron}`);
+  }
+
   // Check if OAuth manager is installed
   // If not, use fallback auth middleware (API token only)
   const oauthPlugin = strapi.plugin(OAUTH_PLUGIN_ID);
@@ -0,0 +1,5 @@
+import schema from './schema.json';
+
+export default {
+  schema,
+};
\ No newline at end of file
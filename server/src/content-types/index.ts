@@ -1,5 +1,15 @@
 import transcript from './transcript';
+import transcriptVersion from './transcript-version';
+import channelSubscription from './channel-subscription';
+import fetchJob from './fetch-job';
+import searchDocument from './search-document';
+import searchPosting from './search-posting';
 
 export default {
   transcript,
+  'transcript-version': transcriptVersion,
+  'channel-subscription': channelSubscription,
+  'fetch-job': fetchJob,
+  'search-document': searchDocument,
+  'search-posting': searchPosting,
 };
@@ -1,43 +1,467 @@
 import type { Core } from '@strapi/strapi';
-import { extractYouTubeID } from '../utils/extract-youtube-id';
+import { readFile } from 'node:fs/promises';
+import { extractPlaylistID, extractYouTubeID } from '../utils/extract-youtube-id';
+import { TranscriptFetchError, isTranscriptFetchError } from '../utils/transcript-fetch-error';
+import { CAPTION_FORMATS, CaptionImportConflictError, CaptionParseError, type CaptionFormat } from '../utils/parse-captions';
+import { EXPORT_FORMATS, MIN_LINE_LENGTH, exportTranscript, type ExportFormat } from '../utils/export-transcript';
+import { SearchQueryError } from '../utils/search-query';
+
+/**
+ * Parse a comma-separated query parameter into a list of values
+ */
+function parseListParam(value: unknown): string[] | undefined {
+  if (typeof value !== 'string' || value.trim() === '') return undefined;
+  return value
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Parse a numeric query parameter, returning undefined when missing or invalid
+ */
+function parseNumberParam(value: unknown): number | undefined {
+  if (typeof value !== 'string' || value.trim() === '') return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : undefined;
+}
+
+/**
+ * Parse a boolean query parameter ("true" or "false"), returning undefined otherwise
+ */
+function parseBooleanParam(value: unknown): boolean | undefined {
+  if (value === 'true') return true;
+  if (value === 'false') return false;
+  return undefined;
+}
+
+/**
+ * Read the languages field of a JSON body, given as an array of language codes or a
+ * comma-separated string. Returns null when it is neither.
+ */
+function parseLanguagesBody(value: unknown): string[] | undefined | null {
+  if (value === undefined || value === null) return undefined;
+  if (Array.isArray(value)) return value.every((item) => typeof item === 'string') ? value : null;
+  if (typeof value === 'string') return parseListParam(value);
+  return null;
+}
+
+/**
+ * Respond with the HTTP status and stable code of a TranscriptFetchError
+ */
+function sendFetchError(ctx: any, error: TranscriptFetchError) {
+  ctx.status = error.status;
+  ctx.body = {
+    data: null,
+    error: error.message,
+    code: error.code,
+    retryable: error.retryable,
+  };
+}
+
+// Largest number of videos accepted by POST /yt-transcript/bulk
+const MAX_BULK_VIDEOS = 500;
+
+// Largest maxVideos accepted by POST /yt-transcript/playlist
+const MAX_PLAYLIST_VIDEOS = 500;
 
 const controller = ({ strapi }: { strapi: Core.Strapi }) => ({
   async getTranscript(ctx) {
     const videoId = extractYouTubeID(ctx.params.videoId);
 
     if (!videoId) {
-      return (ctx.body = { error: 'Invalid YouTube URL or ID', data: null });
+      return sendFetchError(ctx, new TranscriptFetchError('INVALID_ID', 'Invalid YouTube URL or ID'));
     }
 
-    // Check if transcript exists in database
+    // ?language=es selects a single language version, ?languages=es,de lists preferences
+    const language = typeof ctx.query?.language === 'string' ? ctx.query.language : undefined;
+    const languageOptions = {
+      languages: parseListParam(ctx.query?.languages) ?? (language ? [language] : undefined),
+      translateTo: typeof ctx.query?.translateTo === 'string' ? ctx.query.translateTo : undefined,
+    };
+
+    // Check if transcript exists in database for the requested language
     const found = await strapi
       .plugin('yt-transcript-strapi-plugin')
       .service('service')
-      .findTranscript(videoId);
+      .findTranscriptForLanguages(videoId, languageOptions);
 
     if (found) {
       return (ctx.body = { data: found });
     }
 
-    // Fetch from YouTube
-    const transcriptData = await strapi
-      .plugin('yt-transcript-strapi-plugin')
-      .service('service')
-      .getTranscript(videoId);
+    // ?async=true queues a background job and returns it right away (202)
+    if (ctx.query?.async === 'true') {
+      const job = await strapi
+        .plugin('yt-transcript-strapi-plugin')
+        .service('jobs')
+        .enqueue(videoId, languageOptions);
+
+      ctx.status = 202;
+      ctx.body = { data: null, job };
+      return;
+    }
+
+    // Fetch from YouTube and save
+    try {
+      const { transcript } = await strapi
+        .plugin('yt-transcript-strapi-plugin')
+        .service('service')
+        .fetchAndSaveTranscript(videoId, languageOptions);
+
+      ctx.body = { data: transcript };
+    } catch (error) {
+      if (isTranscriptFetchError(error)) {
+        strapi.log.warn(`[yt-transcript] Fetch failed for ${videoId} (${error.code}): ${error.message}`);
+        return sendFetchError(ctx, error);
+      }
+      throw error;
+    }
+  },
+
+  /**
+   * Re-fetch a transcript from YouTube. A changed transcript replaces the stored one,
+   * which is kept in the version history. Same query parameters as getTranscript.
+   */
+  async refreshTranscript(ctx) {
+    const videoId = extractYouTubeID(ctx.params.videoId);
+
+    if (!videoId) {
+      return sendFetchError(ctx, new TranscriptFetchError('INVALID_ID', 'Invalid YouTube URL or ID'));
+    }
 
-    const payload = {
-      videoId,
-      title: transcriptData?.title || 'No title found',
-      fullTranscript: transcriptData?.fullTranscript,
-      transcriptWithTimeCodes: transcriptData?.transcriptWithTimeCodes,
+    const language = typeof ctx.query?.language === 'string' ? ctx.query.language : undefined;
+    const languageOptions = {
+      languages: parseListParam(ctx.query?.languages) ?? (language ? [language] : undefined),
+      translateTo: typeof ctx.query?.translateTo === 'string' ? ctx.query.translateTo : undefined,
     };
 
+    if (ctx.query?.async === 'true') {
+      const job = await strapi
+        .plugin('yt-transcript-strapi-plugin')
+        .service('jobs')
+        .enqueue(videoId, languageOptions, { refresh: true });
+
+      ctx.status = 202;
+      ctx.body = { data: null, job };
+      return;
+    }
+
+    try {
+      const { transcript, ...refresh } = await strapi
+        .plugin('yt-transcript-strapi-plugin')
+        .service('service')
+        .refreshTranscript(videoId, languageOptions);
+
+      ctx.body = { data: transcript, refresh };
+    } catch (error) {
+      if (isTranscriptFetchError(error)) {
+        strapi.log.warn(`[yt-transcript] Refresh failed for ${videoId} (${error.code}): ${error.message}`);
+        return sendFetchError(ctx, error);
+      }
+      throw error;
+    }
+  },
+
+  /**
+   * Ranked search across all stored transcripts
+   * (?q=&videoIds=&maxResults=&maxResultsPerVideo= plus the video metadata filters)
+   */
+  async searchLibrary(ctx) {
+    const query = ctx.query?.q ?? ctx.query?.query;
+
+    if (typeof query !== 'string' || query.trim() === '') {
+      ctx.status = 400;
+      ctx.body = { data: null, error: 'Provide a search query with ?q=' };
+      return;
+    }
+
+    const videoIds: string[] = [];
+    for (const input of parseListParam(ctx.query?.videoIds) ?? []) {
+      const videoId = extractYouTubeID(input);
+      if (!videoId) {
+        return sendFetchError(ctx, new TranscriptFetchError('INVALID_ID', `Invalid YouTube URL or ID: ${input}`));
+      }
+      videoIds.push(videoId);
+    }
+
+    for (const param of ['publishedAfter', 'publishedBefore']) {
+      const value = ctx.query?.[param];
+      if (typeof value === 'string' && Number.isNaN(Date.parse(value))) {
+        ctx.status = 400;
+        ctx.body = { data: null, error: `${param} must be an ISO 8601 date` };
+        return;
+      }
+    }
+
+    const maxResults = parseNumberParam(ctx.query?.maxResults);
+    const maxResultsPerVideo = parseNumberParam(ctx.query?.maxResultsPerVideo);
+    const captionKind = ctx.query?.captionKind;
+
+    try {
+      const result = await strapi
+        .plugin('yt-transcript-strapi-plugin')
+        .service('search')
+        .searchLibrary(query, {
+          videoIds: videoIds.length > 0 ? videoIds : undefined,
+          maxResults: maxResults !== undefined ? Math.min(Math.max(Math.floor(maxResults), 1), 50) : undefined,
+          maxResultsPerVideo:
+            maxResultsPerVideo !== undefined ? Math.min(Math.max(Math.floor(maxResultsPerVideo), 1), 20) : undefined,
+          channelId: typeof ctx.query?.channelId === 'string' ? ctx.query.channelId : undefined,
+          channelName: typeof ctx.query?.channelName === 'string' ? ctx.query.channelName : undefined,
+          language: typeof ctx.query?.language === 'string' ? ctx.query.language : undefined,
+          captionKind: captionKind === 'manual' || captionKind === 'asr' ? captionKind : undefined,
+          isShort: parseBooleanParam(ctx.query?.isShort),
+          isLive: parseBooleanParam(ctx.query?.isLive),
+          publishedAfter: typeof ctx.query?.publishedAfter === 'string' ? ctx.query.publishedAfter : undefined,
+          publishedBefore: typeof ctx.query?.publishedBefore === 'string' ? ctx.query.publishedBefore : undefined,
+          minDurationSeconds: parseNumberParam(ctx.query?.minDurationSeconds),
+          maxDurationSeconds: parseNumberParam(ctx.query?.maxDurationSeconds),
+          minViewCount: parseNumberParam(ctx.query?.minViewCount),
+        });
+
+      ctx.body = { data: result };
+    } catch (error) {
+      if (error instanceof SearchQueryError) {
+        ctx.status = 400;
+        ctx.body = { data: null, error: error.message };
+        return;
+      }
+      throw error;
+    }
+  },
+
+  /**
+   * Status of a background fetch job started with ?async=true or fetch_transcript async: true
+   */
+  async getFetchJob(ctx) {
+    const job = await strapi
+      .plugin('yt-transcript-strapi-plugin')
+      .service('jobs')
+      .getJob(ctx.params.jobId);
+
+    if (!job) {
+      ctx.status = 404;
+      ctx.body = { data: null, error: `No fetch job found with ID: ${ctx.params.jobId}` };
+      return;
+    }
+
+    ctx.body = { data: job };
+  },
+
+  /**
+   * Export a stored transcript as a file
+   * (?format=srt|vtt|txt|md|json&language=&startTime=&endTime=&maxLineLength=)
+   */
+  async exportTranscript(ctx) {
+    const videoId = extractYouTubeID(ctx.params.videoId);
+
+    if (!videoId) {
+      return sendFetchError(ctx, new TranscriptFetchError('INVALID_ID', 'Invalid YouTube URL or ID'));
+    }
+
+    const format = (ctx.query?.format || 'srt') as ExportFormat;
+    if (!EXPORT_FORMATS.includes(format)) {
+      ctx.status = 400;
+      ctx.body = { data: null, error: `format must be one of: ${EXPORT_FORMATS.join(', ')}` };
+      return;
+    }
+
+    const maxLineLength = parseNumberParam(ctx.query?.maxLineLength);
+    if (
+      ctx.query?.maxLineLength !== undefined &&
+      (maxLineLength === undefined || !Number.isInteger(maxLineLength) || maxLineLength < MIN_LINE_LENGTH)
+    ) {
+      ctx.status = 400;
+      ctx.body = { data: null, error: `maxLineLength must be an integer of at least ${MIN_LINE_LENGTH}` };
+      return;
+    }
+
+    const language = typeof ctx.query?.language === 'string' ? ctx.query.language : undefined;
     const transcript = await strapi
       .plugin('yt-transcript-strapi-plugin')
       .service('service')
-      .saveTranscript(payload);
+      .findTranscript(videoId, language);
+
+    if (!transcript) {
+      ctx.status = 404;
+      ctx.body = { data: null, error: `No transcript found for video ID: ${videoId}` };
+      return;
+    }
+
+    const result = exportTranscript(transcript, {
+      format,
+      startTime: parseNumberParam(ctx.query?.startTime),
+      endTime: parseNumberParam(ctx.query?.endTime),
+      maxLineLength,
+    });
+
+    ctx.set('Content-Type', result.contentType);
+    ctx.set('Content-Disposition', `attachment; filename="${result.fileName}"`);
+    ctx.body = typeof result.content === 'string' ? result.content : JSON.stringify(result.content, null, 2);
+  },
+
+  /**
+   * Fetch and save the transcripts of every video in a playlist. Above a few videos, or with
+   * async, the fetches are queued as background jobs and the response is 202 with their job IDs.
+   * Body: { playlistId (ID or URL), languages?, translateTo?, concurrency?, maxVideos?, async? }
+   */
+  async fetchPlaylist(ctx) {
+    const body = ctx.request.body || {};
+    const playlistId = typeof body.playlistId === 'string' ? extractPlaylistID(body.playlistId) : null;
+
+    if (!playlistId) {
+      return sendFetchError(ctx, new TranscriptFetchError('INVALID_ID', 'Invalid YouTube playlist URL or ID'));
+    }
+
+    const languages = parseLanguagesBody(body.languages);
+    if (languages === null) {
+      ctx.status = 400;
+      ctx.body = { data: null, error: 'languages must be an array of language codes' };
+      return;
+    }
 
-    ctx.body = { data: transcript };
+    if (
+      body.maxVideos !== undefined &&
+      (typeof body.maxVideos !== 'number' || body.maxVideos < 1 || body.maxVideos > MAX_PLAYLIST_VIDEOS)
+    ) {
+      ctx.status = 400;
+      ctx.body = { data: null, error: `maxVideos must be a number between 1 and ${MAX_PLAYLIST_VIDEOS}` };
+      return;
+    }
+
+    const concurrency = typeof body.concurrency === 'number' ? Math.min(Math.max(Math.floor(body.concurrency), 1), 10) : undefined;
+    const maxVideos = body.maxVideos !== undefined ? Math.floor(body.maxVideos) : undefined;
+
+    try {
+      const result = await strapi
+        .plugin('yt-transcript-strapi-plugin')
+        .service('service')
+        .fetchPlaylist(playlistId, {
+          languages,
+          translateTo: typeof body.translateTo === 'string' ? body.translateTo : undefined,
+          concurrency,
+          maxVideos,
+          async: body.async === true || body.async === 'true',
+        });
+
+      ctx.status = result.async ? 202 : 200;
+      ctx.body = { data: result };
+    } catch (error) {
+      if (isTranscriptFetchError(error)) {
+        strapi.log.warn(`[yt-transcript] Playlist ${playlistId} failed (${error.code}): ${error.message}`);
+        return sendFetchError(ctx, error);
+      }
+      throw error;
+    }
+  },
+
+  /**
+   * Fetch and save transcripts for many videos. Above a few videos, or with async, the
+   * fetches are queued as background jobs and the response is 202 with their job IDs.
+   * Body: { videoIds: string[] (IDs or URLs), languages?, translateTo?, concurrency?, async? }
+   */
+  async fetchTranscriptsBulk(ctx) {
+    const body = ctx.request.body || {};
+    const videoIds = body.videoIds;
+
+    if (!Array.isArray(videoIds) || videoIds.length === 0 || videoIds.some((value) => typeof value !== 'string')) {
+      ctx.status = 400;
+      ctx.body = { data: null, error: 'videoIds must be a non-empty array of video IDs or URLs' };
+      return;
+    }
+
+    if (videoIds.length > MAX_BULK_VIDEOS) {
+      ctx.status = 400;
+      ctx.body = { data: null, error: `At most ${MAX_BULK_VIDEOS} videos per request` };
+      return;
+    }
+
+    const languages = parseLanguagesBody(body.languages);
+    if (languages === null) {
+      ctx.status = 400;
+      ctx.body = { data: null, error: 'languages must be an array of language codes' };
+      return;
+    }
+
+    const concurrency = typeof body.concurrency === 'number' ? Math.min(Math.max(Math.floor(body.concurrency), 1), 10) : undefined;
+
+    const result = await strapi
+      .plugin('yt-transcript-strapi-plugin')
+      .service('service')
+      .fetchTranscriptsBulk(videoIds, {
+        languages,
+        translateTo: typeof body.translateTo === 'string' ? body.translateTo : undefined,
+        concurrency,
+        async: body.async === true || body.async === 'true',
+      });
+
+    ctx.status = result.async ? 202 : 200;
+    ctx.body = { data: result };
+  },
+
+  /**
+   * Import an SRT, WebVTT or SBV caption file as a transcript.
+   * Accepts multipart form data (file field "file") or JSON with a "content" string.
+   * Other fields: videoId, title, language, format, sourceUrl, overwrite.
+   */
+  async importCaptions(ctx) {
+    const body = ctx.request.body || {};
+    const file = ctx.request.files?.file;
+    const upload = Array.isArray(file) ? file[0] : file;
+
+    let content: string | undefined = typeof body.content === 'string' ? body.content : undefined;
+    let fileName: string | undefined;
+    if (upload) {
+      content = await readFile(upload.filepath || upload.path, 'utf8');
+      fileName = upload.originalFilename || upload.name;
+    }
+
+    if (!content) {
+      ctx.status = 400;
+      ctx.body = { data: null, error: 'Provide a caption file (field "file") or "content" in the request body' };
+      return;
+    }
+
+    if (body.format && !CAPTION_FORMATS.includes(body.format)) {
+      ctx.status = 400;
+      ctx.body = { data: null, error: `format must be one of: ${CAPTION_FORMATS.join(', ')}` };
+      return;
+    }
+
+    try {
+      const transcript = await strapi
+        .plugin('yt-transcript-strapi-plugin')
+        .service('service')
+        .importCaptions({
+          content,
+          fileName,
+          format: body.format as CaptionFormat | undefined,
+          videoId: body.videoId || undefined,
+          title: body.title || undefined,
+          language: body.language || undefined,
+          sourceUrl: body.sourceUrl || undefined,
+          overwrite: body.overwrite === true || body.overwrite === 'true',
+        });
+
+      ctx.status = 201;
+      ctx.body = { data: transcript };
+    } catch (error) {
+      if (isTranscriptFetchError(error)) {
+        return sendFetchError(ctx, error);
+      }
+      if (error instanceof CaptionParseError) {
+        ctx.status = 400;
+        ctx.body = { data: null, error: error.message };
+        return;
+      }
+      if (error instanceof CaptionImportConflictError) {
+        ctx.status = 409;
+        ctx.body = { data: null, error: error.message };
+        return;
+      }
+      throw error;
+    }
   },
 });
 
@@ -1,7 +1,8 @@
 import type { Core } from '@strapi/strapi';
 
 const destroy = ({ strapi }: { strapi: Core.Strapi }) => {
-  // destroy phase
+  // Stop the fetch job worker loop
+  strapi.plugin('yt-transcript-strapi-plugin').service('jobs').stop();
 };
 
 export default destroy;
@@ -1,12 +1,35 @@
 import { z } from 'zod';
+import { MIN_LINE_LENGTH } from '../../utils/export-transcript';
 
 // Schema for fetch_transcript tool
 export const FetchTranscriptSchema = z.object({
   videoId: z.string().min(1, 'Video ID or URL is required'),
+  languages: z.array(z.string().min(2, 'Language codes must be at least 2 characters')).optional(),
+  translateTo: z.string().min(2, 'Language codes must be at least 2 characters').optional(),
+  async: z.boolean().optional().default(false),
+  refresh: z.boolean().optional().default(false),
 });
 
+// Video metadata filters shared by list_transcripts and find_transcripts
+const isoDate = z.string().refine((value) => !Number.isNaN(Date.parse(value)), 'Must be an ISO 8601 date');
+
+const MetadataFilterFields = {
+  channelId: z.string().min(1).optional(),
+  channelName: z.string().min(1).optional(),
+  language: z.string().min(2).optional(),
+  captionKind: z.enum(['asr', 'manual']).optional(),
+  isShort: z.boolean().optional(),
+  isLive: z.boolean().optional(),
+  publishedAfter: isoDate.optional(),
+  publishedBefore: isoDate.optional(),
+  minDurationSeconds: z.number().int().min(0).optional(),
+  maxDurationSeconds: z.number().int().min(0).optional(),
+  minViewCount: z.number().int().min(0).optional(),
+};
+
 // Schema for list_transcripts tool
 export const ListTranscriptsSchema = z.object({
+  ...MetadataFilterFields,
   page: z.number().int().min(1).optional().default(1),
   pageSize: z.number().int().min(1).max(100).optional().default(25),
   sort: z.string().optional().default('createdAt:desc'),
@@ -15,19 +38,25 @@ export const ListTranscriptsSchema = z.object({
 // Schema for get_transcript tool
 export const GetTranscriptSchema = z.object({
   videoId: z.string().min(1, 'Video ID is required'),
+  language: z.string().min(2).optional(),
   includeFullTranscript: z.boolean().optional().default(false),
   includeTimecodes: z.boolean().optional().default(false),
   startTime: z.number().min(0).optional(),
   endTime: z.number().min(0).optional(),
   chunkIndex: z.number().int().min(0).optional(),
   chunkSize: z.number().int().min(30).optional(),
+  chapterIndex: z.number().int().min(0).optional(),
+  chapterTitle: z.string().min(1).optional(),
+  format: z.enum(['raw', 'sentences', 'paragraphs']).optional().default('raw'),
 });
 
 // Schema for search_transcript tool
 export const SearchTranscriptSchema = z.object({
   videoId: z.string().min(1, 'Video ID is required'),
   query: z.string().min(1, 'Search query is required'),
+  language: z.string().min(2).optional(),
   maxResults: z.number().int().min(1).max(20).optional().default(5),
+  fuzzy: z.boolean().optional().default(false),
 });
 
 // Schema for find_transcripts tool
@@ -35,18 +64,98 @@ export const FindTranscriptsSchema = z.object({
   query: z.string().optional(),
   videoId: z.string().optional(),
   title: z.string().optional(),
+  ...MetadataFilterFields,
   includeFullContent: z.boolean().optional().default(false),
   page: z.number().int().min(1).optional().default(1),
   pageSize: z.number().int().min(1).max(100).optional().default(25),
   sort: z.string().optional().default('createdAt:desc'),
 });
 
+// Schema for list_caption_tracks tool
+export const ListCaptionTracksSchema = z.object({
+  videoId: z.string().min(1, 'Video ID or URL is required'),
+});
+
+// Schema for import_captions tool
+export const ImportCaptionsSchema = z.object({
+  content: z.string().min(1, 'Caption content is required'),
+  format: z.enum(['srt', 'vtt', 'sbv']).optional(),
+  videoId: z.string().min(1).optional(),
+  title: z.string().optional(),
+  language: z.string().min(2).optional(),
+  sourceUrl: z.string().url().optional(),
+  overwrite: z.boolean().optional().default(false),
+});
+
+// Schema for export_transcript tool
+export const ExportTranscriptSchema = z.object({
+  videoId: z.string().min(1, 'Video ID is required'),
+  format: z.enum(['srt', 'vtt', 'txt', 'md', 'json']).optional().default('srt'),
+  language: z.string().min(2).optional(),
+  startTime: z.number().min(0).optional(),
+  endTime: z.number().min(0).optional(),
+  maxLineLength: z.number().int().min(MIN_LINE_LENGTH).optional(),
+});
+
+// Schema for fetch_playlist tool
+export const FetchPlaylistSchema = z.object({
+  playlistId: z.string().min(1, 'Playlist ID or URL is required'),
+  languages: z.array(z.string().min(2, 'Language codes must be at least 2 characters')).optional(),
+  translateTo: z.string().min(2, 'Language codes must be at least 2 characters').optional(),
+  concurrency: z.number().int().min(1).max(10).optional(),
+  maxVideos: z.number().int().min(1).max(500, 'At most 500 videos per request').optional(),
+  async: z.boolean().optional().default(false),
+});
+
+// Schema for fetch_transcripts_bulk tool
+export const FetchTranscriptsBulkSchema = z.object({
+  videoIds: z
+    .array(z.string())
+    .min(1, 'At least one video ID or URL is required')
+    .max(500, 'At most 500 videos per request'),
+  languages: z.array(z.string().min(2, 'Language codes must be at least 2 characters')).optional(),
+  translateTo: z.string().min(2, 'Language codes must be at least 2 characters').optional(),
+  concurrency: z.number().int().min(1).max(10).optional(),
+  async: z.boolean().optional().default(false),
+});
+
+// Schema for get_fetch_job tool
+export const GetFetchJobSchema = z.object({
+  jobId: z.string().min(1, 'Job ID is required'),
+});
+
+// Schema for get_transcript_history tool
+export const GetTranscriptHistorySchema = z.object({
+  videoId: z.string().min(1, 'Video ID is required'),
+  language: z.string().min(2).optional(),
+  fromVersion: z.number().int().min(1).optional(),
+  toVersion: z.number().int().min(1).optional(),
+  maxChanges: z.number().int().min(1).max(500).optional().default(50),
+});
+
+// Schema for search_library tool
+export const SearchLibrarySchema = z.object({
+  query: z.string().min(1, 'Search query is required'),
+  videoIds: z.array(z.string().min(1)).max(500).optional(),
+  maxResults: z.number().int().min(1).max(50).optional().default(10),
+  maxResultsPerVideo: z.number().int().min(1).max(20).optional().default(3),
+  ...MetadataFilterFields,
+});
+
 // Type exports
 export type FetchTranscriptInput = z.infer<typeof FetchTranscriptSchema>;
 export type ListTranscriptsInput = z.infer<typeof ListTranscriptsSchema>;
 export type GetTranscriptInput = z.infer<typeof GetTranscriptSchema>;
 export type SearchTranscriptInput = z.infer<typeof SearchTranscriptSchema>;
 export type FindTranscriptsInput = z.infer<typeof FindTranscriptsSchema>;
+export type ListCaptionTracksInput = z.infer<typeof ListCaptionTracksSchema>;
+export type ImportCaptionsInput = z.infer<typeof ImportCaptionsSchema>;
+export type ExportTranscriptInput = z.infer<typeof ExportTranscriptSchema>;
+export type FetchPlaylistInput = z.infer<typeof FetchPlaylistSchema>;
+export type GetFetchJobInput = z.infer<typeof GetFetchJobSchema>;
+export type FetchTranscriptsBulkInput = z.infer<typeof FetchTranscriptsBulkSchema>;
+export type GetTranscriptHistoryInput = z.infer<typeof GetTranscriptHistorySchema>;
+export type SearchLibraryInput = z.infer<typeof SearchLibrarySchema>;
 
 // All schemas for easy lookup
 export const ToolSchemas = {
@@ -55,6 +164,14 @@ export const ToolSchemas = {
   get_transcript: GetTranscriptSchema,
   search_transcript: SearchTranscriptSchema,
   find_transcripts: FindTranscriptsSchema,
+  list_caption_tracks: ListCaptionTracksSchema,
+  import_captions: ImportCaptionsSchema,
+  export_transcript: ExportTranscriptSchema,
+  fetch_playlist: FetchPlaylistSchema,
+  get_fetch_job: GetFetchJobSchema,
+  fetch_transcripts_bulk: FetchTranscriptsBulkSchema,
+  get_transcript_history: GetTranscriptHistorySchema,
+  search_library: SearchLibrarySchema,
 } as const;
 
 type ToolName = keyof typeof ToolSchemas;
@@ -0,0 +1,57 @@
+import type { Core } from '@strapi/strapi';
+import { exportTranscriptTool } from '../../tools';
+
+export { exportTranscriptTool };
+
+// MCP tool definition (JSON Schema format for MCP protocol)
+export const exportTranscriptToolMcp = {
+  name: 'export_transcript',
+  description: exportTranscriptTool.description,
+  inputSchema: {
+    type: 'object' as const,
+    properties: {
+      videoId: {
+        type: 'string',
+        description: 'YouTube video ID (e.g., "dQw4w9WgXcQ") or full YouTube URL',
+      },
+      format: {
+        type: 'string',
+        enum: ['srt', 'vtt', 'txt', 'md', 'json'],
+        description: 'Export format. Default: srt',
+      },
+      language: {
+        type: 'string',
+        description: 'Language code of the transcript version to export (e.g., "es"). Default: any stored language',
+      },
+      startTime: {
+        type: 'number',
+        description: 'Start time in seconds to export only part of the transcript',
+      },
+      endTime: {
+        type: 'number',
+        description: 'End time in seconds to export only part of the transcript',
+      },
+      maxLineLength: {
+        type: 'number',
+        description: 'Merge consecutive captions up to this many characters per cue/line (min 20). Markdown defaults to 500',
+      },
+    },
+    required: ['videoId'],
+  },
+};
+
+/**
+ * MCP handler -- delegates to canonical tool and wraps result in MCP envelope
+ */
+export async function handleExportTranscript(strapi: Core.Strapi, args: unknown) {
+  const result = await exportTranscriptTool.execute(args, strapi);
+
+  return {
+    content: [
+      {
+        type: 'text' as const,
+        text: JSON.stringify(result, null, 2),
+      },
+    ],
+  };
+}
@@ -0,0 +1,57 @@
+import type { Core } from '@strapi/strapi';
+import { fetchPlaylistTool } from '../../tools';
+
+export { fetchPlaylistTool };
+
+// MCP tool definition (JSON Schema format for MCP protocol)
+export const fetchPlaylistToolMcp = {
+  name: 'fetch_playlist',
+  description: fetchPlaylistTool.description,
+  inputSchema: {
+    type: 'object' as const,
+    properties: {
+      playlistId: {
+        type: 'string',
+        description: 'YouTube playlist ID (e.g., "PLxxxxxxxx") or a URL with a list= parameter',
+      },
+      languages: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Preferred caption language codes in priority order (e.g., ["es", "de"]). Videos without these languages are reported as no_captions. Default: English, falling back to any available track',
+      },
+      translateTo: {
+        type: 'string',
+        description: 'Language code to auto-translate the captions into (e.g., "en"). A native track in that language is used when available',
+      },
+      concurrency: {
+        type: 'number',
+        description: 'Number of videos fetched at the same time (1-10) when they are fetched before responding. Default: playlistConcurrency from the plugin config (3)',
+      },
+      maxVideos: {
+        type: 'number',
+        description: 'Only process the first N videos of the playlist (1-500). Default: 500',
+      },
+      async: {
+        type: 'boolean',
+        description: 'Queue the fetches as background jobs and return their job IDs right away. Always on above 10 videos. Default: false',
+      },
+    },
+    required: ['playlistId'],
+  },
+};
+
+/**
+ * MCP handler -- delegates to canonical tool and wraps result in MCP envelope
+ */
+export async function handleFetchPlaylist(strapi: Core.Strapi, args: unknown) {
+  const result = await fetchPlaylistTool.execute(args, strapi);
+
+  return {
+    content: [
+      {
+        type: 'text' as const,
+        text: JSON.stringify(result, null, 2),
+      },
+    ],
+  };
+}
@@ -14,6 +14,23 @@ export const fetchTranscriptToolMcp = {
         type: 'string',
         description: 'YouTube video ID (e.g., "dQw4w9WgXcQ") or full YouTube URL',
       },
+      languages: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Preferred caption language codes in priority order (e.g., ["es", "de"]). Fails if none are available. Default: English, falling back to any available track',
+      },
+      translateTo: {
+        type: 'string',
+        description: 'Language code to auto-translate the captions into (e.g., "en"). A native track in that language is used when available',
+      },
+      async: {
+        type: 'boolean',
+        description: 'Queue the fetch as a background job and return a jobId immediately instead of waiting. Poll it with get_fetch_job. Default: false',
+      },
+      refresh: {
+        type: 'boolean',
+        description: 'Re-fetch even when the transcript is cached. A changed transcript replaces the stored one, which is kept as a version with a diff (see get_transcript_history). Default: false',
+      },
     },
     required: ['videoId'],
   },
@@ -0,0 +1,54 @@
+import type { Core } from '@strapi/strapi';
+import { fetchTranscriptsBulkTool } from '../../tools';
+
+export { fetchTranscriptsBulkTool };
+
+// MCP tool definition (JSON Schema format for MCP protocol)
+export const fetchTranscriptsBulkToolMcp = {
+  name: 'fetch_transcripts_bulk',
+  description: fetchTranscriptsBulkTool.description,
+  inputSchema: {
+    type: 'object' as const,
+    properties: {
+      videoIds: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'YouTube video IDs or links (watch, Shorts, youtu.be, embed, live), up to 500',
+      },
+      languages: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Preferred caption language codes in priority order (e.g., ["es", "de"]). Videos without these languages are reported as no_captions. Default: English, falling back to any available track',
+      },
+      translateTo: {
+        type: 'string',
+        description: 'Language code to auto-translate the captions into (e.g., "en"). A native track in that language is used when available',
+      },
+      concurrency: {
+        type: 'number',
+        description: 'Number of videos fetched at the same time (1-10) when they are fetched before responding. Default: playlistConcurrency from the plugin config (3)',
+      },
+      async: {
+        type: 'boolean',
+        description: 'Queue the fetches as background jobs and return their job IDs right away. Always on above 10 videos. Default: false',
+      },
+    },
+    required: ['videoIds'],
+  },
+};
+
+/**
+ * MCP handler -- delegates to canonical tool and wraps result in MCP envelope
+ */
+export async function handleFetchTranscriptsBulk(strapi: Core.Strapi, args: unknown) {
+  const result = await fetchTranscriptsBulkTool.execute(args, strapi);
+
+  return {
+    content: [
+      {
+        type: 'text' as const,
+        text: JSON.stringify(result, null, 2),
+      },
+    ],
+  };
+}
@@ -16,12 +16,57 @@ export const findTranscriptsToolMcp = {
       },
       videoId: {
         type: 'string',
-        description: 'Filter by specific video ID (partial match supported)',
+        description: 'Filter by specific video ID or YouTube URL (partial match supported)',
       },
       title: {
         type: 'string',
         description: 'Filter by title (partial match, case-insensitive)',
       },
+      channelId: {
+        type: 'string',
+        description: 'Filter by YouTube channel ID (exact match)',
+      },
+      channelName: {
+        type: 'string',
+        description: 'Filter by channel name (partial match, case-insensitive)',
+      },
+      language: {
+        type: 'string',
+        description: 'Filter by language code (e.g., "en" also matches "en-GB")',
+      },
+      captionKind: {
+        type: 'string',
+        enum: ['asr', 'manual'],
+        description: 'Filter by caption track kind: "asr" (auto-generated) or "manual"',
+      },
+      isShort: {
+        type: 'boolean',
+        description: 'Only Shorts (true) or only regular videos (false)',
+      },
+      isLive: {
+        type: 'boolean',
+        description: 'Only live streams (true) or only non-live videos (false)',
+      },
+      publishedAfter: {
+        type: 'string',
+        description: 'Only videos published on or after this ISO 8601 date (e.g., "2024-01-01")',
+      },
+      publishedBefore: {
+        type: 'string',
+        description: 'Only videos published on or before this ISO 8601 date',
+      },
+      minDurationSeconds: {
+        type: 'number',
+        description: 'Minimum video duration in seconds',
+      },
+      maxDurationSeconds: {
+        type: 'number',
+        description: 'Maximum video duration in seconds',
+      },
+      minViewCount: {
+        type: 'number',
+        description: 'Minimum view count (as recorded when the transcript was fetched)',
+      },
       includeFullContent: {
         type: 'boolean',
         description: 'Set to true to include full transcript content. Default: false. Warning: may cause context overflow with multiple results.',
@@ -36,7 +81,7 @@ export const findTranscriptsToolMcp = {
       },
       sort: {
         type: 'string',
-        description: 'Sort order (e.g., "createdAt:desc", "title:asc")',
+        description: 'Sort order (e.g., "createdAt:desc", "title:asc", "videoPublishedAt:desc", "viewCount:desc")',
       },
     },
     required: [],
@@ -0,0 +1,36 @@
+import type { Core } from '@strapi/strapi';
+import { getFetchJobTool } from '../../tools';
+
+export { getFetchJobTool };
+
+// MCP tool definition (JSON Schema format for MCP protocol)
+export const getFetchJobToolMcp = {
+  name: 'get_fetch_job',
+  description: getFetchJobTool.description,
+  inputSchema: {
+    type: 'object' as const,
+    properties: {
+      jobId: {
+        type: 'string',
+        description: 'Job ID returned by fetch_transcript with async: true',
+      },
+    },
+    required: ['jobId'],
+  },
+};
+
+/**
+ * MCP handler -- delegates to canonical tool and wraps result in MCP envelope
+ */
+export async function handleGetFetchJob(strapi: Core.Strapi, args: unknown) {
+  const result = await getFetchJobTool.execute(args, strapi);
+
+  return {
+    content: [
+      {
+        type: 'text' as const,
+        text: JSON.stringify(result, null, 2),
+      },
+    ],
+  };
+}
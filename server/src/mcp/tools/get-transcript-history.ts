@@ -0,0 +1,53 @@
+import type { Core } from '@strapi/strapi';
+import { getTranscriptHistoryTool } from '../../tools';
+
+export { getTranscriptHistoryTool };
+
+// MCP tool definition (JSON Schema format for MCP protocol)
+export const getTranscriptHistoryToolMcp = {
+  name: 'get_transcript_history',
+  description: getTranscriptHistoryTool.description,
+  inputSchema: {
+    type: 'object' as const,
+    properties: {
+      videoId: {
+        type: 'string',
+        description: 'YouTube video ID or URL',
+      },
+      language: {
+        type: 'string',
+        description: 'Language code of the transcript (e.g. "en"). Defaults to the first stored language.',
+      },
+      fromVersion: {
+        type: 'number',
+        description: 'Older version to compare. Defaults to the version before toVersion.',
+      },
+      toVersion: {
+        type: 'number',
+        description: 'Newer version to compare. Defaults to the current version.',
+      },
+      maxChanges: {
+        type: 'number',
+        description: 'Maximum number of changes to return in the comparison. Default: 50',
+        default: 50,
+      },
+    },
+    required: ['videoId'],
+  },
+};
+
+/**
+ * MCP handler -- delegates to canonical tool and wraps result in MCP envelope
+ */
+export async function handleGetTranscriptHistory(strapi: Core.Strapi, args: unknown) {
+  const result = await getTranscriptHistoryTool.execute(args, strapi);
+
+  return {
+    content: [
+      {
+        type: 'text' as const,
+        text: JSON.stringify(result, null, 2),
+      },
+    ],
+  };
+}
@@ -12,7 +12,11 @@ export const getTranscriptToolMcp = {
     properties: {
       videoId: {
         type: 'string',
-        description: 'YouTube video ID (e.g., "dQw4w9WgXcQ") or full YouTube URL',
+        description: 'YouTube video ID (e.g., "dQw4w9WgXcQ") or full YouTube URL. A timestamp in the URL (t= or start=) centres the response on that moment',
+      },
+      language: {
+        type: 'string',
+        description: 'Language code of the transcript version to use (e.g., "es"). Default: any stored language',
       },
       includeFullTranscript: {
         type: 'boolean',
@@ -38,6 +42,21 @@ export const getTranscriptToolMcp = {
         type: 'number',
         description: 'Chunk size in seconds. Overrides config default. Use with chunkIndex for pagination.',
       },
+      chapterIndex: {
+        type: 'number',
+        description: 'Chapter index (0-based) to return. Chapters follow the topics marked by the video author; see metadata.chapters.',
+      },
+      chapterTitle: {
+        type: 'string',
+        description: 'Chapter title to return (case-insensitive, partial match supported). Alternative to chapterIndex.',
+      },
+      format: {
+        type: 'string',
+        enum: ['raw', 'sentences', 'paragraphs'],
+        description:
+          "Text format: 'raw' caption fragments, 'sentences' (one per line) or 'paragraphs'. Sentences and paragraphs remove repeated rolling-caption text and restore sentence breaks. Default: raw",
+        default: 'raw',
+      },
     },
     required: ['videoId'],
   },
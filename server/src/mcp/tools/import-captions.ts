@@ -0,0 +1,62 @@
+import type { Core } from '@strapi/strapi';
+import { importCaptionsTool } from '../../tools';
+
+export { importCaptionsTool };
+
+// MCP tool definition (JSON Schema format for MCP protocol)
+export const importCaptionsToolMcp = {
+  name: 'import_captions',
+  description: importCaptionsTool.description,
+  inputSchema: {
+    type: 'object' as const,
+    properties: {
+      content: {
+        type: 'string',
+        description: 'Caption file content (SRT, WebVTT or SBV)',
+      },
+      format: {
+        type: 'string',
+        enum: ['srt', 'vtt', 'sbv'],
+        description: 'Caption format. Detected from the content when omitted',
+      },
+      videoId: {
+        type: 'string',
+        description: 'YouTube video ID or URL the captions belong to. Omit for videos hosted elsewhere to generate an ID',
+      },
+      title: {
+        type: 'string',
+        description: 'Video title',
+      },
+      language: {
+        type: 'string',
+        description: 'Language code of the captions (e.g., "en"). Read from the WebVTT Language header when omitted',
+      },
+      sourceUrl: {
+        type: 'string',
+        description: 'Where the video is hosted, for videos outside YouTube',
+      },
+      overwrite: {
+        type: 'boolean',
+        description:
+          'Replace a stored transcript of the same video and language (the current version is kept in its history). Default: false',
+      },
+    },
+    required: ['content'],
+  },
+};
+
+/**
+ * MCP handler -- delegates to canonical tool and wraps result in MCP envelope
+ */
+export async function handleImportCaptions(strapi: Core.Strapi, args: unknown) {
+  const result = await importCaptionsTool.execute(args, strapi);
+
+  return {
+    content: [
+      {
+        type: 'text' as const,
+        text: JSON.stringify(result, null, 2),
+      },
+    ],
+  };
+}
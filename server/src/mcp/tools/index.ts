@@ -1,4 +1,5 @@
 import type { Core } from '@strapi/strapi';
+import { isTranscriptFetchError } from '../../utils/transcript-fetch-error';
 
 // Import MCP tool definitions and handlers
 import { fetchTranscriptToolMcp, handleFetchTranscript } from './fetch-transcript';
@@ -6,6 +7,14 @@ import { listTranscriptsToolMcp, handleListTranscripts } from './list-transcript
 import { getTranscriptToolMcp, handleGetTranscript } from './get-transcript';
 import { searchTranscriptToolMcp, handleSearchTranscript } from './search-transcript';
 import { findTranscriptsToolMcp, handleFindTranscripts } from './find-transcripts';
+import { listCaptionTracksToolMcp, handleListCaptionTracks } from './list-caption-tracks';
+import { importCaptionsToolMcp, handleImportCaptions } from './import-captions';
+import { exportTranscriptToolMcp, handleExportTranscript } from './export-transcript';
+import { fetchPlaylistToolMcp, handleFetchPlaylist } from './fetch-playlist';
+import { getFetchJobToolMcp, handleGetFetchJob } from './get-fetch-job';
+import { fetchTranscriptsBulkToolMcp, handleFetchTranscriptsBulk } from './fetch-transcripts-bulk';
+import { getTranscriptHistoryToolMcp, handleGetTranscriptHistory } from './get-transcript-history';
+import { searchLibraryToolMcp, handleSearchLibrary } from './search-library';
 
 // Export all MCP tool definitions (JSON Schema format for MCP protocol)
 export const tools = [
@@ -14,6 +23,14 @@ export const tools = [
   getTranscriptToolMcp,
   searchTranscriptToolMcp,
   findTranscriptsToolMcp,
+  listCaptionTracksToolMcp,
+  importCaptionsToolMcp,
+  exportTranscriptToolMcp,
+  fetchPlaylistToolMcp,
+  getFetchJobToolMcp,
+  fetchTranscriptsBulkToolMcp,
+  getTranscriptHistoryToolMcp,
+  searchLibraryToolMcp,
 ];
 
 // Tool handler registry
@@ -23,6 +40,14 @@ const toolHandlers: Record<string, (strapi: Core.Strapi, args: unknown) => Promi
   get_transcript: handleGetTranscript,
   search_transcript: handleSearchTranscript,
   find_transcripts: handleFindTranscripts,
+  list_caption_tracks: handleListCaptionTracks,
+  import_captions: handleImportCaptions,
+  export_transcript: handleExportTranscript,
+  fetch_playlist: handleFetchPlaylist,
+  get_fetch_job: handleGetFetchJob,
+  fetch_transcripts_bulk: handleFetchTranscriptsBulk,
+  get_transcript_history: handleGetTranscriptHistory,
+  search_library: handleSearchLibrary,
 };
 
 /**
@@ -52,9 +77,11 @@ export async function handleToolCall(
 
     strapi.log.error(`[yt-transcript-mcp] Tool ${name} failed after ${duration}ms`, {
       error: error instanceof Error ? error.message : String(error),
+      ...(isTranscriptFetchError(error) && { code: error.code }),
     });
 
     return {
+      isError: true,
       content: [
         {
           type: 'text' as const,
@@ -62,6 +89,7 @@ export async function handleToolCall(
             {
               error: true,
               message: error instanceof Error ? error.message : String(error),
+              ...(isTranscriptFetchError(error) && { code: error.code, retryable: error.retryable }),
               tool: name,
             },
             null,
@@ -0,0 +1,36 @@
+import type { Core } from '@strapi/strapi';
+import { listCaptionTracksTool } from '../../tools';
+
+export { listCaptionTracksTool };
+
+// MCP tool definition (JSON Schema format for MCP protocol)
+export const listCaptionTracksToolMcp = {
+  name: 'list_caption_tracks',
+  description: listCaptionTracksTool.description,
+  inputSchema: {
+    type: 'object' as const,
+    properties: {
+      videoId: {
+        type: 'string',
+        description: 'YouTube video ID (e.g., "dQw4w9WgXcQ") or full YouTube URL',
+      },
+    },
+    required: ['videoId'],
+  },
+};
+
+/**
+ * MCP handler -- delegates to canonical tool and wraps result in MCP envelope
+ */
+export async function handleListCaptionTracks(strapi: Core.Strapi, args: unknown) {
+  const result = await listCaptionTracksTool.execute(args, strapi);
+
+  return {
+    content: [
+      {
+        type: 'text' as const,
+        text: JSON.stringify(result, null, 2),
+      },
+    ],
+  };
+}
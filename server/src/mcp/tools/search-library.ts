@@ -0,0 +1,97 @@
+import type { Core } from '@strapi/strapi';
+import { searchLibraryTool } from '../../tools';
+
+export { searchLibraryTool };
+
+// MCP tool definition (JSON Schema format for MCP protocol)
+export const searchLibraryToolMcp = {
+  name: 'search_library',
+  description: searchLibraryTool.description,
+  inputSchema: {
+    type: 'object' as const,
+    properties: {
+      query: {
+        type: 'string',
+        description:
+          'Search query: keywords, "quoted phrases", AND/OR/NOT, +required, -excluded, prefix* wildcards, time:5:00-12:00, chapter:2 or chapter:"Title"',
+      },
+      videoIds: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Only search these videos (IDs or YouTube URLs)',
+      },
+      maxResults: {
+        type: 'number',
+        description: 'Maximum number of passages to return (1-50). Default: 10',
+        default: 10,
+      },
+      maxResultsPerVideo: {
+        type: 'number',
+        description: 'Maximum number of passages from the same video (1-20). Default: 3',
+        default: 3,
+      },
+      channelId: {
+        type: 'string',
+        description: 'Filter by YouTube channel ID (exact match)',
+      },
+      channelName: {
+        type: 'string',
+        description: 'Filter by channel name (partial match, case-insensitive)',
+      },
+      language: {
+        type: 'string',
+        description: 'Filter by language code (e.g., "en" also matches "en-GB")',
+      },
+      captionKind: {
+        type: 'string',
+        enum: ['asr', 'manual'],
+        description: 'Filter by caption track kind: "asr" (auto-generated) or "manual"',
+      },
+      isShort: {
+        type: 'boolean',
+        description: 'Only Shorts (true) or only regular videos (false)',
+      },
+      isLive: {
+        type: 'boolean',
+        description: 'Only live streams (true) or only non-live videos (false)',
+      },
+      publishedAfter: {
+        type: 'string',
+        description: 'Only videos published on or after this ISO 8601 date (e.g., "2024-01-01")',
+      },
+      publishedBefore: {
+        type: 'string',
+        description: 'Only videos published on or before this ISO 8601 date',
+      },
+      minDurationSeconds: {
+        type: 'number',
+        description: 'Minimum video duration in seconds',
+      },
+      maxDurationSeconds: {
+        type: 'number',
+        description: 'Maximum video duration in seconds',
+      },
+      minViewCount: {
+        type: 'number',
+        description: 'Minimum view count (as recorded when the transcript was fetched)',
+      },
+    },
+    required: ['query'],
+  },
+};
+
+/**
+ * MCP handler -- delegates to canonical tool and wraps result in MCP envelope
+ */
+export async function handleSearchLibrary(strapi: Core.Strapi, args: unknown) {
+  const result = await searchLibraryTool.execute(args, strapi);
+
+  return {
+    content: [
+      {
+        type: 'text' as const,
+        text: JSON.stringify(result, null, 2),
+      },
+    ],
+  };
+}
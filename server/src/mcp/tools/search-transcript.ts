@@ -16,12 +16,22 @@ export const searchTranscriptToolMcp = {
       },
       query: {
         type: 'string',
-        description: 'Search query - keywords or phrases to find in the transcript',
+        description:
+          'Search query: keywords, "quoted phrases", AND/OR/NOT, +required, -excluded, prefix* wildcards, time:5:00-12:00, chapter:2 or chapter:"Title"',
+      },
+      language: {
+        type: 'string',
+        description: 'Language code of the transcript version to use (e.g., "es"). Default: any stored language',
       },
       maxResults: {
         type: 'number',
         description: 'Maximum number of results to return (default: 5, max: 20)',
       },
+      fuzzy: {
+        type: 'boolean',
+        description:
+          'Also match misspelled and misrecognized words: terms a few typos away or that sound alike (for names). Fuzzy matches rank below exact ones. Quoted words stay exact. Default: false',
+      },
     },
     required: ['videoId', 'query'],
   },
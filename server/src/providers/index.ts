@@ -0,0 +1,28 @@
+import type { CaptionTrackList, PlaylistVideoList, TranscriptData } from '../utils/fetch-transcript';
+import { createYouTubeProvider } from './youtube';
+
+export interface TranscriptProviderOptions {
+  languages?: string[];
+  translateTo?: string;
+}
+
+export interface PlaylistListOptions {
+  maxVideos?: number;
+}
+
+/**
+ * A source of transcripts. The YouTube provider is registered by default;
+ * other plugins or app code can register more through the `providers` service:
+ *
+ *   strapi.plugin('yt-transcript-strapi-plugin').service('providers').register(myProvider);
+ *
+ * and enable them with the `providers` config option, which sets the order they are tried in.
+ */
+export interface TranscriptProvider {
+  name: string;
+  fetch: (videoId: string, options: TranscriptProviderOptions) => Promise<TranscriptData>;
+  listCaptionTracks?: (videoId: string) => Promise<CaptionTrackList>;
+  listPlaylistVideos?: (playlistId: string, options?: PlaylistListOptions) => Promise<PlaylistVideoList>;
+}
+
+export { createYouTubeProvider };
@@ -0,0 +1,128 @@
+import type { Core } from '@strapi/strapi';
+import fetchTranscript, {
+  DEFAULT_RETRY_POLICY,
+  listCaptionTracks,
+  listPlaylistVideos,
+  type RetryPolicy,
+} from '../utils/fetch-transcript';
+import { isTranscriptFetchError } from '../utils/transcript-fetch-error';
+import { maskProxyUrl } from '../services/proxy-pool';
+import type { TranscriptProvider } from './index';
+
+interface RetryConfig {
+  retryMaxAttempts?: number;
+  retryBaseDelayMs?: number;
+  retryMaxDelayMs?: number;
+  retryJitter?: number;
+  retryableErrors?: RetryPolicy['retryableErrors'];
+}
+
+/**
+ * Build the retry policy for YouTube requests from plugin config (unset values use the defaults)
+ */
+function getRetryPolicy(strapi: Core.Strapi): Partial<RetryPolicy> {
+  const pluginConfig = strapi.config.get('plugin::yt-transcript-strapi-plugin') as RetryConfig | undefined;
+
+  return {
+    maxAttempts: pluginConfig?.retryMaxAttempts,
+    baseDelayMs: pluginConfig?.retryBaseDelayMs,
+    maxDelayMs: pluginConfig?.retryMaxDelayMs,
+    jitter: pluginConfig?.retryJitter,
+    retryableErrors: pluginConfig?.retryableErrors,
+  };
+}
+
+/**
+ * Run a YouTube request through the proxy pool, failing over to the next proxy
+ * when one is blocked or unreachable. Without proxies the request is made directly.
+ * A blocked proxy is not retried while other proxies are left: backing off only
+ * helps once the pool is exhausted.
+ */
+async function withProxyFailover<T>(
+  strapi: Core.Strapi,
+  videoId: string,
+  task: (proxyUrl: string | undefined, retry: Partial<RetryPolicy>) => Promise<T>
+): Promise<T> {
+  const proxyPool = strapi.plugin('yt-transcript-strapi-plugin').service('proxy-pool');
+  const candidates: string[] = proxyPool.getCandidates(videoId);
+  const retry = getRetryPolicy(strapi);
+
+  if (candidates.length === 0) {
+    strapi.log.info(`[yt-transcript] Requesting ${videoId} (NO PROXY - check config)`);
+    return task(undefined, retry);
+  }
+
+  const retryableErrors = retry.retryableErrors || DEFAULT_RETRY_POLICY.retryableErrors;
+  const failoverRetry: Partial<RetryPolicy> = {
+    ...retry,
+    retryableErrors: retryableErrors.filter((code) => code !== 'IP_BLOCKED'),
+  };
+
+  let lastError: unknown;
+  for (let i = 0; i < candidates.length; i++) {
+    const proxyUrl = candidates[i];
+    strapi.log.info(`[yt-transcript] Requesting ${videoId} via proxy: ${maskProxyUrl(proxyUrl)}`);
+
+    try {
+      const result = await task(proxyUrl, i < candidates.length - 1 ? failoverRetry : retry);
+      proxyPool.reportSuccess(proxyUrl);
+      return result;
+    } catch (error) {
+      // Errors unrelated to the proxy (no captions, private video) are final
+      if (!isTranscriptFetchError(error) || !error.retryable) {
+        proxyPool.reportSuccess(proxyUrl);
+        throw error;
+      }
+
+      proxyPool.reportFailure(proxyUrl, error);
+      lastError = error;
+
+      if (i < candidates.length - 1) {
+        strapi.log.warn(
+          `[yt-transcript] Proxy ${maskProxyUrl(proxyUrl)} failed for ${videoId} (${error.code}), trying next proxy`
+        );
+      }
+    }
+  }
+
+  throw lastError;
+}
+
+/**
+ * Default provider: youtubei.js player info + timedtext download,
+ * through the proxy pool and retry policy
+ */
+export function createYouTubeProvider(strapi: Core.Strapi): TranscriptProvider {
+  return {
+    name: 'youtube',
+
+    fetch(videoId, options) {
+      return withProxyFailover(strapi, videoId, (proxyUrl, retry) =>
+        fetchTranscript(videoId, {
+          proxyUrl,
+          languages: options.languages,
+          translateTo: options.translateTo,
+          retry,
+          logger: strapi.log,
+        })
+      );
+    },
+
+    listCaptionTracks(videoId) {
+      return withProxyFailover(strapi, videoId, (proxyUrl, retry) =>
+        listCaptionTracks(videoId, { proxyUrl, retry, logger: strapi.log })
+      );
+    },
+
+    listPlaylistVideos(playlistId, options) {
+      return withProxyFailover(strapi, playlistId, (proxyUrl, retry) =>
+        listPlaylistVideos(playlistId, {
+          proxyUrl,
+          maxVideos: options?.maxVideos,
+          retry,
+          logger: strapi.log,
+        })
+      );
+    },
+  };
+}
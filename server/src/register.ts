@@ -1,7 +1,41 @@
 import type { Core } from '@strapi/strapi';
 
+const PLUGIN_ID = 'yt-transcript-strapi-plugin';
+const TRANSCRIPT_UID = 'plugin::yt-transcript-strapi-plugin.transcript';
+
+// Fields whose change makes a transcript's search index stale
+const INDEXED_FIELDS = ['transcriptWithTimeCodes', 'language'];
+
 const register = ({ strapi }: { strapi: Core.Strapi }) => {
   // register phase - middleware is registered in bootstrap
+
+  // Keep the search index in step with every write to a transcript, including Content Manager edits
+  strapi.documents.use(async (context, next) => {
+    const result = await next();
+    if (context.uid !== TRANSCRIPT_UID) return result;
+
+    const params = context.params as { documentId?: string; data?: Record<string, unknown> };
+    const searchIndex = strapi.plugin(PLUGIN_ID).service('search-index');
+
+    try {
+      if (context.action === 'delete' && params.documentId) {
+        await searchIndex.removeTranscript(params.documentId);
+      } else if (
+        (context.action === 'create' || context.action === 'update') &&
+        INDEXED_FIELDS.some((field) => params.data && field in params.data)
+      ) {
+        const documentId = (result as { documentId?: string } | null)?.documentId ?? params.documentId;
+        if (documentId) await searchIndex.reindexTranscript(documentId);
+      }
+    } catch (error) {
+      // Searches rebuild a missing index, so a failure here does not fail the write
+      strapi.log.warn(
+        `[yt-transcript] Could not update the search index: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+
+    return result;
+  });
 };
 
 export default register;
@@ -1,4 +1,20 @@
 export default [
+  {
+    method: 'GET',
+    path: '/yt-transcript/jobs/:jobId',
+    handler: 'controller.getFetchJob',
+    config: {
+      policies: [],
+    },
+  },
+  {
+    method: 'GET',
+    path: '/yt-transcript/search',
+    handler: 'controller.searchLibrary',
+    config: {
+      policies: [],
+    },
+  },
   {
     method: 'GET',
     path: '/yt-transcript/:videoId',
@@ -7,4 +23,44 @@ export default [
       policies: [],  
     },  
   },
+  {
+    method: 'POST',
+    path: '/yt-transcript/import',
+    handler: 'controller.importCaptions',
+    config: {
+      policies: [],
+    },
+  },
+  {
+    method: 'GET',
+    path: '/yt-transcript/:videoId/export',
+    handler: 'controller.exportTranscript',
+    config: {
+      policies: [],
+    },
+  },
+  {
+    method: 'POST',
+    path: '/yt-transcript/:videoId/refresh',
+    handler: 'controller.refreshTranscript',
+    config: {
+      policies: [],
+    },
+  },
+  {
+    method: 'POST',
+    path: '/yt-transcript/playlist',
+    handler: 'controller.fetchPlaylist',
+    config: {
+      policies: [],
+    },
+  },
+  {
+    method: 'POST',
+    path: '/yt-transcript/bulk',
+    handler: 'controller.fetchTranscriptsBulk',
+    config: {
+      policies: [],
+    },
+  },
 ];
\ No newline at end of file
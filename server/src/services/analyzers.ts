@@ -0,0 +1,69 @@
+/**
+ * Search Analyzers Service -- Registry of text analyzers for search
+ *
+ * The analyzer of a transcript is picked from its language. Built-in analyzers cover
+ * English, Spanish, Portuguese, French, German and Italian; other languages use the
+ * standard analyzer. Other plugins or app code can register their own, which take
+ * precedence over the built-in analyzer for the same language:
+ *
+ *   strapi.plugin('yt-transcript-strapi-plugin').service('analyzers').register(analyzer);
+ *
+ * Transcripts indexed with another analyzer are re-indexed at the next startup or search.
+ */
+
+import type { Core } from '@strapi/strapi';
+import {
+  BUILT_IN_ANALYZERS,
+  createLanguageAnalyzer,
+  standardAnalyzer,
+  type Analyzer,
+  type LanguageAnalyzerOptions,
+} from '../analyzers';
+
+export default ({ strapi }: { strapi: Core.Strapi }) => {
+  const registry = new Map<string, Analyzer>(BUILT_IN_ANALYZERS.map((analyzer) => [analyzer.name, analyzer]));
+
+  return {
+    /**
+     * Build an analyzer from stop words and a stemmer, with the built-in word splitting
+     */
+    create(options: LanguageAnalyzerOptions): Analyzer {
+      return createLanguageAnalyzer(options);
+    },
+
+    register(analyzer: Analyzer) {
+      if (!analyzer?.name || !Array.isArray(analyzer.languages) || typeof analyzer.analyze !== 'function') {
+        throw new Error('Search analyzer must have a name, a languages array and an analyze(text) function');
+      }
+      if (registry.has(analyzer.name)) {
+        strapi.log.warn(`[yt-transcript] Replacing search analyzer "${analyzer.name}"`);
+        registry.delete(analyzer.name);
+      }
+      registry.set(analyzer.name, analyzer);
+    },
+
+    get(name: string): Analyzer | undefined {
+      return registry.get(name);
+    },
+
+    list(): string[] {
+      return [...registry.keys()];
+    },
+
+    /**
+     * Analyzer for a language code. An exact match ("pt-BR") wins over the base language ("pt");
+     * among analyzers for the same language, the one registered last is used.
+     */
+    forLanguage(language?: string | null): Analyzer {
+      if (!language) return standardAnalyzer;
+
+      const code = language.toLowerCase();
+      const base = code.split(/[-_]/)[0];
+      const analyzers = [...registry.values()].reverse();
+      const matches = (candidate: string) => (analyzer: Analyzer) =>
+        analyzer.languages.some((handled) => handled.toLowerCase() === candidate);
+
+      return analyzers.find(matches(code)) || analyzers.find(matches(base)) || standardAnalyzer;
+    },
+  };
+};
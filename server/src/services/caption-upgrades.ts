@@ -0,0 +1,144 @@
+/**
+ * Caption Upgrades Service
+ *
+ * Creators often add human captions days after upload. Transcripts fetched from
+ * auto-generated (ASR) captions are re-checked on a schedule for the first
+ * asrRefreshWindowDays after ingestion; once a manual track exists in the same
+ * language the transcript is refreshed from it. The ASR version stays in the
+ * transcript history and captionUpgradedAt records the upgrade.
+ */
+
+import type { Core } from '@strapi/strapi';
+import { mapWithConcurrency } from '../utils/concurrency';
+import type { CaptionTrackList } from '../utils/fetch-transcript';
+
+const TRANSCRIPT_UID = 'plugin::yt-transcript-strapi-plugin.transcript';
+
+export type CaptionUpgradeStatus = 'upgraded' | 'no_manual_track' | 'failed';
+
+interface PluginConfig {
+  playlistConcurrency?: number;
+  asrRefreshWindowDays?: number;
+  asrRefreshIntervalHours?: number;
+  asrRefreshBatchSize?: number;
+}
+
+interface AsrTranscript {
+  documentId: string;
+  videoId: string;
+  language: string;
+}
+
+export interface CaptionUpgradeReport {
+  videoId: string;
+  language: string;
+  status: CaptionUpgradeStatus;
+  version?: number;
+  error?: string;
+}
+
+export default ({ strapi }: { strapi: Core.Strapi }) => {
+  let running = false;
+
+  /**
+   * Record the time of a check (and any other fields) on the transcript
+   */
+  async function recordCheck(transcript: AsrTranscript, result: Record<string, unknown>) {
+    const data: Record<string, unknown> = { lastCaptionCheckAt: new Date().toISOString(), ...result };
+    await strapi.documents(TRANSCRIPT_UID).update({
+      documentId: transcript.documentId,
+      data,
+    });
+  }
+
+  return {
+    /**
+     * Check one ASR transcript for a manual caption track in its language and refresh it when one exists
+     */
+    async checkTranscript(transcript: AsrTranscript): Promise<CaptionUpgradeReport> {
+      const { videoId, language } = transcript;
+      const service = strapi.plugin('yt-transcript-strapi-plugin').service('service');
+
+      try {
+        const { tracks }: CaptionTrackList = await service.getCaptionTracks(videoId);
+        const hasManualTrack = tracks.some(
+          (track) => track.kind === 'manual' && track.languageCode.toLowerCase() === language.toLowerCase()
+        );
+
+        if (!hasManualTrack) {
+          await recordCheck(transcript, {});
+          return { videoId, language, status: 'no_manual_track' };
+        }
+
+        const result = await service.refreshTranscript(videoId, { languages: [language] });
+
+        if (result.transcript.captionKind !== 'manual') {
+          await recordCheck(transcript, {});
+          return { videoId, language, status: 'no_manual_track' };
+        }
+
+        await recordCheck(result.transcript, { captionUpgradedAt: new Date().toISOString() });
+        strapi.log.info(
+          `[yt-transcript] Upgraded ${videoId} (${language}) from auto-generated to manual captions (version ${result.version})`
+        );
+        return { videoId, language, status: 'upgraded', version: result.version };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        strapi.log.warn(`[yt-transcript] Caption upgrade check failed for ${videoId} (${language}): ${message}`);
+        await recordCheck(transcript, {});
+        return { videoId, language, status: 'failed', error: message };
+      }
+    },
+
+    /**
+     * Check the ASR transcripts that are still inside the refresh window and have not been
+     * checked within asrRefreshIntervalHours, oldest check first. Runs are never overlapped.
+     */
+    async checkDueTranscripts() {
+      if (running) {
+        strapi.log.info('[yt-transcript] Caption upgrade check already running, skipping');
+        return { checked: 0, summary: { upgraded: 0, no_manual_track: 0, failed: 0 }, transcripts: [] };
+      }
+
+      running = true;
+      try {
+        const pluginConfig = strapi.config.get('plugin::yt-transcript-strapi-plugin') as PluginConfig | undefined;
+        const now = Date.now();
+        const windowStart = new Date(now - (pluginConfig?.asrRefreshWindowDays ?? 14) * 24 * 60 * 60 * 1000);
+        const checkedBefore = new Date(now - (pluginConfig?.asrRefreshIntervalHours ?? 24) * 60 * 60 * 1000);
+
+        const due = (await strapi.documents(TRANSCRIPT_UID).findMany({
+          filters: {
+            captionKind: 'asr',
+            language: { $notNull: true },
+            createdAt: { $gte: windowStart.toISOString() },
+            $or: [{ lastCaptionCheckAt: { $null: true } }, { lastCaptionCheckAt: { $lt: checkedBefore.toISOString() } }],
+          },
+          sort: 'lastCaptionCheckAt:asc',
+          limit: pluginConfig?.asrRefreshBatchSize ?? 25,
+        })) as unknown as AsrTranscript[];
+
+        // Same concurrency as playlist ingestion; requests go through the proxy pool and retry settings
+        const reports = await mapWithConcurrency(due, pluginConfig?.playlistConcurrency || 3, (transcript) =>
+          this.checkTranscript(transcript)
+        );
+
+        const summary: Record<CaptionUpgradeStatus, number> = { upgraded: 0, no_manual_track: 0, failed: 0 };
+        for (const report of reports) {
+          summary[report.status]++;
+        }
+
+        if (reports.length > 0) {
+          strapi.log.info(
+            `[yt-transcript] Caption upgrade check: ${reports.length} auto-generated transcripts checked, ` +
+              `${summary.upgraded} upgraded, ${summary.failed} failed`
+          );
+        }
+
+        return { checked: reports.length, summary, transcripts: reports };
+      } finally {
+        running = false;
+      }
+    },
+  };
+};
@@ -0,0 +1,126 @@
+/**
+ * Transcript History Service
+ *
+ * Keeps earlier versions of a transcript when a refresh replaces it. The transcript row
+ * always holds the current version; each replaced version is stored as a
+ * transcript-version document with a summary of what changed in the next version.
+ */
+
+import type { Core } from '@strapi/strapi';
+import { diffTranscripts, type DiffSummary } from '../utils/transcript-diff';
+import type { TimecodeEntry } from '../utils/time-range';
+
+const VERSION_UID = 'plugin::yt-transcript-strapi-plugin.transcript-version';
+
+interface StoredTranscript {
+  documentId: string;
+  videoId: string;
+  language?: string | null;
+  version?: number | null;
+  title?: string | null;
+  fullTranscript?: string | null;
+  transcriptWithTimeCodes?: TimecodeEntry[] | null;
+  captionKind?: string | null;
+  source?: string | null;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+interface StoredVersion extends StoredTranscript {
+  transcriptDocumentId: string;
+  fetchedAt?: string | null;
+  replacedAt?: string | null;
+  diffSummary?: (DiffSummary & { captionKindChanged?: boolean }) | null;
+}
+
+export default ({ strapi }: { strapi: Core.Strapi }) => ({
+  /**
+   * Store the current state of a transcript before a refresh replaces it
+   */
+  async snapshot(transcript: StoredTranscript, diffSummary: DiffSummary & { captionKindChanged?: boolean }) {
+    const data: Record<string, unknown> = {
+      transcriptDocumentId: transcript.documentId,
+      videoId: transcript.videoId,
+      language: transcript.language,
+      version: transcript.version || 1,
+      title: transcript.title,
+      fullTranscript: transcript.fullTranscript,
+      transcriptWithTimeCodes: transcript.transcriptWithTimeCodes,
+      captionKind: transcript.captionKind,
+      source: transcript.source,
+      fetchedAt: transcript.updatedAt || transcript.createdAt,
+      replacedAt: new Date().toISOString(),
+      diffSummary,
+    };
+
+    return await strapi.documents(VERSION_UID).create({ data });
+  },
+
+  /**
+   * All versions of a transcript, newest first. The current version comes from the transcript itself.
+   */
+  async listVersions(transcript: StoredTranscript) {
+    const previous = (await strapi.documents(VERSION_UID).findMany({
+      filters: { transcriptDocumentId: transcript.documentId },
+      sort: 'version:desc',
+    })) as unknown as StoredVersion[];
+
+    return [
+      {
+        version: transcript.version || 1,
+        current: true,
+        captionKind: transcript.captionKind ?? null,
+        source: transcript.source ?? null,
+        fetchedAt: transcript.updatedAt || transcript.createdAt || null,
+        replacedAt: null,
+        segmentCount: transcript.transcriptWithTimeCodes?.length || 0,
+        changesInNextVersion: null,
+      },
+      ...previous.map((version) => ({
+        version: version.version,
+        current: false,
+        captionKind: version.captionKind ?? null,
+        source: version.source ?? null,
+        fetchedAt: version.fetchedAt ?? null,
+        replacedAt: version.replacedAt ?? null,
+        segmentCount: version.transcriptWithTimeCodes?.length || 0,
+        changesInNextVersion: version.diffSummary ?? null,
+      })),
+    ];
+  },
+
+  /**
+   * Load one version of a transcript (the current one or a stored earlier one)
+   */
+  async getVersion(transcript: StoredTranscript, version: number): Promise<StoredTranscript | null> {
+    if (version === (transcript.version || 1)) {
+      return transcript;
+    }
+
+    const stored = await strapi.documents(VERSION_UID).findFirst({
+      filters: { transcriptDocumentId: transcript.documentId, version },
+    });
+    return (stored as unknown as StoredTranscript) || null;
+  },
+
+  /**
+   * Segment-level diff between two versions of a transcript
+   */
+  async compareVersions(transcript: StoredTranscript, fromVersion: number, toVersion: number) {
+    const [from, to] = await Promise.all([
+      this.getVersion(transcript, fromVersion),
+      this.getVersion(transcript, toVersion),
+    ]);
+
+    if (!from || !to) {
+      return null;
+    }
+
+    return {
+      fromVersion,
+      toVersion,
+      captionKind: { from: from.captionKind ?? null, to: to.captionKind ?? null },
+      ...diffTranscripts(from.transcriptWithTimeCodes || [], to.transcriptWithTimeCodes || []),
+    };
+  },
+});
@@ -1,7 +1,25 @@
 import service from './service';
 import aiTools from './ai-tools';
+import proxyPool from './proxy-pool';
+import providers from './providers';
+import subscriptions from './subscriptions';
+import jobs from './jobs';
+import history from './history';
+import captionUpgrades from './caption-upgrades';
+import search from './search';
+import searchIndex from './search-index';
+import analyzers from './analyzers';
 
 export default {
   service,
   'ai-tools': aiTools,
+  'proxy-pool': proxyPool,
+  providers,
+  subscriptions,
+  jobs,
+  history,
+  'caption-upgrades': captionUpgrades,
+  search,
+  'search-index': searchIndex,
+  analyzers,
 };
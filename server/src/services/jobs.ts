@@ -0,0 +1,271 @@
+/**
+ * Fetch Jobs Service
+ *
+ * Background transcript fetching. Jobs are stored as fetch-job documents, so queued work
+ * survives a restart, and a worker loop runs them with a global concurrency limit.
+ * Retryable failures (blocked IP, network) are queued again with a growing delay
+ * until maxAttempts is reached.
+ */
+
+import type { Core } from '@strapi/strapi';
+import { isTranscriptFetchError } from '../utils/transcript-fetch-error';
+import type { TranscriptLanguageOptions } from './service';
+
+const JOB_UID = 'plugin::yt-transcript-strapi-plugin.fetch-job';
+
+export type FetchJobStatus = 'queued' | 'running' | 'succeeded' | 'failed';
+
+interface JobsConfig {
+  jobConcurrency?: number;
+  jobMaxAttempts?: number;
+  jobPollIntervalMs?: number;
+  jobRetryDelaySeconds?: number;
+}
+
+interface FetchJob {
+  documentId: string;
+  videoId: string;
+  languages?: string[] | null;
+  translateTo?: string | null;
+  refresh?: boolean | null;
+  status: FetchJobStatus;
+  attempts?: number | null;
+  maxAttempts?: number | null;
+  runAfter?: string | null;
+  startedAt?: string | null;
+  finishedAt?: string | null;
+  lastError?: string | null;
+  errorCode?: string | null;
+  cached?: boolean | null;
+  transcriptDocumentId?: string | null;
+  createdAt?: string;
+}
+
+/**
+ * Public view of a job, as returned by the REST route and get_fetch_job
+ */
+export function toJobResponse(job: FetchJob) {
+  return {
+    jobId: job.documentId,
+    videoId: job.videoId,
+    status: job.status,
+    languages: job.languages ?? null,
+    translateTo: job.translateTo ?? null,
+    refresh: Boolean(job.refresh),
+    attempts: job.attempts ?? 0,
+    maxAttempts: job.maxAttempts ?? null,
+    lastError: job.lastError ?? null,
+    errorCode: job.errorCode ?? null,
+    cached: Boolean(job.cached),
+    transcriptDocumentId: job.transcriptDocumentId ?? null,
+    createdAt: job.createdAt ?? null,
+    startedAt: job.startedAt ?? null,
+    finishedAt: job.finishedAt ?? null,
+    nextAttemptAt: job.status === 'queued' ? job.runAfter ?? null : null,
+  };
+}
+
+function sameLanguages(a?: string[] | null, b?: string[]): boolean {
+  return (a || []).join(',') === (b || []).join(',');
+}
+
+export default ({ strapi }: { strapi: Core.Strapi }) => {
+  let timer: NodeJS.Timeout | undefined;
+  let active = 0;
+  let claiming = false;
+
+  function getConfig(): Required<JobsConfig> {
+    const pluginConfig = strapi.config.get('plugin::yt-transcript-strapi-plugin') as JobsConfig | undefined;
+    return {
+      jobConcurrency: pluginConfig?.jobConcurrency || 2,
+      jobMaxAttempts: pluginConfig?.jobMaxAttempts || 3,
+      jobPollIntervalMs: pluginConfig?.jobPollIntervalMs || 2000,
+      jobRetryDelaySeconds: pluginConfig?.jobRetryDelaySeconds ?? 30,
+    };
+  }
+
+  async function updateJob(documentId: string, changes: Record<string, unknown>) {
+    return (await strapi.documents(JOB_UID).update({ documentId, data: changes })) as unknown as FetchJob;
+  }
+
+  /**
+   * Oldest queued job whose retry delay has passed
+   */
+  async function findNextJob(): Promise<FetchJob | null> {
+    const now = new Date().toISOString();
+    const job = await strapi.documents(JOB_UID).findFirst({
+      filters: {
+        status: 'queued',
+        $or: [{ runAfter: { $null: true } }, { runAfter: { $lte: now } }],
+      },
+      sort: 'createdAt:asc',
+    });
+    return (job as unknown as FetchJob) || null;
+  }
+
+  async function runJob(job: FetchJob) {
+    const config = getConfig();
+    const attempts = job.attempts || 0;
+    const languageOptions: TranscriptLanguageOptions = {
+      languages: job.languages || undefined,
+      translateTo: job.translateTo || undefined,
+    };
+
+    try {
+      const service = strapi.plugin('yt-transcript-strapi-plugin').service('service');
+      const { transcript, cached } = job.refresh
+        ? { ...(await service.refreshTranscript(job.videoId, languageOptions)), cached: false }
+        : await service.fetchAndSaveTranscript(job.videoId, languageOptions);
+
+      await updateJob(job.documentId, {
+        status: 'succeeded',
+        finishedAt: new Date().toISOString(),
+        cached,
+        transcriptDocumentId: transcript.documentId,
+        lastError: null,
+        errorCode: null,
+      });
+      strapi.log.info(`[yt-transcript] Job ${job.documentId} for ${job.videoId} succeeded (attempt ${attempts})`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const code = isTranscriptFetchError(error) ? error.code : null;
+      const retryable = isTranscriptFetchError(error) && error.retryable;
+      const maxAttempts = job.maxAttempts || config.jobMaxAttempts;
+
+      if (retryable && attempts < maxAttempts) {
+        const delayMs = config.jobRetryDelaySeconds * 1000 * 2 ** (attempts - 1);
+        await updateJob(job.documentId, {
+          status: 'queued',
+          runAfter: new Date(Date.now() + delayMs).toISOString(),
+          lastError: message,
+          errorCode: code,
+        });
+        strapi.log.warn(
+          `[yt-transcript] Job ${job.documentId} for ${job.videoId} failed (attempt ${attempts}/${maxAttempts}, ${code}), ` +
+            `retrying in ${Math.round(delayMs / 1000)}s`
+        );
+        return;
+      }
+
+      await updateJob(job.documentId, {
+        status: 'failed',
+        finishedAt: new Date().toISOString(),
+        lastError: message,
+        errorCode: code,
+      });
+      strapi.log.warn(`[yt-transcript] Job ${job.documentId} for ${job.videoId} failed: ${message}`);
+    }
+  }
+
+  /**
+   * Claim queued jobs until the concurrency limit is reached
+   */
+  async function tick() {
+    if (claiming) return;
+    claiming = true;
+
+    try {
+      const { jobConcurrency } = getConfig();
+
+      while (active < jobConcurrency) {
+        const next = await findNextJob();
+        if (!next) break;
+
+        const job = await updateJob(next.documentId, {
+          status: 'running',
+          attempts: (next.attempts || 0) + 1,
+          startedAt: new Date().toISOString(),
+        });
+
+        active++;
+        runJob({ ...next, ...job })
+          .catch((error) => {
+            strapi.log.error(
+              `[yt-transcript] Job ${next.documentId} crashed: ${error instanceof Error ? error.message : String(error)}`
+            );
+          })
+          .finally(() => {
+            active--;
+            void tick();
+          });
+      }
+    } catch (error) {
+      strapi.log.error(`[yt-transcript] Job worker error: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      claiming = false;
+    }
+  }
+
+  return {
+    /**
+     * Queue a transcript fetch (or refresh). An unfinished job for the same video and
+     * options is returned instead of queueing a duplicate.
+     */
+    async enqueue(videoId: string, languageOptions: TranscriptLanguageOptions = {}, options: { refresh?: boolean } = {}) {
+      const unfinished = (await strapi.documents(JOB_UID).findMany({
+        filters: { videoId, status: { $in: ['queued', 'running'] } },
+      })) as unknown as FetchJob[];
+
+      const duplicate = unfinished.find(
+        (job) =>
+          sameLanguages(job.languages, languageOptions.languages) &&
+          (job.translateTo || undefined) === languageOptions.translateTo &&
+          Boolean(job.refresh) === Boolean(options.refresh)
+      );
+      if (duplicate) {
+        return toJobResponse(duplicate);
+      }
+
+      const data: Record<string, unknown> = {
+        videoId,
+        languages: languageOptions.languages ?? null,
+        translateTo: languageOptions.translateTo ?? null,
+        refresh: Boolean(options.refresh),
+        status: 'queued',
+        attempts: 0,
+        maxAttempts: getConfig().jobMaxAttempts,
+      };
+      const job = (await strapi.documents(JOB_UID).create({ data })) as unknown as FetchJob;
+
+      strapi.log.info(`[yt-transcript] Queued job ${job.documentId} for ${videoId}`);
+      void tick();
+
+      return toJobResponse(job);
+    },
+
+    async getJob(jobId: string) {
+      const job = await strapi.documents(JOB_UID).findOne({ documentId: jobId });
+      return job ? toJobResponse(job as unknown as FetchJob) : null;
+    },
+
+    /**
+     * Start the worker loop. Jobs left running by a previous process were interrupted
+     * and are queued again.
+     */
+    async start() {
+      const interrupted = (await strapi.documents(JOB_UID).findMany({
+        filters: { status: 'running' },
+      })) as unknown as FetchJob[];
+
+      for (const job of interrupted) {
+        await updateJob(job.documentId, { status: 'queued', runAfter: null });
+      }
+      if (interrupted.length > 0) {
+        strapi.log.info(`[yt-transcript] Re-queued ${interrupted.length} interrupted fetch jobs`);
+      }
+
+      if (!timer) {
+        timer = setInterval(() => void tick(), getConfig().jobPollIntervalMs);
+        timer.unref();
+      }
+      void tick();
+    },
+
+    stop() {
+      if (timer) {
+        clearInterval(timer);
+        timer = undefined;
+      }
+    },
+  };
+};
@@ -0,0 +1,64 @@
+/**
+ * Transcript Providers Service -- Registry of transcript sources
+ *
+ * The YouTube provider is registered by default. Other plugins or app code can
+ * register their own providers (e.g. an in-house caption service or local fixtures):
+ *
+ *   strapi.plugin('yt-transcript-strapi-plugin').service('providers').register(provider);
+ *
+ * The `providers` config option lists which providers are used and in what order.
+ */
+
+import type { Core } from '@strapi/strapi';
+import { createYouTubeProvider, type TranscriptProvider } from '../providers';
+
+interface PluginConfig {
+  providers?: string[];
+}
+
+export default ({ strapi }: { strapi: Core.Strapi }) => {
+  const registry = new Map<string, TranscriptProvider>();
+  registry.set('youtube', createYouTubeProvider(strapi));
+
+  return {
+    register(provider: TranscriptProvider) {
+      if (!provider?.name || typeof provider.fetch !== 'function') {
+        throw new Error('Transcript provider must have a name and a fetch(videoId, options) function');
+      }
+      if (registry.has(provider.name)) {
+        strapi.log.warn(`[yt-transcript] Replacing transcript provider "${provider.name}"`);
+      }
+      registry.set(provider.name, provider);
+    },
+
+    unregister(name: string) {
+      registry.delete(name);
+    },
+
+    get(name: string): TranscriptProvider | undefined {
+      return registry.get(name);
+    },
+
+    list(): string[] {
+      return [...registry.keys()];
+    },
+
+    /**
+     * Providers to try, in the configured order. Configured names that are not
+     * registered are skipped with a warning.
+     */
+    getOrdered(): TranscriptProvider[] {
+      const pluginConfig = strapi.config.get('plugin::yt-transcript-strapi-plugin') as PluginConfig | undefined;
+      const order = pluginConfig?.providers?.length ? pluginConfig.providers : ['youtube'];
+
+      return order.flatMap((name) => {
+        const provider = registry.get(name);
+        if (!provider) {
+          strapi.log.warn(`[yt-transcript] Transcript provider "${name}" is configured but not registered`);
+          return [];
+        }
+        return [provider];
+      });
+    },
+  };
+};
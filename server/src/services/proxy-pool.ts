@@ -0,0 +1,186 @@
+/**
+ * Proxy Pool Service
+ *
+ * Holds the configured proxies, orders them per request using the configured
+ * selection strategy, and tracks their health. A proxy that fails repeatedly
+ * (403/429, sign-in walls, LOGIN_REQUIRED, connection errors) is skipped until
+ * its cooldown expires, then given another chance.
+ */
+
+import type { Core } from '@strapi/strapi';
+
+export type ProxyStrategy = 'round-robin' | 'random' | 'sticky';
+
+interface ProxyPoolConfig {
+  proxyUrl?: string;
+  proxyUrls?: string[];
+  proxyStrategy?: ProxyStrategy;
+  proxyFailureThreshold?: number;
+  proxyCooldownSeconds?: number;
+}
+
+interface ProxyHealth {
+  failures: number;
+  unhealthyUntil: number;
+  lastError?: string;
+}
+
+/**
+ * Hide credentials in proxy URLs before logging them
+ */
+export function maskProxyUrl(proxyUrl: string): string {
+  return proxyUrl.replace(/:([^@:]+)@/, ':****@');
+}
+
+/**
+ * Stable string hash used to pin a video to the same proxy
+ */
+function hashString(value: string): number {
+  let hash = 0;
+  for (let i = 0; i < value.length; i++) {
+    hash = (hash * 31 + value.charCodeAt(i)) | 0;
+  }
+  return Math.abs(hash);
+}
+
+/**
+ * Rotate a list so it starts at the given index
+ */
+function rotate<T>(items: T[], startIndex: number): T[] {
+  const offset = startIndex % items.length;
+  return [...items.slice(offset), ...items.slice(0, offset)];
+}
+
+/**
+ * Fisher-Yates shuffle (returns a new array)
+ */
+function shuffle<T>(items: T[]): T[] {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
+
+export default ({ strapi }: { strapi: Core.Strapi }) => {
+  const health = new Map<string, ProxyHealth>();
+  let cursor = 0;
+
+  /**
+   * Read plugin config - the config function is the Strapi v5 way,
+   * strapi.config.get may nest values under .config
+   */
+  function getConfig(): ProxyPoolConfig {
+    const configFromPlugin = strapi.plugin('yt-transcript-strapi-plugin')?.config;
+    const pluginConfigFromGet = strapi.config.get('plugin::yt-transcript-strapi-plugin') as any;
+
+    const read = <K extends keyof ProxyPoolConfig>(key: K): ProxyPoolConfig[K] => {
+      if (typeof configFromPlugin === 'function') {
+        const value = configFromPlugin(key) as ProxyPoolConfig[K];
+        if (value !== undefined && value !== '') return value;
+      }
+      return pluginConfigFromGet?.[key] ?? pluginConfigFromGet?.config?.[key];
+    };
+
+    return {
+      proxyUrl: read('proxyUrl'),
+      proxyUrls: read('proxyUrls'),
+      proxyStrategy: read('proxyStrategy'),
+      proxyFailureThreshold: read('proxyFailureThreshold'),
+      proxyCooldownSeconds: read('proxyCooldownSeconds'),
+    };
+  }
+
+  /**
+   * All configured proxies: proxyUrls plus the single proxyUrl option, de-duplicated
+   */
+  function getProxyUrls(): string[] {
+    const config = getConfig();
+    const urls = [...(config.proxyUrls || []), ...(config.proxyUrl ? [config.proxyUrl] : [])];
+    return [...new Set(urls.filter(Boolean))];
+  }
+
+  function isHealthy(proxyUrl: string, now = Date.now()): boolean {
+    const entry = health.get(proxyUrl);
+    return !entry || entry.unhealthyUntil <= now;
+  }
+
+  return {
+    getProxyUrls,
+
+    /**
+     * Proxies to try for a request, in order. Healthy proxies come first, ordered by the
+     * selection strategy; unhealthy ones follow (soonest cooldown first) as a last resort.
+     */
+    getCandidates(videoId?: string): string[] {
+      const urls = getProxyUrls();
+      if (urls.length === 0) return [];
+
+      const strategy = getConfig().proxyStrategy || 'round-robin';
+      const now = Date.now();
+      const healthy = urls.filter((url) => isHealthy(url, now));
+      const unhealthy = urls
+        .filter((url) => !isHealthy(url, now))
+        .sort((a, b) => health.get(a)!.unhealthyUntil - health.get(b)!.unhealthyUntil);
+
+      let ordered: string[] = healthy;
+      if (healthy.length > 1) {
+        if (strategy === 'random') {
+          ordered = shuffle(healthy);
+        } else if (strategy === 'sticky' && videoId) {
+          ordered = rotate(healthy, hashString(videoId));
+        } else {
+          ordered = rotate(healthy, cursor++);
+        }
+      }
+
+      return [...ordered, ...unhealthy];
+    },
+
+    reportSuccess(proxyUrl: string) {
+      health.delete(proxyUrl);
+    },
+
+    /**
+     * Record a failed request. After proxyFailureThreshold consecutive failures the proxy
+     * is marked unhealthy for proxyCooldownSeconds.
+     */
+    reportFailure(proxyUrl: string, error: unknown) {
+      const config = getConfig();
+      const threshold = config.proxyFailureThreshold || 3;
+      const cooldownMs = (config.proxyCooldownSeconds ?? 300) * 1000;
+
+      const entry = health.get(proxyUrl) || { failures: 0, unhealthyUntil: 0 };
+      entry.failures++;
+      entry.lastError = error instanceof Error ? error.message : String(error);
+
+      if (entry.failures >= threshold) {
+        entry.unhealthyUntil = Date.now() + cooldownMs;
+        strapi.log.warn(
+          `[yt-transcript] Proxy ${maskProxyUrl(proxyUrl)} marked unhealthy after ${entry.failures} failures, ` +
+            `retrying after ${Math.round(cooldownMs / 1000)}s`
+        );
+      }
+
+      health.set(proxyUrl, entry);
+    },
+
+    /**
+     * Health overview of the pool (credentials masked)
+     */
+    getStatus() {
+      const now = Date.now();
+      return getProxyUrls().map((url) => {
+        const entry = health.get(url);
+        return {
+          proxy: maskProxyUrl(url),
+          healthy: isHealthy(url, now),
+          failures: entry?.failures || 0,
+          retryAt: entry && entry.unhealthyUntil > now ? new Date(entry.unhealthyUntil).toISOString() : null,
+          lastError: entry?.lastError || null,
+        };
+      });
+    },
+  };
+};
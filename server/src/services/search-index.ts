@@ -0,0 +1,367 @@
+/**
+ * Search Index Service
+ *
+ * Keeps a precomputed inverted index of every transcript so searches only read postings
+ * instead of re-tokenizing transcripts. Each transcript has one search-document (segment
+ * boundaries and lengths) and one search-posting per term (the segments containing the term
+ * and its positions in them). The index is rebuilt whenever a transcript's text or language is
+ * written (by the plugin or in the Content Manager) and removed when it is deleted, and at
+ * startup for transcripts whose index is missing or was built with other settings or another
+ * analyzer (see the analyzers service).
+ */
+
+import type { Core } from '@strapi/strapi';
+import type { Analyzer } from '../analyzers';
+import { buildSearchIndex, type IndexedSegment, type Posting, type SearchTimecodeEntry } from '../utils/bm25';
+
+const TRANSCRIPT_UID = 'plugin::yt-transcript-strapi-plugin.transcript';
+const DOCUMENT_UID = 'plugin::yt-transcript-strapi-plugin.search-document';
+const POSTING_UID = 'plugin::yt-transcript-strapi-plugin.search-posting';
+
+// Bump when tokenization or the stored layout changes so existing indexes are rebuilt
+export const SEARCH_INDEX_VERSION = 3;
+
+// Rows written per insert, and transcripts read per query while syncing
+const INSERT_BATCH_SIZE = 500;
+const SYNC_BATCH_SIZE = 100;
+
+interface PluginConfig {
+  searchSegmentSeconds?: number;
+}
+
+interface IndexableTranscript {
+  documentId: string;
+  videoId: string;
+  language?: string | null;
+  transcriptWithTimeCodes?: SearchTimecodeEntry[] | null;
+}
+
+export interface SearchIndexDocument {
+  transcriptDocumentId: string;
+  videoId: string;
+  language: string | null;
+  analyzer: string;
+  indexVersion: number;
+  segmentSeconds: number;
+  segmentCount: number;
+  tokenCount: number;
+  segments?: IndexedSegment[];
+}
+
+export interface CorpusStats {
+  transcripts: number;
+  segments: number;
+  tokens: number;
+}
+
+export interface SearchPosting {
+  term: string;
+  transcriptDocumentId: string;
+  postings: Posting[];
+}
+
+export default ({ strapi }: { strapi: Core.Strapi }) => {
+  let syncing = false;
+
+  function getSegmentSeconds(): number {
+    const pluginConfig = strapi.config.get('plugin::yt-transcript-strapi-plugin') as PluginConfig | undefined;
+    return pluginConfig?.searchSegmentSeconds || 30;
+  }
+
+  function getAnalyzer(language?: string | null): Analyzer {
+    return strapi.plugin('yt-transcript-strapi-plugin').service('analyzers').forLanguage(language);
+  }
+
+  /**
+   * Whether an index was built with the current index version, segment length and the
+   * analyzer for its language
+   */
+  function isCurrent(
+    document: Pick<SearchIndexDocument, 'indexVersion' | 'segmentSeconds' | 'language' | 'analyzer'>
+  ): boolean {
+    return (
+      document.indexVersion === SEARCH_INDEX_VERSION &&
+      document.segmentSeconds === getSegmentSeconds() &&
+      document.analyzer === getAnalyzer(document.language).name
+    );
+  }
+
+  return {
+    isCurrent,
+    getAnalyzer,
+
+    /**
+     * Build (or rebuild) the index of a transcript, replacing any earlier one
+     */
+    async indexTranscript(transcript: IndexableTranscript): Promise<SearchIndexDocument> {
+      const segmentSeconds = getSegmentSeconds();
+      const analyzer = getAnalyzer(transcript.language);
+      const index = buildSearchIndex(transcript.transcriptWithTimeCodes || [], segmentSeconds * 1000, analyzer);
+
+      await this.removeTranscript(transcript.documentId);
+
+      const rows = [...index.postings].map(([term, postings]) => ({
+        term,
+        transcriptDocumentId: transcript.documentId,
+        postings,
+      }));
+      for (let i = 0; i < rows.length; i += INSERT_BATCH_SIZE) {
+        await strapi.db.query(POSTING_UID).createMany({ data: rows.slice(i, i + INSERT_BATCH_SIZE) });
+      }
+
+      // The document is written last, so an index with a document is always complete
+      const document: SearchIndexDocument = {
+        transcriptDocumentId: transcript.documentId,
+        videoId: transcript.videoId,
+        language: transcript.language ?? null,
+        analyzer: analyzer.name,
+        indexVersion: SEARCH_INDEX_VERSION,
+        segmentSeconds,
+        segmentCount: index.segments.length,
+        tokenCount: index.tokenCount,
+        segments: index.segments,
+      };
+      await strapi.db.query(DOCUMENT_UID).create({ data: document });
+
+      return document;
+    },
+
+    /**
+     * Rebuild the index of a stored transcript, or remove it when the transcript no longer exists
+     */
+    async reindexTranscript(documentId: string) {
+      const transcript = (await strapi.documents(TRANSCRIPT_UID).findOne({
+        documentId,
+        fields: ['videoId', 'language', 'transcriptWithTimeCodes'],
+      })) as unknown as IndexableTranscript | null;
+
+      if (!transcript) {
+        await this.removeTranscript(documentId);
+        return null;
+      }
+      return await this.indexTranscript(transcript);
+    },
+
+    /**
+     * Delete the index of a transcript
+     */
+    async removeTranscript(transcriptDocumentId: string) {
+      await strapi.db.query(POSTING_UID).deleteMany({ where: { transcriptDocumentId } });
+      await strapi.db.query(DOCUMENT_UID).deleteMany({ where: { transcriptDocumentId } });
+    },
+
+    /**
+     * Index document of a transcript with its segments, built first when missing or outdated
+     */
+    async getIndex(transcript: IndexableTranscript): Promise<SearchIndexDocument> {
+      const document = (await strapi.db.query(DOCUMENT_UID).findOne({
+        where: { transcriptDocumentId: transcript.documentId },
+      })) as SearchIndexDocument | null;
+
+      if (document && isCurrent(document)) {
+        return document;
+      }
+      return await this.indexTranscript(transcript);
+    },
+
+    /**
+     * Index documents without their segments, keyed by transcript document ID: of the given
+     * transcripts, or of every transcript
+     */
+    async listIndexes(transcriptDocumentIds?: string[]): Promise<Map<string, SearchIndexDocument>> {
+      const select = [
+        'transcriptDocumentId',
+        'videoId',
+        'language',
+        'analyzer',
+        'indexVersion',
+        'segmentSeconds',
+        'segmentCount',
+        'tokenCount',
+      ];
+      const result = new Map<string, SearchIndexDocument>();
+
+      if (!transcriptDocumentIds) {
+        const documents = (await strapi.db.query(DOCUMENT_UID).findMany({ select })) as SearchIndexDocument[];
+        documents.forEach((document) => result.set(document.transcriptDocumentId, document));
+        return result;
+      }
+
+      for (let i = 0; i < transcriptDocumentIds.length; i += SYNC_BATCH_SIZE) {
+        const documents = (await strapi.db.query(DOCUMENT_UID).findMany({
+          select,
+          where: { transcriptDocumentId: { $in: transcriptDocumentIds.slice(i, i + SYNC_BATCH_SIZE) } },
+        })) as SearchIndexDocument[];
+        documents.forEach((document) => result.set(document.transcriptDocumentId, document));
+      }
+
+      return result;
+    },
+
+    /**
+     * Transcript, segment and token counts per analyzer, of the given transcripts or the whole
+     * library. Summed in the database so library searches do not read every index document.
+     */
+    async getCorpusStats(transcriptDocumentIds?: string[]): Promise<Map<string, CorpusStats>> {
+      const meta = strapi.db.metadata.get(DOCUMENT_UID);
+      const column = (attribute: string) =>
+        (meta.attributes[attribute] as { columnName?: string } | undefined)?.columnName ||
+        attribute.replace(/[A-Z]/g, (char) => `_${char.toLowerCase()}`);
+
+      const result = new Map<string, CorpusStats>();
+      const batches = transcriptDocumentIds
+        ? Array.from({ length: Math.ceil(transcriptDocumentIds.length / SYNC_BATCH_SIZE) }, (_, i) =>
+            transcriptDocumentIds.slice(i * SYNC_BATCH_SIZE, (i + 1) * SYNC_BATCH_SIZE)
+          )
+        : [null];
+
+      for (const batch of batches) {
+        const query = strapi.db
+          .connection(meta.tableName)
+          .select(`${column('analyzer')} as analyzer`)
+          .count({ transcripts: '*' })
+          .sum({ segments: column('segmentCount'), tokens: column('tokenCount') })
+          .groupBy(column('analyzer'));
+        if (batch) query.whereIn(column('transcriptDocumentId'), batch);
+
+        const rows = (await query) as Array<{ analyzer: string; transcripts: unknown; segments: unknown; tokens: unknown }>;
+        for (const row of rows) {
+          const stats = result.get(row.analyzer) || { transcripts: 0, segments: 0, tokens: 0 };
+          // Counts and sums come back as strings on some databases
+          stats.transcripts += Number(row.transcripts) || 0;
+          stats.segments += Number(row.segments) || 0;
+          stats.tokens += Number(row.tokens) || 0;
+          result.set(row.analyzer, stats);
+        }
+      }
+
+      return result;
+    },
+
+    /**
+     * Segments of the given transcripts' indexes, keyed by transcript document ID
+     */
+    async getSegments(transcriptDocumentIds: string[]): Promise<Map<string, IndexedSegment[]>> {
+      const result = new Map<string, IndexedSegment[]>();
+
+      for (let i = 0; i < transcriptDocumentIds.length; i += SYNC_BATCH_SIZE) {
+        const documents = (await strapi.db.query(DOCUMENT_UID).findMany({
+          select: ['transcriptDocumentId', 'segments'],
+          where: { transcriptDocumentId: { $in: transcriptDocumentIds.slice(i, i + SYNC_BATCH_SIZE) } },
+        })) as SearchIndexDocument[];
+
+        for (const document of documents) {
+          result.set(document.transcriptDocumentId, document.segments || []);
+        }
+      }
+
+      return result;
+    },
+
+    /**
+     * Postings of the given terms and of every term starting with one of the prefixes,
+     * for the given transcripts or the whole library
+     */
+    async getPostings(
+      terms: string[],
+      prefixes: string[] = [],
+      transcriptDocumentIds?: string | string[]
+    ): Promise<SearchPosting[]> {
+      const termFilters: Record<string, unknown>[] = prefixes.map((prefix) => ({ term: { $startsWith: prefix } }));
+      if (terms.length > 0) {
+        termFilters.push({ term: { $in: terms } });
+      }
+      if (termFilters.length === 0) return [];
+
+      const find = (where: Record<string, unknown>) =>
+        strapi.db.query(POSTING_UID).findMany({
+          select: ['term', 'transcriptDocumentId', 'postings'],
+          where: { $or: termFilters, ...where },
+        }) as Promise<SearchPosting[]>;
+
+      if (transcriptDocumentIds === undefined) {
+        return await find({});
+      }
+      if (typeof transcriptDocumentIds === 'string') {
+        return await find({ transcriptDocumentId: transcriptDocumentIds });
+      }
+
+      const postings: SearchPosting[] = [];
+      for (let i = 0; i < transcriptDocumentIds.length; i += SYNC_BATCH_SIZE) {
+        postings.push(
+          ...(await find({ transcriptDocumentId: { $in: transcriptDocumentIds.slice(i, i + SYNC_BATCH_SIZE) } }))
+        );
+      }
+      return postings;
+    },
+
+    /**
+     * Every term indexed for a transcript, for fuzzy matching
+     */
+    async getVocabulary(transcriptDocumentId: string): Promise<string[]> {
+      const rows = (await strapi.db.query(POSTING_UID).findMany({
+        select: ['term'],
+        where: { transcriptDocumentId },
+      })) as Array<Pick<SearchPosting, 'term'>>;
+
+      return rows.map((row) => row.term);
+    },
+
+    /**
+     * Index every transcript whose index is missing or outdated and drop the indexes of
+     * deleted transcripts. Runs once at a time.
+     */
+    async syncIndex() {
+      if (syncing) return null;
+      syncing = true;
+
+      try {
+        const indexes = await this.listIndexes();
+        const seen = new Set<string>();
+        let indexed = 0;
+
+        for (let start = 0; ; start += SYNC_BATCH_SIZE) {
+          const batch = (await strapi.documents(TRANSCRIPT_UID).findMany({
+            fields: ['videoId'],
+            sort: 'id:asc',
+            start,
+            limit: SYNC_BATCH_SIZE,
+          })) as unknown as Array<{ documentId: string }>;
+
+          for (const { documentId } of batch) {
+            seen.add(documentId);
+            const existing = indexes.get(documentId);
+            if (existing && isCurrent(existing)) continue;
+
+            const transcript = (await strapi.documents(TRANSCRIPT_UID).findOne({
+              documentId,
+              fields: ['videoId', 'language', 'transcriptWithTimeCodes'],
+            })) as unknown as IndexableTranscript | null;
+            if (!transcript) continue;
+
+            await this.indexTranscript(transcript);
+            indexed++;
+          }
+
+          if (batch.length < SYNC_BATCH_SIZE) break;
+        }
+
+        let removed = 0;
+        for (const transcriptDocumentId of indexes.keys()) {
+          if (!seen.has(transcriptDocumentId)) {
+            await this.removeTranscript(transcriptDocumentId);
+            removed++;
+          }
+        }
+
+        if (indexed > 0 || removed > 0) {
+          strapi.log.info(`[yt-transcript] Search index: indexed ${indexed} transcript(s), removed ${removed}`);
+        }
+
+        return { indexed, removed };
+      } finally {
+        syncing = false;
+      }
+    },
+  };
+};
@@ -0,0 +1,283 @@
+/**
+ * Library Search Service
+ *
+ * Ranks search segments across every stored transcript (or a filtered subset) with BM25,
+ * reading only the postings of the query terms from the search index. Queries use the
+ * syntax of utils/search-query (phrases, AND/OR/NOT, prefix*, time: and chapter:). Document frequencies
+ * and the average segment length are computed over all searched segments, so a term that is
+ * rare in the library scores higher than one every video uses. Transcripts are grouped by the
+ * analyzer of their language, and the query is analyzed and scored once per group.
+ */
+
+import type { Core } from '@strapi/strapi';
+import type { IndexedSegment, SearchTimecodeEntry } from '../utils/bm25';
+import { findChapterAt, type Chapter } from '../utils/chapters';
+import { formatTime } from '../utils/time-range';
+import type { Analyzer } from '../analyzers';
+import {
+  SearchQueryError,
+  hasScope,
+  parseSearchQuery,
+  resolveScopeRange,
+  scoreQuery,
+  type ParsedSearchQuery,
+  type TermPositions,
+} from '../utils/search-query';
+import { buildMetadataFilters, type MetadataFilterInput } from '../utils/transcript-filters';
+import type { CorpusStats, SearchIndexDocument, SearchPosting } from './search-index';
+
+const TRANSCRIPT_UID = 'plugin::yt-transcript-strapi-plugin.transcript';
+
+// Transcripts loaded per query while listing the searched transcripts
+const BATCH_SIZE = 100;
+
+export interface LibrarySearchOptions extends MetadataFilterInput {
+  videoIds?: string[];
+  maxResults?: number;
+  maxResultsPerVideo?: number;
+}
+
+interface StoredTranscript {
+  documentId: string;
+  videoId: string;
+  title?: string | null;
+  language?: string | null;
+  transcriptWithTimeCodes?: SearchTimecodeEntry[] | null;
+  chapters?: Chapter[] | null;
+}
+
+interface Candidate {
+  transcriptDocumentId: string;
+  segment: IndexedSegment;
+  score: number;
+  matchedTerms: string[];
+}
+
+export default ({ strapi }: { strapi: Core.Strapi }) => ({
+  /**
+   * Search the library. With filters, matching transcripts without a current index are indexed
+   * first; the whole library relies on the index kept up to date on save and at startup.
+   * Throws SearchQueryError when the query cannot be parsed.
+   */
+  async searchLibrary(query: string, options: LibrarySearchOptions = {}) {
+    const { videoIds, maxResults = 10, maxResultsPerVideo = 3, ...metadataFilters } = options;
+    const searchIndex = strapi.plugin('yt-transcript-strapi-plugin').service('search-index');
+    const analyzers = strapi.plugin('yt-transcript-strapi-plugin').service('analyzers');
+
+    // Checked up front so an invalid query fails before any transcript is read
+    const parsedQuery = parseSearchQuery(query, analyzers.forLanguage(metadataFilters.language));
+
+    const conditions = buildMetadataFilters(metadataFilters);
+    if (videoIds && videoIds.length > 0) {
+      conditions.push({ videoId: { $in: videoIds } });
+    }
+    const filters = conditions.length > 0 ? { $and: conditions } : {};
+
+    // With filters, the matching transcripts are listed (and indexed when their index is missing
+    // or outdated); without, the whole library is searched straight from the index
+    const searched = conditions.length > 0 ? await this.listSearchedTranscripts({ $and: conditions }) : undefined;
+
+    // Corpus statistics per analyzer are summed in the database
+    const stats: Map<string, CorpusStats> = await searchIndex.getCorpusStats(searched);
+    const indexes = new Map<string, SearchIndexDocument>();
+    let transcriptsSearched = 0;
+    let totalSegments = 0;
+    for (const group of stats.values()) {
+      transcriptsSearched += group.transcripts;
+      totalSegments += group.segments;
+    }
+
+    let candidates: Candidate[] = [];
+    let queryError: SearchQueryError | null = null;
+    let scoredGroups = 0;
+    for (const [analyzerName, group] of stats) {
+      const analyzer: Analyzer = analyzers.get(analyzerName) || analyzers.forLanguage(null);
+
+      // A query can be valid in one language and not another (e.g. only stop words in it)
+      let groupQuery: ParsedSearchQuery;
+      try {
+        groupQuery = parseSearchQuery(query, analyzer);
+      } catch (error) {
+        if (!(error instanceof SearchQueryError)) throw error;
+        queryError = error;
+        continue;
+      }
+      scoredGroups++;
+
+      const postings = (await searchIndex.getPostings(groupQuery.terms, groupQuery.prefixes, searched)) as SearchPosting[];
+
+      // Only the index documents of transcripts with postings are read, to learn their analyzer
+      const unknown = [...new Set(postings.map((posting) => posting.transcriptDocumentId))].filter((id) => !indexes.has(id));
+      if (unknown.length > 0) {
+        const found: Map<string, SearchIndexDocument> = await searchIndex.listIndexes(unknown);
+        found.forEach((index, id) => indexes.set(id, index));
+      }
+
+      const groupPostings = postings.filter((posting) => indexes.get(posting.transcriptDocumentId)?.analyzer === analyzerName);
+      candidates.push(...(await this.scoreGroup(groupQuery, groupPostings, group)));
+    }
+    if (queryError && scoredGroups === 0) {
+      throw queryError;
+    }
+
+    // time: and chapter: keep the segments in range; chapter titles are looked up per video
+    if (hasScope(parsedQuery.scope)) {
+      const chaptersByTranscript = parsedQuery.scope.chapter !== undefined
+        ? await this.getChapters([...new Set(candidates.map((candidate) => candidate.transcriptDocumentId))])
+        : new Map<string, Chapter[]>();
+
+      candidates = candidates.filter(({ transcriptDocumentId, segment }) => {
+        const range = resolveScopeRange(parsedQuery.scope, chaptersByTranscript.get(transcriptDocumentId));
+        return range !== null && segment.end > range.startMs && segment.start < range.endMs;
+      });
+    }
+
+    candidates.sort((a, b) => b.score - a.score);
+
+    // Keep the best few segments per transcript so one long recording cannot fill the results
+    const perTranscript = new Map<string, number>();
+    const top: Candidate[] = [];
+    for (const candidate of candidates) {
+      if (top.length >= maxResults) break;
+
+      const count = perTranscript.get(candidate.transcriptDocumentId) || 0;
+      if (count >= maxResultsPerVideo) continue;
+      perTranscript.set(candidate.transcriptDocumentId, count + 1);
+      top.push(candidate);
+    }
+
+    // Only the transcripts in the results are loaded, for the segment text and chapters
+    const transcripts =
+      top.length > 0
+        ? ((await strapi.documents(TRANSCRIPT_UID).findMany({
+            filters: { documentId: { $in: [...perTranscript.keys()] } },
+            fields: ['videoId', 'title', 'language', 'transcriptWithTimeCodes', 'chapters'],
+          })) as unknown as StoredTranscript[])
+        : [];
+    const transcriptsById = new Map(transcripts.map((transcript) => [transcript.documentId, transcript]));
+
+    const results = top.flatMap((candidate) => {
+      const transcript = transcriptsById.get(candidate.transcriptDocumentId);
+      if (!transcript) return [];
+
+      const { segment } = candidate;
+      const entries = (transcript.transcriptWithTimeCodes || []).slice(segment.firstEntry, segment.firstEntry + segment.entryCount);
+      const chapter = findChapterAt(transcript.chapters, segment.start);
+      return [
+        {
+          videoId: transcript.videoId,
+          title: transcript.title ?? null,
+          language: transcript.language ?? null,
+          startTime: Math.floor(segment.start / 1000),
+          endTime: Math.floor(segment.end / 1000),
+          timeRange: `${formatTime(segment.start)} - ${formatTime(segment.end)}`,
+          chapter: chapter ? { index: chapter.index, title: chapter.title } : null,
+          score: Math.round(candidate.score * 100) / 100,
+          text: entries.map((entry) => entry.text).join(' '),
+          matchedTerms: candidate.matchedTerms,
+        },
+      ];
+    });
+
+    return {
+      query,
+      transcriptsSearched,
+      totalSegments,
+      matchingSegments: candidates.length,
+      matchingVideos: new Set(candidates.map((candidate) => indexes.get(candidate.transcriptDocumentId)?.videoId)).size,
+      results,
+    };
+  },
+
+  /**
+   * Transcripts matching the filters, indexed first when their index is missing or outdated
+   */
+  async listSearchedTranscripts(filters: Record<string, unknown>): Promise<string[]> {
+    const searchIndex = strapi.plugin('yt-transcript-strapi-plugin').service('search-index');
+    const searched: string[] = [];
+
+    for (let start = 0; ; start += BATCH_SIZE) {
+      const batch = (await strapi.documents(TRANSCRIPT_UID).findMany({
+        filters,
+        fields: ['videoId'],
+        sort: 'id:asc',
+        start,
+        limit: BATCH_SIZE,
+      })) as unknown as StoredTranscript[];
+
+      const indexes: Map<string, SearchIndexDocument> = await searchIndex.listIndexes(
+        batch.map((transcript) => transcript.documentId)
+      );
+      for (const { documentId } of batch) {
+        const index = indexes.get(documentId);
+        if (!index || !searchIndex.isCurrent(index)) {
+          if (!(await searchIndex.reindexTranscript(documentId))) continue;
+        }
+        searched.push(documentId);
+      }
+
+      if (batch.length < BATCH_SIZE) break;
+    }
+
+    return searched;
+  },
+
+  /**
+   * Score the postings of one analyzer group, with document frequencies and lengths
+   * from that group's transcripts
+   */
+  async scoreGroup(parsedQuery: ParsedSearchQuery, postings: SearchPosting[], stats: CorpusStats): Promise<Candidate[]> {
+    const searchIndex = strapi.plugin('yt-transcript-strapi-plugin').service('search-index');
+    if (postings.length === 0) return [];
+
+    const segmentsByTranscript: Map<string, IndexedSegment[]> = await searchIndex.getSegments([
+      ...new Set(postings.map((posting) => posting.transcriptDocumentId)),
+    ]);
+
+    // Segments are keyed "transcriptDocumentId:segment"
+    const positions: TermPositions = new Map();
+    for (const { term, transcriptDocumentId, postings: list } of postings) {
+      const byKey = positions.get(term) || new Map<string, number[]>();
+      for (const [segment, termPositions] of list) {
+        byKey.set(`${transcriptDocumentId}:${segment}`, termPositions);
+      }
+      positions.set(term, byKey);
+    }
+
+    const segmentAt = (key: string): IndexedSegment | undefined => {
+      const separator = key.lastIndexOf(':');
+      return segmentsByTranscript.get(key.slice(0, separator))?.[Number(key.slice(separator + 1))];
+    };
+
+    return scoreQuery(parsedQuery, positions, {
+      totalSegments: stats.segments,
+      avgLength: stats.segments > 0 ? stats.tokens / stats.segments : 0,
+      lengthOf: (key) => segmentAt(key)?.length || 0,
+    }).flatMap((match) => {
+      const segment = segmentAt(match.key);
+      if (!segment) return [];
+      const transcriptDocumentId = match.key.slice(0, match.key.lastIndexOf(':'));
+      return [{ transcriptDocumentId, segment, score: match.score, matchedTerms: match.matchedTerms }];
+    });
+  },
+
+  /**
+   * Chapters of the given transcripts, keyed by document ID
+   */
+  async getChapters(transcriptDocumentIds: string[]): Promise<Map<string, Chapter[]>> {
+    const result = new Map<string, Chapter[]>();
+
+    for (let i = 0; i < transcriptDocumentIds.length; i += BATCH_SIZE) {
+      const transcripts = (await strapi.documents(TRANSCRIPT_UID).findMany({
+        filters: { documentId: { $in: transcriptDocumentIds.slice(i, i + BATCH_SIZE) } },
+        fields: ['chapters'],
+      })) as unknown as StoredTranscript[];
+
+      for (const transcript of transcripts) {
+        result.set(transcript.documentId, transcript.chapters || []);
+      }
+    }
+
+    return result;
+  },
+});
@@ -1,76 +1,631 @@
 import type { Core } from '@strapi/strapi';
-import fetchTranscript from '../utils/fetch-transcript';
+import { randomBytes } from 'node:crypto';
+import type { PlaylistListOptions, TranscriptProvider } from '../providers';
+import {
+  DEFAULT_CAPTION_LANGUAGES,
+  type CaptionTrackList,
+  type PlaylistVideoInfo,
+  type PlaylistVideoList,
+  type TranscriptData,
+} from '../utils/fetch-transcript';
+import { TranscriptFetchError, isTranscriptFetchError } from '../utils/transcript-fetch-error';
+import { createKeyedLock, mapWithConcurrency } from '../utils/concurrency';
+import { diffTranscripts } from '../utils/transcript-diff';
+import { buildReadableTranscript } from '../utils/readable-transcript';
+import { extractYouTubeID } from '../utils/extract-youtube-id';
+import {
+  CaptionImportConflictError,
+  CaptionParseError,
+  detectCaptionFormat,
+  detectCaptionLanguage,
+  parseCaptionFile,
+  type CaptionFormat,
+} from '../utils/parse-captions';
 
-interface YTTranscriptConfig {
-  proxyUrl?: string;
+export interface TranscriptLanguageOptions {
+  languages?: string[];
+  translateTo?: string;
+}
+
+export interface CaptionImportInput {
+  content: string;
+  format?: CaptionFormat;
+  fileName?: string;
+  videoId?: string;
+  title?: string;
+  language?: string;
+  sourceUrl?: string;
+  overwrite?: boolean;
+}
+
+export interface PlaylistFetchOptions extends TranscriptLanguageOptions {
+  concurrency?: number;
+  maxVideos?: number;
+  async?: boolean;
+}
+
+export interface BulkFetchOptions extends TranscriptLanguageOptions {
+  concurrency?: number;
+  async?: boolean;
+}
+
+export type VideoIngestStatus = 'saved' | 'cached' | 'queued' | 'no_captions' | 'failed';
+
+export interface VideoIngestReport {
+  videoId: string;
+  title: string | null;
+  status: VideoIngestStatus;
+  language?: string | null;
+  jobId?: string;
+  error?: string;
+  code?: string;
+}
+
+// Bulk and playlist fetches of more videos than this are always queued as background jobs;
+// fetching them within one request would outlast HTTP and MCP client timeouts
+export const MAX_SYNC_VIDEOS = 10;
+
+// Largest number of videos of one playlist processed by a playlist fetch
+export const MAX_PLAYLIST_VIDEOS = 500;
+
+interface PluginConfig {
+  playlistConcurrency?: number;
+}
+
+export type RefreshStatus = 'created' | 'updated' | 'unchanged';
+
+type FetchedTranscript = Omit<TranscriptData, 'videoId'> & { source?: string };
+
+/**
+ * Transcript document data for a freshly fetched transcript
+ */
+function buildTranscriptPayload(videoId: string, transcriptData: FetchedTranscript): Record<string, unknown> {
+  return {
+    videoId,
+    title: transcriptData.title || `YouTube Video ${videoId}`,
+    fullTranscript: transcriptData.fullTranscript,
+    transcriptWithTimeCodes: transcriptData.transcriptWithTimeCodes,
+    language: transcriptData.language,
+    translated: transcriptData.translated,
+    sourceLanguage: transcriptData.sourceLanguage,
+    source: transcriptData.source,
+    captionKind: transcriptData.captionKind,
+    ...transcriptData.metadata,
+    readableTranscript:
+      transcriptData.readableTranscript ??
+      buildReadableTranscript(transcriptData.transcriptWithTimeCodes, transcriptData.metadata?.chapters),
+  };
+}
+
+/**
+ * Normalize a language code to BCP 47 casing ("EN" -> "en", "pt_br" -> "pt-BR",
+ * "zh-hans" -> "zh-Hans"), so one language version is never stored under two spellings
+ */
+function normalizeLanguageCode(language: string): string {
+  return language
+    .trim()
+    .split(/[-_]/)
+    .map((part, index) => {
+      if (index > 0 && part.length === 2) return part.toUpperCase();
+      if (index > 0 && part.length === 4) return part[0].toUpperCase() + part.slice(1).toLowerCase();
+      return part.toLowerCase();
+    })
+    .join('-');
+}
+
+/**
+ * Filter matching the stored transcript of a language version, ignoring case. Without a
+ * language it matches transcripts stored without one.
+ */
+function languageVersionFilter(language: unknown) {
+  return typeof language === 'string' && language.trim() !== ''
+    ? { $eqi: normalizeLanguageCode(language) }
+    : { $null: true };
+}
+
+// Saves of the same video run one at a time, so two concurrent fetches (bulk ingestion,
+// jobs, subscriptions, caption upgrades) cannot both create a row for one language version
+const withVideoLock = createKeyedLock();
+
+/**
+ * Count the reports of each ingest status
+ */
+function summarizeReports(reports: VideoIngestReport[]): Record<VideoIngestStatus, number> {
+  const summary: Record<VideoIngestStatus, number> = { saved: 0, cached: 0, queued: 0, no_captions: 0, failed: 0 };
+  for (const report of reports) {
+    summary[report.status]++;
+  }
+  return summary;
+}
+
+/**
+ * Generate an 11-character ID (same alphabet as YouTube IDs) for videos hosted elsewhere
+ */
+function generateVideoId(): string {
+  return randomBytes(8).toString('base64url').slice(0, 11);
 }
 
 const service = ({ strapi }: { strapi: Core.Strapi }) => ({
-  async getTranscript(identifier: string) {
+  async getTranscript(identifier: string, languageOptions: TranscriptLanguageOptions = {}) {
     const youtubeIdRegex = /^[a-zA-Z0-9_-]{11}$/;
     const isValid = youtubeIdRegex.test(identifier);
     if (!isValid) {
-      return { error: 'Invalid video ID', data: null };
+      throw new TranscriptFetchError('INVALID_ID', `Invalid video ID: "${identifier}"`, { videoId: identifier });
     }
 
-    // Get proxy config - try multiple methods to find it
-    const pluginConfigFromGet = strapi.config.get('plugin::yt-transcript-strapi-plugin') as any;
-    const pluginInstance = strapi.plugin('yt-transcript-strapi-plugin');
-    const configFromPlugin = pluginInstance?.config;
+    const providers: TranscriptProvider[] = strapi
+      .plugin('yt-transcript-strapi-plugin')
+      .service('providers')
+      .getOrdered();
 
-    // Debug: log what we're getting
-    strapi.log.info(`[yt-transcript] Config from strapi.config.get: ${JSON.stringify(pluginConfigFromGet)}`);
-    strapi.log.info(`[yt-transcript] Config from plugin.config: ${typeof configFromPlugin === 'function' ? 'function' : JSON.stringify(configFromPlugin)}`);
+    if (providers.length === 0) {
+      throw new Error('No transcript providers available. Check the providers option in the plugin config.');
+    }
 
-    // Try to get proxyUrl from various places
-    let proxyUrl: string | undefined;
+    // Try providers in order; the first provider's error is reported if all of them fail
+    let transcriptData: TranscriptData | undefined;
+    let source: string | undefined;
+    let firstError: unknown;
+    for (const provider of providers) {
+      strapi.log.info(`[yt-transcript] Fetching transcript for ${identifier} (provider: ${provider.name})`);
 
-    // Method 1: Direct from plugin config function (Strapi v5 way)
-    if (typeof configFromPlugin === 'function') {
-      proxyUrl = configFromPlugin('proxyUrl');
-      strapi.log.info(`[yt-transcript] proxyUrl from config function: ${proxyUrl ? 'SET' : 'NOT SET'}`);
+      try {
+        transcriptData = await provider.fetch(identifier, {
+          languages: languageOptions.languages,
+          translateTo: languageOptions.translateTo,
+        });
+        source = provider.name;
+        strapi.log.info(`[yt-transcript] Successfully fetched transcript for ${identifier} (provider: ${provider.name})`);
+        break;
+      } catch (error) {
+        strapi.log.warn(
+          `[yt-transcript] Provider ${provider.name} failed for ${identifier}: ${error instanceof Error ? error.message : String(error)}`
+        );
+        firstError = firstError ?? error;
+      }
     }
 
-    // Method 2: From strapi.config.get (might be nested under .config)
-    if (!proxyUrl && pluginConfigFromGet) {
-      proxyUrl = pluginConfigFromGet.proxyUrl || pluginConfigFromGet.config?.proxyUrl;
+    if (!transcriptData) {
+      throw firstError;
     }
 
-    // Log at service level using strapi logger
-    if (proxyUrl) {
-      const maskedUrl = proxyUrl.replace(/:([^@:]+)@/, ':****@');
-      strapi.log.info(`[yt-transcript] Fetching transcript for ${identifier} via proxy: ${maskedUrl}`);
-    } else {
-      strapi.log.info(`[yt-transcript] Fetching transcript for ${identifier} (NO PROXY - check config)`);
+    return {
+      title: transcriptData.title,
+      fullTranscript: transcriptData.fullTranscript,
+      transcriptWithTimeCodes: transcriptData.transcriptWithTimeCodes,
+      language: transcriptData.language,
+      translated: transcriptData.translated,
+      sourceLanguage: transcriptData.sourceLanguage,
+      captionKind: transcriptData.captionKind,
+      metadata: transcriptData.metadata,
+      readableTranscript: transcriptData.readableTranscript,
+      source,
+    };
+  },
+
+  /**
+   * Return the cached transcript for the requested languages, or fetch it from the
+   * providers and save it. Errors from getTranscript are passed through.
+   */
+  async fetchAndSaveTranscript(videoId: string, languageOptions: TranscriptLanguageOptions = {}) {
+    const existing = await this.findTranscriptForLanguages(videoId, languageOptions);
+    if (existing) {
+      return { transcript: existing, cached: true };
+    }
+
+    const transcriptData = await this.getTranscript(videoId, languageOptions);
+
+    if (!transcriptData || !transcriptData.fullTranscript) {
+      throw new TranscriptFetchError('NO_CAPTIONS', 'No transcript data returned from YouTube', { videoId });
+    }
+
+    const transcript = await this.saveTranscript(buildTranscriptPayload(videoId, transcriptData));
+
+    return { transcript, cached: false };
+  },
+
+  /**
+   * Fetch a transcript again even when it is cached. When the text or caption kind changed,
+   * the stored version is kept in the transcript history and the transcript is replaced;
+   * otherwise only the video metadata (views, title, ...) is updated.
+   */
+  async refreshTranscript(videoId: string, languageOptions: TranscriptLanguageOptions = {}) {
+    const transcriptData: FetchedTranscript = await this.getTranscript(videoId, languageOptions);
+
+    if (!transcriptData || !transcriptData.fullTranscript) {
+      throw new TranscriptFetchError('NO_CAPTIONS', 'No transcript data returned from YouTube', { videoId });
+    }
+
+    const payload = buildTranscriptPayload(videoId, transcriptData);
+    const existing = await strapi.documents('plugin::yt-transcript-strapi-plugin.transcript').findFirst({
+      filters: { videoId, language: languageVersionFilter(transcriptData.language) },
+    });
+
+    if (!existing) {
+      const transcript = await this.saveTranscript(payload);
+      return { status: 'created' as RefreshStatus, transcript, version: 1, previousVersion: null, diff: null };
     }
 
-    const transcriptData = await fetchTranscript(identifier, {
-      proxyUrl,
+    const previousVersion: number = existing.version || 1;
+    const diff = diffTranscripts(existing.transcriptWithTimeCodes || [], transcriptData.transcriptWithTimeCodes);
+    const captionKindChanged = Boolean(existing.captionKind) && existing.captionKind !== transcriptData.captionKind;
+
+    if (diff.identical && !captionKindChanged) {
+      const transcript = await this.saveTranscript(payload);
+      return { status: 'unchanged' as RefreshStatus, transcript, version: previousVersion, previousVersion: null, diff };
+    }
+
+    await strapi
+      .plugin('yt-transcript-strapi-plugin')
+      .service('history')
+      .snapshot(existing, { ...diff.summary, captionKindChanged });
+
+    const transcript = await this.saveTranscript({ ...payload, version: previousVersion + 1 });
+
+    strapi.log.info(
+      `[yt-transcript] Refreshed ${videoId} (${transcriptData.language}) to version ${previousVersion + 1}: ` +
+        `${diff.summary.changed} changed, ${diff.summary.added} added, ${diff.summary.removed} removed`
+    );
+
+    return { status: 'updated' as RefreshStatus, transcript, version: previousVersion + 1, previousVersion, diff };
+  },
+
+  /**
+   * List the videos of a playlist using the first configured provider that supports it
+   */
+  async getPlaylistVideos(playlistId: string, options: PlaylistListOptions = {}): Promise<PlaylistVideoList> {
+    const providers: TranscriptProvider[] = strapi
+      .plugin('yt-transcript-strapi-plugin')
+      .service('providers')
+      .getOrdered();
+    const provider = providers.find((p) => typeof p.listPlaylistVideos === 'function');
+
+    if (!provider) {
+      throw new Error('None of the configured transcript providers can list playlist videos.');
+    }
+
+    strapi.log.info(`[yt-transcript] Listing videos of playlist ${playlistId} (provider: ${provider.name})`);
+
+    return await provider.listPlaylistVideos!(playlistId, options);
+  },
+
+  /**
+   * Fetch and save the transcripts of a list of videos, a few at a time. Stored videos are
+   * reported as cached; a failing video never stops the others.
+   */
+  async ingestVideos(
+    videos: Pick<PlaylistVideoInfo, 'videoId' | 'title'>[],
+    languageOptions: TranscriptLanguageOptions,
+    concurrency: number
+  ) {
+    const reports = await mapWithConcurrency(videos, concurrency, async (video): Promise<VideoIngestReport> => {
+      try {
+        const { transcript, cached } = await this.fetchAndSaveTranscript(video.videoId, languageOptions);
+        return {
+          videoId: video.videoId,
+          title: transcript.title || video.title || null,
+          status: cached ? 'cached' : 'saved',
+          language: transcript.language ?? null,
+        };
+      } catch (error) {
+        const code = isTranscriptFetchError(error) ? error.code : undefined;
+        return {
+          videoId: video.videoId,
+          title: video.title || null,
+          status: code === 'NO_CAPTIONS' ? 'no_captions' : 'failed',
+          error: error instanceof Error ? error.message : String(error),
+          ...(code && { code }),
+        };
+      }
     });
 
-    strapi.log.info(`[yt-transcript] Successfully fetched transcript for ${identifier}`);
+    return { reports, summary: summarizeReports(reports) };
+  },
+
+  /**
+   * Queue a background fetch job for each video that is not stored yet, instead of fetching
+   * it while the caller waits. Stored videos are reported as cached, the others as queued
+   * with the job to poll.
+   */
+  async queueVideos(videos: Pick<PlaylistVideoInfo, 'videoId' | 'title'>[], languageOptions: TranscriptLanguageOptions) {
+    const jobs = strapi.plugin('yt-transcript-strapi-plugin').service('jobs');
+    const reports: VideoIngestReport[] = [];
+
+    for (const video of videos) {
+      const existing = await this.findTranscriptForLanguages(video.videoId, languageOptions);
+      if (existing) {
+        reports.push({
+          videoId: video.videoId,
+          title: existing.title || video.title || null,
+          status: 'cached',
+          language: existing.language ?? null,
+        });
+        continue;
+      }
+
+      const job = await jobs.enqueue(video.videoId, languageOptions);
+      reports.push({ videoId: video.videoId, title: video.title || null, status: 'queued', jobId: job.jobId });
+    }
+
+    return { reports, summary: summarizeReports(reports) };
+  },
+
+  /**
+   * Fetch and save transcripts for a list of video IDs and URLs (watch and Shorts links).
+   * Inputs are normalized to video IDs and de-duplicated; unrecognised inputs are
+   * reported as invalid instead of failing the whole request. With async, or more than
+   * MAX_SYNC_VIDEOS videos, the fetches are queued as background jobs.
+   */
+  async fetchTranscriptsBulk(inputs: string[], options: BulkFetchOptions = {}) {
+    const pluginConfig = strapi.config.get('plugin::yt-transcript-strapi-plugin') as PluginConfig | undefined;
+    const concurrency = options.concurrency || pluginConfig?.playlistConcurrency || 3;
+    const languageOptions = { languages: options.languages, translateTo: options.translateTo };
+
+    const videoIds: string[] = [];
+    const invalid: string[] = [];
+    let duplicates = 0;
+    for (const input of inputs) {
+      const videoId = extractYouTubeID(input.trim());
+      if (!videoId) {
+        invalid.push(input);
+      } else if (videoIds.includes(videoId)) {
+        duplicates++;
+      } else {
+        videoIds.push(videoId);
+      }
+    }
+
+    const runAsync = Boolean(options.async) || videoIds.length > MAX_SYNC_VIDEOS;
+    const videos = videoIds.map((videoId) => ({ videoId }));
+
+    strapi.log.info(
+      `[yt-transcript] Bulk fetch of ${videoIds.length} videos (${invalid.length} invalid, ${duplicates} duplicates, ` +
+        (runAsync ? 'queued as jobs)' : `concurrency: ${concurrency})`)
+    );
+
+    const { reports, summary } = runAsync
+      ? await this.queueVideos(videos, languageOptions)
+      : await this.ingestVideos(videos, languageOptions, concurrency);
 
     return {
-      title: transcriptData.title,
-      fullTranscript: transcriptData.fullTranscript,
-      transcriptWithTimeCodes: transcriptData.transcriptWithTimeCodes,
+      requested: inputs.length,
+      unique: videoIds.length,
+      duplicates,
+      async: runAsync,
+      summary: { ...summary, invalid: invalid.length },
+      videos: reports,
+      invalid,
+    };
+  },
+
+  /**
+   * Fetch and save the transcript of every video in a playlist (up to MAX_PLAYLIST_VIDEOS),
+   * a few videos at a time. Videos that are already stored are skipped. A failing video never
+   * stops the others; each one is reported with its status and error. With async, or more
+   * than MAX_SYNC_VIDEOS videos, the fetches are queued as background jobs.
+   */
+  async fetchPlaylist(playlistId: string, options: PlaylistFetchOptions = {}) {
+    const pluginConfig = strapi.config.get('plugin::yt-transcript-strapi-plugin') as PluginConfig | undefined;
+    const concurrency = options.concurrency || pluginConfig?.playlistConcurrency || 3;
+    const languageOptions = { languages: options.languages, translateTo: options.translateTo };
+    const maxVideos = Math.min(options.maxVideos || MAX_PLAYLIST_VIDEOS, MAX_PLAYLIST_VIDEOS);
+
+    const playlist = await this.getPlaylistVideos(playlistId, { maxVideos });
+    const videos = playlist.videos.slice(0, maxVideos);
+    const runAsync = Boolean(options.async) || videos.length > MAX_SYNC_VIDEOS;
+
+    if (runAsync) {
+      strapi.log.info(`[yt-transcript] Queueing ${videos.length} transcript fetches from playlist ${playlistId}`);
+    } else {
+      strapi.log.info(
+        `[yt-transcript] Fetching ${videos.length} transcripts from playlist ${playlistId} (concurrency: ${concurrency})`
+      );
+    }
+
+    const { reports, summary } = runAsync
+      ? await this.queueVideos(videos, languageOptions)
+      : await this.ingestVideos(videos, languageOptions, concurrency);
+
+    strapi.log.info(
+      `[yt-transcript] Playlist ${playlistId} done: ${summary.saved} saved, ${summary.cached} cached, ` +
+        `${summary.queued} queued, ${summary.no_captions} without captions, ${summary.failed} failed`
+    );
+
+    return {
+      playlistId,
+      title: playlist.title ?? null,
+      totalVideos: playlist.videos.length,
+      processed: reports.length,
+      async: runAsync,
+      summary,
+      videos: reports,
     };
   },
 
+  /**
+   * Import an SRT, WebVTT or SBV caption file as a transcript.
+   * Without a YouTube video ID (e.g. videos hosted elsewhere) an ID is generated.
+   * Replacing a stored transcript of the same video and language requires overwrite; the
+   * replaced version is kept in the transcript history, as with a refresh.
+   */
+  async importCaptions(input: CaptionImportInput) {
+    const format = input.format || detectCaptionFormat(input.content, input.fileName);
+    if (!format) {
+      throw new CaptionParseError('Could not detect the caption format. Specify format: srt, vtt or sbv.');
+    }
+
+    const segments = parseCaptionFile(input.content, format);
+    if (segments.length === 0) {
+      throw new CaptionParseError(`No caption cues found in the ${format} content.`);
+    }
+
+    let videoId = generateVideoId();
+    if (input.videoId) {
+      const youtubeId = extractYouTubeID(input.videoId);
+      if (!youtubeId) {
+        throw new TranscriptFetchError('INVALID_ID', `Invalid YouTube video ID or URL: "${input.videoId}"`);
+      }
+      videoId = youtubeId;
+    }
+
+    const language = input.language || detectCaptionLanguage(input.content) || 'und';
+
+    const existing = await strapi.documents('plugin::yt-transcript-strapi-plugin.transcript').findFirst({
+      filters: { videoId, language: languageVersionFilter(language) },
+    });
+    if (existing && !input.overwrite) {
+      throw new CaptionImportConflictError(
+        `A "${language}" transcript for ${videoId} is already stored (source: ${existing.source || 'youtube'}). ` +
+          'Import with overwrite: true to replace it; the current version is kept in its history.'
+      );
+    }
+
+    strapi.log.info(`[yt-transcript] Importing ${segments.length} ${format} cues for ${videoId} (${language})`);
+
+    let version = 1;
+    if (existing) {
+      const diff = diffTranscripts(existing.transcriptWithTimeCodes || [], segments);
+      await strapi
+        .plugin('yt-transcript-strapi-plugin')
+        .service('history')
+        .snapshot(existing, { ...diff.summary, captionKindChanged: Boolean(existing.captionKind) });
+      version = (existing.version || 1) + 1;
+    }
+
+    // Caption fields are cleared so an upload is never taken for a YouTube track (and
+    // replaced by the caption upgrade check); video metadata of a YouTube ID is kept
+    return await this.saveTranscript({
+      videoId,
+      title: input.title || `Imported captions ${videoId}`,
+      fullTranscript: segments.map((s) => s.text).join(' '),
+      transcriptWithTimeCodes: segments,
+      readableTranscript: buildReadableTranscript(segments),
+      language,
+      translated: false,
+      sourceLanguage: language,
+      source: 'upload',
+      sourceUrl: input.sourceUrl,
+      captionKind: null,
+      lastCaptionCheckAt: null,
+      captionUpgradedAt: null,
+      version,
+    });
+  },
+
+  /**
+   * List the caption tracks for a video without fetching a transcript,
+   * using the first configured provider that supports it
+   */
+  async getCaptionTracks(identifier: string): Promise<CaptionTrackList> {
+    const providers: TranscriptProvider[] = strapi
+      .plugin('yt-transcript-strapi-plugin')
+      .service('providers')
+      .getOrdered();
+    const provider = providers.find((p) => typeof p.listCaptionTracks === 'function');
+
+    if (!provider) {
+      throw new Error('None of the configured transcript providers can list caption tracks.');
+    }
+
+    strapi.log.info(`[yt-transcript] Listing caption tracks for ${identifier} (provider: ${provider.name})`);
+
+    return await provider.listCaptionTracks!(identifier);
+  },
+
+  /**
+   * Save a transcript. Transcripts are keyed by videoId + language (normalized, and matched
+   * ignoring case), so an existing row for the same language version is updated instead of
+   * duplicated. Saves of the same video are serialized.
+   * The transcript's search index is rebuilt by the document middleware (see register).
+   */
   async saveTranscript(payload: Record<string, unknown>) {
-    return await strapi.documents('plugin::yt-transcript-strapi-plugin.transcript').create({
-      data: payload,
+    const videoId = payload.videoId as string;
+    const language =
+      typeof payload.language === 'string' && payload.language.trim() !== ''
+        ? normalizeLanguageCode(payload.language)
+        : null;
+    const data: Record<string, unknown> = { ...payload, language };
+
+    return await withVideoLock(videoId, async () => {
+      const existing = await strapi.documents('plugin::yt-transcript-strapi-plugin.transcript').findFirst({
+        filters: { videoId, language: languageVersionFilter(language) },
+      });
+
+      return existing
+        ? await strapi.documents('plugin::yt-transcript-strapi-plugin.transcript').update({
+            documentId: existing.documentId,
+            data,
+          })
+        : await strapi.documents('plugin::yt-transcript-strapi-plugin.transcript').create({
+            data,
+          });
     });
   },
 
-  async findTranscript(videoId: string) {
+  /**
+   * Find a stored transcript. Without a language, any language version is returned.
+   * A language like "es" also matches regional variants such as "es-419".
+   */
+  async findTranscript(videoId: string, language?: string) {
+    const filters: Record<string, unknown> = { videoId };
+
+    if (language) {
+      filters.$or = [
+        { language: { $eqi: language } },
+        { language: { $startsWithi: `${language}-` } },
+      ];
+    }
+
     const transcriptData = await strapi.documents('plugin::yt-transcript-strapi-plugin.transcript').findFirst({
-      filters: { videoId },
+      filters,
     });
 
     if (!transcriptData) return null;
     return transcriptData;
   },
+
+  /**
+   * Find a cached transcript matching the requested languages or translation target.
+   * Languages are checked in priority order. Without a preference, English is preferred and
+   * then any language version matches, like the caption track chosen on a fresh fetch.
+   */
+  async findTranscriptForLanguages(videoId: string, languageOptions: TranscriptLanguageOptions = {}) {
+    const requested = languageOptions.translateTo
+      ? [languageOptions.translateTo]
+      : languageOptions.languages?.filter(Boolean) ?? [];
+    const candidates = requested.length > 0 ? requested : DEFAULT_CAPTION_LANGUAGES;
+
+    for (const language of candidates) {
+      const found = await this.findTranscript(videoId, language);
+      if (found) return found;
+    }
+
+    return requested.length > 0 ? null : this.findTranscript(videoId);
+  },
+
+  /**
+   * List the stored language versions for each of the given videos
+   */
+  async getLanguagesByVideo(videoIds: string[]): Promise<Record<string, string[]>> {
+    const languagesByVideo: Record<string, string[]> = {};
+    if (videoIds.length === 0) return languagesByVideo;
+
+    const rows = await strapi.documents('plugin::yt-transcript-strapi-plugin.transcript').findMany({
+      filters: { videoId: { $in: videoIds } },
+      fields: ['videoId', 'language'],
+    });
+
+    for (const row of rows) {
+      const languages = languagesByVideo[row.videoId] || [];
+      const language = row.language || 'unknown';
+      if (!languages.includes(language)) {
+        languages.push(language);
+      }
+      languagesByVideo[row.videoId] = languages;
+    }
+
+    return languagesByVideo;
+  },
 });
 
 export default service;
@@ -0,0 +1,193 @@
+/**
+ * Channel Subscriptions Service
+ *
+ * Polls the recent uploads of subscribed channels and fetches transcripts for new videos.
+ * Run on a schedule by the cron task registered in bootstrap; each subscription is checked
+ * when its checkIntervalMinutes have passed since lastCheckedAt.
+ */
+
+import type { Core } from '@strapi/strapi';
+import { extractChannelID } from '../utils/extract-youtube-id';
+import type { PlaylistVideoList } from '../utils/fetch-transcript';
+import type { VideoIngestReport, VideoIngestStatus } from './service';
+
+const SUBSCRIPTION_UID = 'plugin::yt-transcript-strapi-plugin.channel-subscription';
+
+// Enough history to recognise every video in a channel's recent uploads page
+const MAX_PROCESSED_VIDEO_IDS = 500;
+
+interface PluginConfig {
+  playlistConcurrency?: number;
+}
+
+interface ChannelSubscription {
+  documentId: string;
+  channelId: string;
+  channelName?: string | null;
+  enabled?: boolean;
+  titlePattern?: string | null;
+  minDurationSeconds?: number | null;
+  language?: string | null;
+  checkIntervalMinutes?: number | null;
+  maxVideosPerCheck?: number | null;
+  backfill?: boolean | null;
+  processedVideoIds?: string[] | null;
+  lastCheckedAt?: string | null;
+}
+
+/**
+ * Every channel has an uploads playlist: its channel ID with "UC" replaced by "UU"
+ */
+function getUploadsPlaylistId(channelId: string): string {
+  return `UU${channelId.slice(2)}`;
+}
+
+function isDue(subscription: ChannelSubscription, now: number): boolean {
+  if (!subscription.lastCheckedAt) return true;
+  const intervalMs = (subscription.checkIntervalMinutes || 60) * 60 * 1000;
+  return new Date(subscription.lastCheckedAt).getTime() + intervalMs <= now;
+}
+
+export default ({ strapi }: { strapi: Core.Strapi }) => {
+  let running = false;
+
+  /**
+   * Record the outcome of a check on the subscription
+   */
+  async function recordCheck(subscription: ChannelSubscription, result: Record<string, unknown>) {
+    const data: Record<string, unknown> = { lastCheckedAt: new Date().toISOString(), ...result };
+    await strapi.documents(SUBSCRIPTION_UID).update({
+      documentId: subscription.documentId,
+      data,
+    });
+  }
+
+  return {
+    /**
+     * Check one subscription: list its recent uploads, skip videos seen before or rejected by
+     * the filters, and fetch the rest. Failed videos are not marked as processed, so the next
+     * check retries them. The first successful check only records the existing uploads as
+     * processed, unless backfill is set.
+     */
+    async checkSubscription(subscription: ChannelSubscription) {
+      const channelId = extractChannelID(subscription.channelId || '');
+      if (!channelId) {
+        const error = `Invalid channel ID "${subscription.channelId}". Use the channel's UC... ID or a /channel/ URL.`;
+        await recordCheck(subscription, { lastError: error });
+        return { channelId: subscription.channelId, error };
+      }
+
+      let titleRegex: RegExp | undefined;
+      if (subscription.titlePattern) {
+        try {
+          titleRegex = new RegExp(subscription.titlePattern, 'i');
+        } catch (error) {
+          const message = `Invalid titlePattern: ${error instanceof Error ? error.message : String(error)}`;
+          await recordCheck(subscription, { lastError: message });
+          return { channelId, error: message };
+        }
+      }
+
+      const service = strapi.plugin('yt-transcript-strapi-plugin').service('service');
+      const pluginConfig = strapi.config.get('plugin::yt-transcript-strapi-plugin') as PluginConfig | undefined;
+
+      try {
+        const uploads: PlaylistVideoList = await service.getPlaylistVideos(getUploadsPlaylistId(channelId), {
+          maxVideos: subscription.maxVideosPerCheck || 15,
+        });
+
+        // processedVideoIds stays null until the first check that listed the uploads
+        if (!subscription.processedVideoIds && !subscription.backfill) {
+          const existing = uploads.videos.map((video) => video.videoId);
+          strapi.log.info(
+            `[yt-transcript] Channel ${channelId}: first check, ${existing.length} existing uploads marked as processed`
+          );
+          await recordCheck(subscription, {
+            processedVideoIds: existing.slice(0, MAX_PROCESSED_VIDEO_IDS),
+            lastError: null,
+            lastResult: { newVideos: 0, existingVideos: existing.length },
+          });
+          return { channelId, newVideos: 0, existingVideos: existing.length };
+        }
+
+        const processed = new Set(subscription.processedVideoIds || []);
+        const newVideos = uploads.videos.filter((video) => !processed.has(video.videoId));
+        const skipped: string[] = [];
+        const candidates = newVideos.filter((video) => {
+          const matchesTitle = !titleRegex || (video.title !== undefined && titleRegex.test(video.title));
+          const longEnough =
+            !subscription.minDurationSeconds ||
+            video.durationSeconds === undefined ||
+            video.durationSeconds >= subscription.minDurationSeconds;
+
+          if (!matchesTitle || !longEnough) {
+            skipped.push(video.videoId);
+            return false;
+          }
+          return true;
+        });
+
+        const languageOptions = { languages: subscription.language ? [subscription.language] : undefined };
+        const { reports, summary }: { reports: VideoIngestReport[]; summary: Record<VideoIngestStatus, number> } =
+          await service.ingestVideos(candidates, languageOptions, pluginConfig?.playlistConcurrency || 3);
+
+        const done = [
+          ...skipped,
+          ...reports.filter((report) => report.status !== 'failed').map((report) => report.videoId),
+        ];
+        const failures = reports.filter((report) => report.status === 'failed');
+
+        strapi.log.info(
+          `[yt-transcript] Channel ${channelId}: ${newVideos.length} new uploads, ${skipped.length} filtered out, ` +
+            `${summary.saved} saved, ${summary.no_captions} without captions, ${summary.failed} failed`
+        );
+
+        await recordCheck(subscription, {
+          processedVideoIds: [...done, ...(subscription.processedVideoIds || [])].slice(0, MAX_PROCESSED_VIDEO_IDS),
+          lastError: failures.length > 0
+            ? failures.map((report) => `${report.videoId}: ${report.error}`).join('\n')
+            : null,
+          lastResult: { newVideos: newVideos.length, filteredOut: skipped.length, summary, videos: reports },
+        });
+
+        return { channelId, newVideos: newVideos.length, filteredOut: skipped.length, summary, videos: reports };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        strapi.log.warn(`[yt-transcript] Channel ${channelId} check failed: ${message}`);
+        await recordCheck(subscription, { lastError: message });
+        return { channelId, error: message };
+      }
+    },
+
+    /**
+     * Check every enabled subscription that is due. Runs are never overlapped:
+     * a call while a previous run is still going returns immediately.
+     */
+    async checkDueSubscriptions() {
+      if (running) {
+        strapi.log.info('[yt-transcript] Channel subscription check already running, skipping');
+        return [];
+      }
+
+      running = true;
+      try {
+        const subscriptions = (await strapi.documents(SUBSCRIPTION_UID).findMany({
+          filters: { enabled: true },
+        })) as unknown as ChannelSubscription[];
+
+        const now = Date.now();
+        const due = subscriptions.filter((subscription) => isDue(subscription, now));
+        const results = [];
+
+        // Channels are checked one after another; videos within a channel use playlistConcurrency
+        for (const subscription of due) {
+          results.push(await this.checkSubscription(subscription));
+        }
+
+        return results;
+      } finally {
+        running = false;
+      }
+    },
+  };
+};
@@ -0,0 +1,51 @@
+import type { Core } from '@strapi/strapi';
+import { ExportTranscriptSchema } from '../mcp/schemas';
+import { extractYouTubeID } from '../utils/extract-youtube-id';
+import { TranscriptFetchError } from '../utils/transcript-fetch-error';
+import { exportTranscript } from '../utils/export-transcript';
+import type { ToolDefinition } from './index';
+
+async function execute(args: unknown, strapi: Core.Strapi): Promise<unknown> {
+  const validatedArgs = ExportTranscriptSchema.parse(args);
+  const { videoId: videoIdOrUrl, format, language, startTime, endTime, maxLineLength } = validatedArgs;
+
+  const videoId = extractYouTubeID(videoIdOrUrl);
+  if (!videoId) {
+    throw new TranscriptFetchError(
+      'INVALID_ID',
+      `Invalid YouTube video ID or URL: "${videoIdOrUrl}". Please provide a valid 11-character video ID or YouTube URL.`
+    );
+  }
+
+  const service = strapi.plugin('yt-transcript-strapi-plugin').service('service');
+  const transcript = await service.findTranscript(videoId, language);
+
+  if (!transcript) {
+    return {
+      error: true,
+      message: `No transcript found for video ID: ${videoId}. Use fetchTranscript to fetch it from YouTube first.`,
+      videoId,
+    };
+  }
+
+  const result = exportTranscript(transcript, { format, startTime, endTime, maxLineLength });
+
+  return {
+    videoId: transcript.videoId,
+    title: transcript.title,
+    language: transcript.language ?? null,
+    format: result.format,
+    fileName: result.fileName,
+    segmentCount: result.segmentCount,
+    content: result.content,
+  };
+}
+
+export const exportTranscriptTool: ToolDefinition = {
+  name: 'exportTranscript',
+  description:
+    'Export a saved transcript as SRT, WebVTT, timestamped plain text, Markdown with [mm:ss] headings, or normalized JSON. Supports a time range (startTime/endTime in seconds) and merging captions up to maxLineLength characters.',
+  schema: ExportTranscriptSchema,
+  execute,
+  publicSafe: true,
+};
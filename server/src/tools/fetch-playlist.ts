@@ -0,0 +1,43 @@
+import type { Core } from '@strapi/strapi';
+import { FetchPlaylistSchema } from '../mcp/schemas';
+import { extractPlaylistID } from '../utils/extract-youtube-id';
+import { TranscriptFetchError } from '../utils/transcript-fetch-error';
+import type { ToolDefinition } from './index';
+
+async function execute(args: unknown, strapi: Core.Strapi): Promise<unknown> {
+  const validatedArgs = FetchPlaylistSchema.parse(args);
+  const { playlistId: playlistIdOrUrl, languages, translateTo, concurrency, maxVideos, async: runAsync } = validatedArgs;
+
+  const playlistId = extractPlaylistID(playlistIdOrUrl);
+  if (!playlistId) {
+    throw new TranscriptFetchError(
+      'INVALID_ID',
+      `Invalid YouTube playlist ID or URL: "${playlistIdOrUrl}". Please provide a playlist ID or a URL with a list= parameter.`
+    );
+  }
+
+  const service = strapi.plugin('yt-transcript-strapi-plugin').service('service');
+  const result = await service.fetchPlaylist(playlistId, {
+    languages,
+    translateTo,
+    concurrency,
+    maxVideos,
+    async: runAsync,
+  });
+
+  return {
+    ...result,
+    usage: result.async
+      ? 'The videos with status "queued" are fetched in the background. Use getFetchJob with their jobId to check progress, then getTranscript or searchTranscript with the videoId to read a saved transcript.'
+      : 'Use getTranscript or searchTranscript with a videoId from this report to read a saved transcript. Videos with status "failed" can be retried by calling fetchPlaylist again; saved videos are skipped.',
+  };
+}
+
+export const fetchPlaylistTool: ToolDefinition = {
+  name: 'fetchPlaylist',
+  description:
+    'Fetch and save the transcripts of the videos in a YouTube playlist (ID or URL, up to 500 videos), several videos at a time. Videos already in the database are skipped. More than 10 videos (or async: true) are queued as background jobs to poll with getFetchJob. Returns a per-video report with status saved, cached, queued, no_captions or failed (with the error) instead of transcript content.',
+  schema: FetchPlaylistSchema,
+  execute,
+  publicSafe: false,
+};
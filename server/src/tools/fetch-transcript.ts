@@ -1,12 +1,24 @@
 import type { Core } from '@strapi/strapi';
 import { FetchTranscriptSchema } from '../mcp/schemas';
 import { extractYouTubeID } from '../utils/extract-youtube-id';
+import { TranscriptFetchError } from '../utils/transcript-fetch-error';
+import { formatTime } from '../utils/time-range';
+import type { RefreshStatus } from '../services/service';
 import type { ToolDefinition } from './index';
 
 interface PluginConfig {
   previewLength?: number;
 }
 
+const REFRESH_MESSAGES: Record<RefreshStatus, string> = {
+  created: 'Transcript fetched and saved successfully',
+  updated: 'Transcript changed on YouTube; the previous version was kept in the history',
+  unchanged: 'Transcript is unchanged; video metadata was updated',
+};
+
+// Changes listed in a refresh response; use getTranscriptHistory for the full diff
+const MAX_REFRESH_CHANGES = 20;
+
 interface TimecodeEntry {
   start: number;
   end: number;
@@ -22,21 +34,6 @@ function getVideoDurationMs(timecodes: TimecodeEntry[]): number {
   return lastEntry.end || lastEntry.start + (lastEntry.duration || 0);
 }
 
-/**
- * Format milliseconds as MM:SS or HH:MM:SS
- */
-function formatTime(ms: number): string {
-  const totalSeconds = Math.floor(ms / 1000);
-  const hours = Math.floor(totalSeconds / 3600);
-  const minutes = Math.floor((totalSeconds % 3600) / 60);
-  const seconds = totalSeconds % 60;
-
-  if (hours > 0) {
-    return `${hours}:${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
-  }
-  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
-}
-
 /**
  * Build metadata response for a transcript
  */
@@ -59,6 +56,18 @@ function buildMetadataResponse(
     cached,
     videoId: transcript.videoId,
     title: transcript.title,
+    language: transcript.language ?? null,
+    translated: Boolean(transcript.translated),
+    sourceLanguage: transcript.sourceLanguage ?? null,
+    captionKind: transcript.captionKind ?? null,
+    video: {
+      channelId: transcript.channelId ?? null,
+      channelName: transcript.channelName ?? null,
+      videoPublishedAt: transcript.videoPublishedAt ?? null,
+      viewCount: transcript.viewCount ?? null,
+      isLive: Boolean(transcript.isLive),
+      isShort: Boolean(transcript.isShort),
+    },
     metadata: {
       wordCount,
       characterCount: fullText.length,
@@ -72,47 +81,73 @@ function buildMetadataResponse(
 
 async function execute(args: unknown, strapi: Core.Strapi): Promise<unknown> {
   const validatedArgs = FetchTranscriptSchema.parse(args);
-  const { videoId: videoIdOrUrl } = validatedArgs;
+  const { videoId: videoIdOrUrl, languages, translateTo, async: runAsync, refresh } = validatedArgs;
 
   const pluginConfig = await strapi.config.get('plugin::yt-transcript-strapi-plugin') as PluginConfig | undefined;
   const previewLength = pluginConfig?.previewLength || 500;
 
   const videoId = extractYouTubeID(videoIdOrUrl);
   if (!videoId) {
-    throw new Error(`Invalid YouTube video ID or URL: "${videoIdOrUrl}". Please provide a valid 11-character video ID or YouTube URL.`);
+    throw new TranscriptFetchError(
+      'INVALID_ID',
+      `Invalid YouTube video ID or URL: "${videoIdOrUrl}". Please provide a valid 11-character video ID or YouTube URL.`
+    );
   }
 
   const service = strapi.plugin('yt-transcript-strapi-plugin').service('service');
 
-  // Check if transcript already exists in database
-  const existingTranscript = await service.findTranscript(videoId);
-  if (existingTranscript) {
-    return buildMetadataResponse(existingTranscript, previewLength, true);
+  // Check if transcript already exists in database for the requested language
+  if (!refresh) {
+    const existingTranscript = await service.findTranscriptForLanguages(videoId, { languages, translateTo });
+    if (existingTranscript) {
+      return buildMetadataResponse(existingTranscript, previewLength, true);
+    }
   }
 
-  // Fetch transcript from YouTube
-  const transcriptData = await service.getTranscript(videoId);
-
-  if (!transcriptData || !transcriptData.fullTranscript) {
-    throw new Error('No transcript data returned from YouTube');
+  // Queue a background job instead of waiting for YouTube
+  if (runAsync) {
+    const job = await strapi
+      .plugin('yt-transcript-strapi-plugin')
+      .service('jobs')
+      .enqueue(videoId, { languages, translateTo }, { refresh });
+
+    return {
+      message: 'Transcript fetch queued',
+      ...job,
+      usage: `Use getFetchJob with jobId: "${job.jobId}" to check progress. When it has succeeded, use getTranscript with videoId: "${videoId}".`,
+    };
   }
 
-  const payload: Record<string, unknown> = {
-    videoId,
-    title: transcriptData.title || `YouTube Video ${videoId}`,
-    fullTranscript: transcriptData.fullTranscript,
-    transcriptWithTimeCodes: transcriptData.transcriptWithTimeCodes,
-  };
+  // Re-fetch and keep the replaced version in the history
+  if (refresh) {
+    const result = await service.refreshTranscript(videoId, { languages, translateTo });
+
+    return {
+      ...buildMetadataResponse(result.transcript, previewLength, false),
+      message: REFRESH_MESSAGES[result.status as RefreshStatus],
+      refresh: {
+        status: result.status,
+        version: result.version,
+        previousVersion: result.previousVersion,
+        ...(result.diff && {
+          summary: result.diff.summary,
+          changes: result.diff.changes.slice(0, MAX_REFRESH_CHANGES),
+          moreChanges: Math.max(0, result.diff.changes.length - MAX_REFRESH_CHANGES),
+        }),
+      },
+    };
+  }
 
-  const savedTranscript = await service.saveTranscript(payload);
+  // Fetch transcript from YouTube and save it
+  const { transcript, cached } = await service.fetchAndSaveTranscript(videoId, { languages, translateTo });
 
-  return buildMetadataResponse(savedTranscript as Record<string, unknown>, previewLength, false);
+  return buildMetadataResponse(transcript as Record<string, unknown>, previewLength, cached);
 }
 
 export const fetchTranscriptTool: ToolDefinition = {
   name: 'fetchTranscript',
   description:
-    'Fetch a transcript from YouTube for a given video ID or URL. The transcript is saved to the database. Returns metadata and preview only to avoid context overflow. Use getTranscript to retrieve content.',
+    'Fetch a transcript from YouTube for a given video ID or URL. Optionally choose preferred caption languages or a translation target. The transcript is saved to the database. Returns metadata and preview only to avoid context overflow. Use getTranscript to retrieve content. Set async: true to queue the fetch as a background job and poll it with getFetchJob. Set refresh: true to re-fetch a cached transcript; changes are kept as versions (see getTranscriptHistory).',
   schema: FetchTranscriptSchema,
   execute,
   publicSafe: true,
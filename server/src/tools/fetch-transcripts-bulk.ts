@@ -0,0 +1,27 @@
+import type { Core } from '@strapi/strapi';
+import { FetchTranscriptsBulkSchema } from '../mcp/schemas';
+import type { ToolDefinition } from './index';
+
+async function execute(args: unknown, strapi: Core.Strapi): Promise<unknown> {
+  const validatedArgs = FetchTranscriptsBulkSchema.parse(args);
+  const { videoIds, languages, translateTo, concurrency, async: runAsync } = validatedArgs;
+
+  const service = strapi.plugin('yt-transcript-strapi-plugin').service('service');
+  const result = await service.fetchTranscriptsBulk(videoIds, { languages, translateTo, concurrency, async: runAsync });
+
+  return {
+    ...result,
+    usage: result.async
+      ? 'The videos with status "queued" are fetched in the background. Use getFetchJob with their jobId to check progress, then getTranscript or searchTranscript with the videoId to read a saved transcript.'
+      : 'Use getTranscript or searchTranscript with a videoId from this report to read a saved transcript. Failed videos can be retried by calling fetchTranscriptsBulk again; saved videos are served from the cache.',
+  };
+}
+
+export const fetchTranscriptsBulkTool: ToolDefinition = {
+  name: 'fetchTranscriptsBulk',
+  description:
+    'Fetch and save transcripts for many videos at once (up to 500 video IDs or YouTube links). Inputs are normalized and de-duplicated, cached videos are not fetched again, and several videos are fetched at a time. More than 10 videos (or async: true) are queued as background jobs to poll with getFetchJob. Returns a summary (saved, cached, queued, no_captions, failed, invalid) and a per-video report instead of transcript content.',
+  schema: FetchTranscriptsBulkSchema,
+  execute,
+  publicSafe: false,
+};
@@ -1,5 +1,7 @@
 import type { Core } from '@strapi/strapi';
 import { FindTranscriptsSchema } from '../mcp/schemas';
+import { extractYouTubeID } from '../utils/extract-youtube-id';
+import { buildMetadataFilters } from '../utils/transcript-filters';
 import type { ToolDefinition } from './index';
 
 const TRANSCRIPT_PREVIEW_LENGTH = 244;
@@ -25,14 +27,15 @@ function truncateTranscripts(transcripts: any[]): any[] {
 
 async function execute(args: unknown, strapi: Core.Strapi): Promise<unknown> {
   const validatedArgs = FindTranscriptsSchema.parse(args);
-  const { query, videoId, title, includeFullContent, page, pageSize, sort } = validatedArgs;
+  const { query, videoId, title, includeFullContent, page, pageSize, sort, ...metadataFilters } = validatedArgs;
 
   const start = (page - 1) * pageSize;
 
   const filters: Record<string, any> = {};
 
   if (videoId) {
-    filters.videoId = { $containsi: videoId };
+    // Accept a pasted link as well as a (partial) video ID
+    filters.videoId = { $containsi: extractYouTubeID(videoId) ?? videoId };
   }
 
   if (title) {
@@ -47,6 +50,11 @@ async function execute(args: unknown, strapi: Core.Strapi): Promise<unknown> {
     ];
   }
 
+  const metadataConditions = buildMetadataFilters(metadataFilters);
+  if (metadataConditions.length > 0) {
+    filters.$and = metadataConditions;
+  }
+
   const transcripts = await strapi.documents('plugin::yt-transcript-strapi-plugin.transcript').findMany({
     filters,
     sort,
@@ -54,10 +62,7 @@ async function execute(args: unknown, strapi: Core.Strapi): Promise<unknown> {
     start,
   });
 
-  const allMatching = await strapi.documents('plugin::yt-transcript-strapi-plugin.transcript').findMany({
-    filters,
-  });
-  const total = allMatching.length;
+  const total = await strapi.documents('plugin::yt-transcript-strapi-plugin.transcript').count({ filters });
 
   const processedTranscripts = includeFullContent ? transcripts : truncateTranscripts(transcripts);
 
@@ -73,6 +78,7 @@ async function execute(args: unknown, strapi: Core.Strapi): Promise<unknown> {
       query: query || null,
       videoId: videoId || null,
       title: title || null,
+      ...metadataFilters,
     },
     ...(!includeFullContent && { note: 'Transcript content truncated to 244 chars. Use getTranscript for full content or set includeFullContent=true.' }),
   };
@@ -81,7 +87,7 @@ async function execute(args: unknown, strapi: Core.Strapi): Promise<unknown> {
 export const findTranscriptsTool: ToolDefinition = {
   name: 'findTranscripts',
   description:
-    'Search and filter transcripts based on query criteria. Returns multiple matching transcripts with truncated previews (244 chars). Use getTranscript for full content. Supports filtering by title, videoId, and full-text search.',
+    'Search and filter transcripts based on query criteria. Returns multiple matching transcripts with truncated previews (244 chars). Use getTranscript for full content. Supports filtering by title, videoId, full-text search, and video metadata (channel, language, caption kind, publish date, duration, views, Shorts, live).',
   schema: FindTranscriptsSchema,
   execute,
   publicSafe: true,
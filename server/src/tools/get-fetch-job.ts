@@ -0,0 +1,39 @@
+import type { Core } from '@strapi/strapi';
+import { GetFetchJobSchema } from '../mcp/schemas';
+import type { ToolDefinition } from './index';
+
+const USAGE: Record<string, string> = {
+  queued: 'The job is waiting for a worker. Check again in a few seconds.',
+  running: 'The transcript is being fetched. Check again in a few seconds.',
+  succeeded: 'Use getTranscript with this videoId to read the transcript.',
+  failed: 'The fetch failed; see lastError and errorCode. Call fetchTranscript again to retry.',
+};
+
+async function execute(args: unknown, strapi: Core.Strapi): Promise<unknown> {
+  const validatedArgs = GetFetchJobSchema.parse(args);
+  const { jobId } = validatedArgs;
+
+  const job = await strapi.plugin('yt-transcript-strapi-plugin').service('jobs').getJob(jobId);
+
+  if (!job) {
+    return {
+      error: true,
+      message: `No fetch job found with ID: ${jobId}`,
+      jobId,
+    };
+  }
+
+  return {
+    ...job,
+    usage: USAGE[job.status],
+  };
+}
+
+export const getFetchJobTool: ToolDefinition = {
+  name: 'getFetchJob',
+  description:
+    'Get the status of a background transcript fetch job started with fetchTranscript async: true. Status is queued, running, succeeded or failed, with the attempt count and last error.',
+  schema: GetFetchJobSchema,
+  execute,
+  publicSafe: true,
+};
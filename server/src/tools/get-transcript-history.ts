@@ -0,0 +1,80 @@
+import type { Core } from '@strapi/strapi';
+import { GetTranscriptHistorySchema } from '../mcp/schemas';
+import { extractYouTubeID } from '../utils/extract-youtube-id';
+import { TranscriptFetchError } from '../utils/transcript-fetch-error';
+import type { ToolDefinition } from './index';
+
+async function execute(args: unknown, strapi: Core.Strapi): Promise<unknown> {
+  const validatedArgs = GetTranscriptHistorySchema.parse(args);
+  const { videoId: videoIdOrUrl, language, fromVersion, toVersion, maxChanges } = validatedArgs;
+
+  const videoId = extractYouTubeID(videoIdOrUrl);
+
+  if (!videoId) {
+    throw new TranscriptFetchError(
+      'INVALID_ID',
+      `Invalid YouTube video ID or URL: "${videoIdOrUrl}". Please provide a valid 11-character video ID or YouTube URL.`
+    );
+  }
+
+  const transcript = await strapi
+    .plugin('yt-transcript-strapi-plugin')
+    .service('service')
+    .findTranscript(videoId, language);
+
+  if (!transcript) {
+    return {
+      error: true,
+      message: `No transcript found for video ID: ${videoId}${language ? ` (language: ${language})` : ''}. Use fetchTranscript to fetch it from YouTube first.`,
+      videoId,
+    };
+  }
+
+  const history = strapi.plugin('yt-transcript-strapi-plugin').service('history');
+  const versions = await history.listVersions(transcript);
+  const currentVersion: number = versions[0].version;
+
+  const response: Record<string, unknown> = {
+    videoId,
+    title: transcript.title,
+    language: transcript.language,
+    currentVersion,
+    totalVersions: versions.length,
+    versions,
+  };
+
+  // Compare two versions: defaults to the previous version against the current one
+  if (fromVersion !== undefined || toVersion !== undefined) {
+    const to = toVersion ?? currentVersion;
+    const from = fromVersion ?? Math.max(to - 1, 1);
+    const comparison = await history.compareVersions(transcript, from, to);
+
+    if (!comparison) {
+      const available = versions.map((version) => version.version).join(', ');
+      return {
+        error: true,
+        message: `Version ${from} or ${to} does not exist for this transcript. Available versions: ${available}`,
+        videoId,
+      };
+    }
+
+    response.comparison = {
+      ...comparison,
+      changes: comparison.changes.slice(0, maxChanges),
+      moreChanges: Math.max(0, comparison.changes.length - maxChanges),
+    };
+  } else if (versions.length > 1) {
+    response.usage = 'Set fromVersion and/or toVersion to see the segment-level changes between two versions.';
+  }
+
+  return response;
+}
+
+export const getTranscriptHistoryTool: ToolDefinition = {
+  name: 'getTranscriptHistory',
+  description:
+    'List the stored versions of a transcript (created when fetchTranscript refresh: true finds changes) and compare any two. The comparison lists added, removed and changed text with timestamps.',
+  schema: GetTranscriptHistorySchema,
+  execute,
+  publicSafe: true,
+};
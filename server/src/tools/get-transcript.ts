@@ -1,6 +1,10 @@
 import type { Core } from '@strapi/strapi';
 import { GetTranscriptSchema } from '../mcp/schemas';
-import { extractYouTubeID } from '../utils/extract-youtube-id';
+import { parseYouTubeURL } from '../utils/extract-youtube-id';
+import { TranscriptFetchError } from '../utils/transcript-fetch-error';
+import { formatTime, getTranscriptForTimeRange, type TimecodeEntry } from '../utils/time-range';
+import { findChapterAt, findChapterByTitle, type Chapter } from '../utils/chapters';
+import { buildReadableTranscript, getReadableUnits, type ReadableTranscript } from '../utils/readable-transcript';
 import type { ToolDefinition } from './index';
 
 interface PluginConfig {
@@ -9,28 +13,6 @@ interface PluginConfig {
   maxFullTranscriptLength?: number;
 }
 
-interface TimecodeEntry {
-  start: number;
-  end: number;
-  text: string;
-  duration: number;
-}
-
-/**
- * Get transcript text for a specific time range from timecoded entries
- */
-function getTranscriptForTimeRange(
-  timecodes: TimecodeEntry[],
-  startTimeMs: number,
-  endTimeMs: number
-): { text: string; entries: TimecodeEntry[] } {
-  const entries = timecodes.filter(
-    (entry) => entry.start >= startTimeMs && entry.start < endTimeMs
-  );
-  const text = entries.map((e) => e.text).join(' ');
-  return { text, entries };
-}
-
 /**
  * Calculate video duration from timecodes
  */
@@ -40,31 +22,20 @@ function getVideoDurationMs(timecodes: TimecodeEntry[]): number {
   return lastEntry.end || lastEntry.start + (lastEntry.duration || 0);
 }
 
-/**
- * Format milliseconds as MM:SS or HH:MM:SS
- */
-function formatTime(ms: number): string {
-  const totalSeconds = Math.floor(ms / 1000);
-  const hours = Math.floor(totalSeconds / 3600);
-  const minutes = Math.floor((totalSeconds % 3600) / 60);
-  const seconds = totalSeconds % 60;
-
-  if (hours > 0) {
-    return `${hours}:${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
-  }
-  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
-}
-
 async function execute(args: unknown, strapi: Core.Strapi): Promise<unknown> {
   const validatedArgs = GetTranscriptSchema.parse(args);
   const {
     videoId: videoIdOrUrl,
+    language,
     includeFullTranscript,
     includeTimecodes,
     startTime,
     endTime,
     chunkIndex,
     chunkSize: chunkSizeOverride,
+    chapterIndex,
+    chapterTitle,
+    format,
   } = validatedArgs;
 
   const pluginConfig = await strapi.config.get('plugin::yt-transcript-strapi-plugin') as PluginConfig | undefined;
@@ -73,15 +44,32 @@ async function execute(args: unknown, strapi: Core.Strapi): Promise<unknown> {
   const maxFullTranscriptLength = pluginConfig?.maxFullTranscriptLength || 50000;
   const chunkSizeSeconds = chunkSizeOverride || defaultChunkSize;
 
-  const videoId = extractYouTubeID(videoIdOrUrl);
-  if (!videoId) {
-    throw new Error(`Invalid YouTube video ID or URL: "${videoIdOrUrl}". Please provide a valid 11-character video ID or YouTube URL.`);
+  // Share links may carry a timestamp (youtu.be/ID?t=90) that the response is centred on
+  const link = parseYouTubeURL(videoIdOrUrl);
+  const videoId = link?.videoId;
+  if (!link || !videoId) {
+    throw new TranscriptFetchError(
+      'INVALID_ID',
+      `Invalid YouTube video ID or URL: "${videoIdOrUrl}". Please provide a valid 11-character video ID or YouTube URL.`
+    );
   }
 
   const service = strapi.plugin('yt-transcript-strapi-plugin').service('service');
-  const transcript = await service.findTranscript(videoId);
+  const transcript = await service.findTranscript(videoId, language);
 
   if (!transcript) {
+    const languagesByVideo = language ? await service.getLanguagesByVideo([videoId]) : {};
+    const availableLanguages: string[] = languagesByVideo[videoId] || [];
+
+    if (availableLanguages.length > 0) {
+      return {
+        error: true,
+        message: `No "${language}" transcript found for video ID: ${videoId}. Available languages: ${availableLanguages.join(', ')}. Use fetchTranscript with languages: ["${language}"] to fetch it.`,
+        videoId,
+        availableLanguages,
+      };
+    }
+
     return {
       error: true,
       message: `No transcript found for video ID: ${videoId}. Use fetchTranscript to fetch it from YouTube first.`,
@@ -94,10 +82,28 @@ async function execute(args: unknown, strapi: Core.Strapi): Promise<unknown> {
   const durationMs = getVideoDurationMs(timecodes);
   const totalChunks = Math.ceil(durationMs / (chunkSizeSeconds * 1000));
   const wordCount = fullText.split(/\s+/).length;
+  const chapters: Chapter[] = transcript.chapters || [];
+
+  // Sentences and paragraphs are rebuilt on the fly for transcripts saved before they were stored
+  const readable: ReadableTranscript | null =
+    format === 'raw' ? null : transcript.readableTranscript || buildReadableTranscript(timecodes, chapters);
+
+  /**
+   * Text and timed entries starting inside a time range, in the requested format
+   */
+  const getRange = (startMs: number, endMs: number): { text: string; entries: Array<{ start: number; end: number; text: string }> } => {
+    if (!readable || format === 'raw') {
+      return getTranscriptForTimeRange(timecodes, startMs, endMs);
+    }
+    const entries = getReadableUnits(readable, format, startMs, endMs);
+    return { text: entries.map((entry) => entry.text).join(format === 'paragraphs' ? '\n\n' : '\n'), entries };
+  };
 
   const response: Record<string, unknown> = {
     videoId: transcript.videoId,
     title: transcript.title,
+    language: transcript.language ?? null,
+    format,
     metadata: {
       wordCount,
       characterCount: fullText.length,
@@ -105,6 +111,15 @@ async function execute(args: unknown, strapi: Core.Strapi): Promise<unknown> {
       durationSeconds: Math.floor(durationMs / 1000),
       totalChunks,
       chunkSizeSeconds,
+      totalChapters: chapters.length,
+      ...(chapters.length > 0 && {
+        chapters: chapters.map((chapter) => ({
+          index: chapter.index,
+          title: chapter.title,
+          startTime: Math.floor(chapter.start / 1000),
+          startFormatted: formatTime(chapter.start),
+        })),
+      }),
     },
   };
 
@@ -113,7 +128,7 @@ async function execute(args: unknown, strapi: Core.Strapi): Promise<unknown> {
     const startMs = (startTime || 0) * 1000;
     const endMs = endTime !== undefined ? endTime * 1000 : durationMs;
 
-    const { text, entries } = getTranscriptForTimeRange(timecodes, startMs, endMs);
+    const { text, entries } = getRange(startMs, endMs);
 
     response.timeRange = {
       startTime: startTime || 0,
@@ -127,6 +142,45 @@ async function execute(args: unknown, strapi: Core.Strapi): Promise<unknown> {
       response.transcriptWithTimeCodes = entries;
     }
   }
+  // Handle chapter request
+  else if (chapterIndex !== undefined || chapterTitle !== undefined) {
+    const chapter = chapterTitle !== undefined
+      ? findChapterByTitle(chapters, chapterTitle)
+      : chapters[chapterIndex!];
+
+    if (chapters.length === 0) {
+      response.error = 'This transcript has no chapters. Use chunkIndex or startTime/endTime instead.';
+    } else if (!chapter) {
+      response.error = chapterTitle !== undefined
+        ? `No chapter matching "${chapterTitle}". See metadata.chapters for the available chapters.`
+        : `Chapter index ${chapterIndex} is out of range. Total chapters: ${chapters.length} (0-${chapters.length - 1})`;
+    } else {
+      const chapterEndMs = Math.max(chapter.end, chapter.index === chapters.length - 1 ? durationMs : 0);
+      const { text, entries } = getRange(chapter.start, chapterEndMs);
+
+      response.chapter = {
+        index: chapter.index,
+        title: chapter.title,
+        totalChapters: chapters.length,
+        startTime: Math.floor(chapter.start / 1000),
+        endTime: Math.floor(chapterEndMs / 1000),
+        startFormatted: formatTime(chapter.start),
+        endFormatted: formatTime(chapterEndMs),
+      };
+      response.transcript = text;
+
+      if (includeTimecodes) {
+        response.transcriptWithTimeCodes = entries;
+      }
+
+      if (chapter.index < chapters.length - 1) {
+        response.nextChapter = `Use chapterIndex: ${chapter.index + 1} for "${chapters[chapter.index + 1].title}"`;
+      }
+      if (chapter.index > 0) {
+        response.previousChapter = `Use chapterIndex: ${chapter.index - 1} for "${chapters[chapter.index - 1].title}"`;
+      }
+    }
+  }
   // Handle chunk request
   else if (chunkIndex !== undefined) {
     const chunkStartMs = chunkIndex * chunkSizeSeconds * 1000;
@@ -135,7 +189,7 @@ async function execute(args: unknown, strapi: Core.Strapi): Promise<unknown> {
     if (chunkStartMs >= durationMs) {
       response.error = `Chunk index ${chunkIndex} is out of range. Total chunks: ${totalChunks} (0-${totalChunks - 1})`;
     } else {
-      const { text, entries } = getTranscriptForTimeRange(timecodes, chunkStartMs, chunkEndMs);
+      const { text, entries } = getRange(chunkStartMs, chunkEndMs);
 
       response.chunk = {
         index: chunkIndex,
@@ -159,12 +213,46 @@ async function execute(args: unknown, strapi: Core.Strapi): Promise<unknown> {
       }
     }
   }
+  // Handle a URL timestamp: a chunk-sized window centred on that moment
+  else if (link.startSeconds !== null && !includeFullTranscript) {
+    const atMs = link.startSeconds * 1000;
+
+    if (atMs >= durationMs) {
+      response.error = `The URL timestamp ${formatTime(atMs)} is past the end of the transcript (${formatTime(durationMs)}).`;
+    } else {
+      const windowMs = chunkSizeSeconds * 1000;
+      const windowStartMs = Math.min(Math.max(atMs - windowMs / 2, 0), Math.max(durationMs - windowMs, 0));
+      const windowEndMs = Math.min(windowStartMs + windowMs, durationMs);
+      const { text, entries } = getRange(windowStartMs, windowEndMs);
+      const segment = timecodes.find((entry) => entry.start <= atMs && atMs < (entry.end || entry.start + (entry.duration || 0)));
+      const chapter = findChapterAt(chapters, atMs);
+
+      response.timestamp = {
+        requestedTime: link.startSeconds,
+        requestedFormatted: formatTime(atMs),
+        startTime: Math.floor(windowStartMs / 1000),
+        endTime: Math.floor(windowEndMs / 1000),
+        startFormatted: formatTime(windowStartMs),
+        endFormatted: formatTime(windowEndMs),
+        segmentText: segment?.text ?? null,
+        chapter: chapter ? { index: chapter.index, title: chapter.title } : null,
+      };
+      response.transcript = text;
+
+      if (includeTimecodes) {
+        response.transcriptWithTimeCodes = entries;
+      }
+
+      response.note = 'Centred on the timestamp in the URL. Use startTime/endTime, chunkIndex or includeFullTranscript to read other parts.';
+    }
+  }
   // Handle full transcript request OR auto-load if small enough
   else if (includeFullTranscript || fullText.length <= maxFullTranscriptLength) {
-    response.transcript = fullText;
+    const { text, entries } = readable ? getRange(0, Infinity) : { text: fullText, entries: timecodes };
+    response.transcript = text;
 
     if (includeTimecodes) {
-      response.transcriptWithTimeCodes = timecodes;
+      response.transcriptWithTimeCodes = entries;
     }
 
     if (includeFullTranscript && fullText.length > maxFullTranscriptLength) {
@@ -175,17 +263,22 @@ async function execute(args: unknown, strapi: Core.Strapi): Promise<unknown> {
   }
   // Default for large transcripts: return preview only
   else {
-    const preview = fullText.length > previewLength
-      ? fullText.substring(0, previewLength) + '...'
-      : fullText;
+    const previewSource = readable ? getRange(0, Infinity).text : fullText;
+    const preview = previewSource.length > previewLength
+      ? previewSource.substring(0, previewLength) + '...'
+      : previewSource;
 
     response.preview = preview;
     response.isLargeTranscript = true;
     response.usage = {
       fullTranscript: 'Set includeFullTranscript: true to get complete text (warning: may exceed context)',
+      format: "Set format: 'paragraphs' or 'sentences' for punctuated, readable text instead of raw caption fragments",
       search: 'Use searchTranscript to find relevant portions by keyword (recommended for large transcripts)',
       timeRange: 'Use startTime and endTime (in seconds) to get a specific portion',
       pagination: `Use chunkIndex (0-${totalChunks - 1}) to paginate through ${chunkSizeSeconds}s chunks`,
+      ...(chapters.length > 0 && {
+        chapters: `Use chapterIndex (0-${chapters.length - 1}) or chapterTitle to read one chapter at a time`,
+      }),
     };
   }
 
@@ -195,7 +288,7 @@ async function execute(args: unknown, strapi: Core.Strapi): Promise<unknown> {
 export const getTranscriptTool: ToolDefinition = {
   name: 'getTranscript',
   description:
-    'Get a saved transcript by YouTube video ID. Returns metadata and preview by default. Use parameters to get full content or specific time ranges to avoid context overflow.',
+    'Get a saved transcript by YouTube video ID or URL. Returns metadata and preview by default. Use parameters to get full content, specific time ranges, fixed-size chunks or author-marked chapters to avoid context overflow. Set format to "sentences" or "paragraphs" for readable text rebuilt from the caption fragments. A URL with a timestamp (e.g. youtu.be/ID?t=90) returns the part of the transcript around that moment.',
   schema: GetTranscriptSchema,
   execute,
   publicSafe: true,
@@ -0,0 +1,58 @@
+import type { Core } from '@strapi/strapi';
+import { ImportCaptionsSchema } from '../mcp/schemas';
+import { CaptionImportConflictError } from '../utils/parse-captions';
+import { formatTime } from '../utils/time-range';
+import type { ToolDefinition } from './index';
+
+interface TimecodeEntry {
+  start: number;
+  end: number;
+  duration: number;
+}
+
+async function execute(args: unknown, strapi: Core.Strapi): Promise<unknown> {
+  const validatedArgs = ImportCaptionsSchema.parse(args);
+  const { content, format, videoId, title, language, sourceUrl, overwrite } = validatedArgs;
+
+  const service = strapi.plugin('yt-transcript-strapi-plugin').service('service');
+  let transcript;
+  try {
+    transcript = await service.importCaptions({ content, format, videoId, title, language, sourceUrl, overwrite });
+  } catch (error) {
+    if (error instanceof CaptionImportConflictError) {
+      return { error: true, message: error.message, videoId };
+    }
+    throw error;
+  }
+
+  const fullText: string = transcript.fullTranscript || '';
+  const timecodes: TimecodeEntry[] = transcript.transcriptWithTimeCodes || [];
+  const lastEntry = timecodes[timecodes.length - 1];
+  const durationMs = lastEntry ? lastEntry.end || lastEntry.start + (lastEntry.duration || 0) : 0;
+
+  return {
+    message: 'Captions imported and saved successfully',
+    videoId: transcript.videoId,
+    title: transcript.title,
+    language: transcript.language,
+    source: transcript.source,
+    version: transcript.version,
+    metadata: {
+      segmentCount: timecodes.length,
+      wordCount: fullText.split(/\s+/).length,
+      characterCount: fullText.length,
+      duration: formatTime(durationMs),
+      durationSeconds: Math.floor(durationMs / 1000),
+    },
+    usage: `Use getTranscript or searchTranscript with videoId: "${transcript.videoId}" to read or search the imported transcript.`,
+  };
+}
+
+export const importCaptionsTool: ToolDefinition = {
+  name: 'importCaptions',
+  description:
+    'Import an SRT, WebVTT or SBV caption file as a transcript, for private, unlisted or non-YouTube videos. The format is detected when not given. Without a YouTube videoId an ID is generated. A stored transcript of the same video and language is only replaced with overwrite: true. Imported transcripts work with getTranscript and searchTranscript like fetched ones.',
+  schema: ImportCaptionsSchema,
+  execute,
+  publicSafe: false,
+};
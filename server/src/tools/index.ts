@@ -15,6 +15,14 @@ import { listTranscriptsTool } from './list-transcripts';
 import { getTranscriptTool } from './get-transcript';
 import { searchTranscriptTool } from './search-transcript';
 import { findTranscriptsTool } from './find-transcripts';
+import { listCaptionTracksTool } from './list-caption-tracks';
+import { importCaptionsTool } from './import-captions';
+import { exportTranscriptTool } from './export-transcript';
+import { fetchPlaylistTool } from './fetch-playlist';
+import { getFetchJobTool } from './get-fetch-job';
+import { fetchTranscriptsBulkTool } from './fetch-transcripts-bulk';
+import { getTranscriptHistoryTool } from './get-transcript-history';
+import { searchLibraryTool } from './search-library';
 
 export const tools: ToolDefinition[] = [
   fetchTranscriptTool,
@@ -22,6 +30,14 @@ export const tools: ToolDefinition[] = [
   getTranscriptTool,
   searchTranscriptTool,
   findTranscriptsTool,
+  listCaptionTracksTool,
+  importCaptionsTool,
+  exportTranscriptTool,
+  fetchPlaylistTool,
+  getFetchJobTool,
+  fetchTranscriptsBulkTool,
+  getTranscriptHistoryTool,
+  searchLibraryTool,
 ];
 
 export {
@@ -30,4 +46,12 @@ export {
   getTranscriptTool,
   searchTranscriptTool,
   findTranscriptsTool,
+  listCaptionTracksTool,
+  importCaptionsTool,
+  exportTranscriptTool,
+  fetchPlaylistTool,
+  getFetchJobTool,
+  fetchTranscriptsBulkTool,
+  getTranscriptHistoryTool,
+  searchLibraryTool,
 };
@@ -0,0 +1,42 @@
+import type { Core } from '@strapi/strapi';
+import { ListCaptionTracksSchema } from '../mcp/schemas';
+import { extractYouTubeID } from '../utils/extract-youtube-id';
+import { TranscriptFetchError } from '../utils/transcript-fetch-error';
+import type { CaptionTrackList } from '../utils/fetch-transcript';
+import type { ToolDefinition } from './index';
+
+async function execute(args: unknown, strapi: Core.Strapi): Promise<unknown> {
+  const validatedArgs = ListCaptionTracksSchema.parse(args);
+  const { videoId: videoIdOrUrl } = validatedArgs;
+
+  const videoId = extractYouTubeID(videoIdOrUrl);
+  if (!videoId) {
+    throw new TranscriptFetchError(
+      'INVALID_ID',
+      `Invalid YouTube video ID or URL: "${videoIdOrUrl}". Please provide a valid 11-character video ID or YouTube URL.`
+    );
+  }
+
+  const service = strapi.plugin('yt-transcript-strapi-plugin').service('service');
+  const trackList: CaptionTrackList = await service.getCaptionTracks(videoId);
+
+  return {
+    videoId: trackList.videoId,
+    title: trackList.title,
+    playabilityStatus: trackList.playabilityStatus,
+    totalTracks: trackList.tracks.length,
+    tracks: trackList.tracks,
+    usage: trackList.tracks.length > 0
+      ? 'Use fetchTranscript with languages: ["<languageCode>"] to fetch a track, or translateTo: "<languageCode>" to auto-translate a translatable track.'
+      : 'No caption tracks available for this video.',
+  };
+}
+
+export const listCaptionTracksTool: ToolDefinition = {
+  name: 'listCaptionTracks',
+  description:
+    'List the caption tracks available on YouTube for a video ID or URL, with language code, display name, kind (asr = auto-generated, manual) and whether the track can be auto-translated. Does not download or save a transcript. Use before fetchTranscript to choose a language.',
+  schema: ListCaptionTracksSchema,
+  execute,
+  publicSafe: true,
+};
@@ -1,25 +1,53 @@
 import type { Core } from '@strapi/strapi';
 import { ListTranscriptsSchema } from '../mcp/schemas';
+import { buildMetadataFilters } from '../utils/transcript-filters';
 import type { ToolDefinition } from './index';
 
 async function execute(args: unknown, strapi: Core.Strapi): Promise<unknown> {
   const validatedArgs = ListTranscriptsSchema.parse(args);
-  const { page, pageSize, sort } = validatedArgs;
+  const { page, pageSize, sort, ...metadataFilters } = validatedArgs;
 
   const start = (page - 1) * pageSize;
 
+  const metadataConditions = buildMetadataFilters(metadataFilters);
+  const filters = metadataConditions.length > 0 ? { $and: metadataConditions } : {};
+
   const transcripts = await strapi.documents('plugin::yt-transcript-strapi-plugin.transcript').findMany({
+    filters,
     sort,
     limit: pageSize,
     start,
-    fields: ['id', 'documentId', 'title', 'videoId', 'createdAt', 'updatedAt'],
+    fields: [
+      'id',
+      'documentId',
+      'title',
+      'videoId',
+      'language',
+      'translated',
+      'captionKind',
+      'channelId',
+      'channelName',
+      'videoPublishedAt',
+      'durationSeconds',
+      'viewCount',
+      'isLive',
+      'isShort',
+      'createdAt',
+      'updatedAt',
+    ],
   });
 
-  const allTranscripts = await strapi.documents('plugin::yt-transcript-strapi-plugin.transcript').findMany({});
-  const total = allTranscripts.length;
+  const service = strapi.plugin('yt-transcript-strapi-plugin').service('service');
+  const videoIds = [...new Set(transcripts.map((transcript) => transcript.videoId as string))];
+  const languagesByVideo: Record<string, string[]> = await service.getLanguagesByVideo(videoIds);
+
+  const total = await strapi.documents('plugin::yt-transcript-strapi-plugin.transcript').count({ filters });
 
   return {
-    data: transcripts,
+    data: transcripts.map((transcript) => ({
+      ...transcript,
+      availableLanguages: languagesByVideo[transcript.videoId as string] || [],
+    })),
     pagination: {
       page,
       pageSize,
@@ -32,7 +60,7 @@ async function execute(args: unknown, strapi: Core.Strapi): Promise<unknown> {
 export const listTranscriptsTool: ToolDefinition = {
   name: 'listTranscripts',
   description:
-    'List all saved YouTube transcripts from the database. Supports pagination and sorting.',
+    'List all saved YouTube transcripts from the database. Each entry is one language version and lists the other languages stored for the same video. Supports pagination, sorting (e.g. by videoPublishedAt, viewCount or durationSeconds), and filtering by video metadata such as channel, language, caption kind, publish date, duration, Shorts and live videos.',
   schema: ListTranscriptsSchema,
   execute,
   publicSafe: true,
@@ -0,0 +1,55 @@
+import type { Core } from '@strapi/strapi';
+import { SearchLibrarySchema } from '../mcp/schemas';
+import { extractYouTubeID } from '../utils/extract-youtube-id';
+import { TranscriptFetchError } from '../utils/transcript-fetch-error';
+import { SearchQueryError } from '../utils/search-query';
+import type { ToolDefinition } from './index';
+
+async function execute(args: unknown, strapi: Core.Strapi): Promise<unknown> {
+  const validatedArgs = SearchLibrarySchema.parse(args);
+  const { query, videoIds: videoIdsOrUrls, ...options } = validatedArgs;
+
+  let videoIds: string[] | undefined;
+  if (videoIdsOrUrls) {
+    videoIds = [];
+    for (const input of videoIdsOrUrls) {
+      const videoId = extractYouTubeID(input);
+      if (!videoId) {
+        throw new TranscriptFetchError(
+          'INVALID_ID',
+          `Invalid YouTube video ID or URL: "${input}". Please provide valid 11-character video IDs or YouTube URLs.`
+        );
+      }
+      videoIds.push(videoId);
+    }
+  }
+
+  let result;
+  try {
+    result = await strapi
+      .plugin('yt-transcript-strapi-plugin')
+      .service('search')
+      .searchLibrary(query, { ...options, videoIds });
+  } catch (error) {
+    if (error instanceof SearchQueryError) {
+      return { error: true, message: error.message, query };
+    }
+    throw error;
+  }
+
+  return {
+    ...result,
+    usage: result.results.length > 0
+      ? `Use getTranscript with videoId: "${result.results[0].videoId}", startTime: ${result.results[0].startTime} and endTime: ${result.results[0].endTime} to read the top result in context, or searchTranscript to search within one video.`
+      : 'No matches found. Try different keywords or fewer filters.',
+  };
+}
+
+export const searchLibraryTool: ToolDefinition = {
+  name: 'searchLibrary',
+  description:
+    'Search all saved transcripts at once with BM25 ranking computed over the whole library. Returns the best matching passages with video title, time range, chapter and score, a few per video. Queries support "quoted phrases", AND/OR/NOT, +required and -excluded words, prefix* wildcards, and time:START-END or chapter:"Title" scopes. Narrow the search with videoIds or the video metadata filters (channel, language, caption kind, publish date, duration, views, Shorts, live). Use this to answer "which videos talked about X, and where".',
+  schema: SearchLibrarySchema,
+  execute,
+  publicSafe: true,
+};
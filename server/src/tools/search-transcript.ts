@@ -1,176 +1,135 @@
 import type { Core } from '@strapi/strapi';
 import { SearchTranscriptSchema } from '../mcp/schemas';
 import { extractYouTubeID } from '../utils/extract-youtube-id';
+import { TranscriptFetchError } from '../utils/transcript-fetch-error';
+import { findChapterAt, type Chapter } from '../utils/chapters';
+import { formatTime } from '../utils/time-range';
+import type { Analyzer } from '../analyzers';
+import type { IndexedSegment, SearchTimecodeEntry } from '../utils/bm25';
+import { expandFuzzyTerms } from '../utils/fuzzy';
+import {
+  SearchQueryError,
+  hasScope,
+  parseSearchQuery,
+  resolveScopeRange,
+  scoreQuery,
+  type ParsedSearchQuery,
+  type TermPositions,
+} from '../utils/search-query';
+import type { SearchIndexDocument, SearchPosting } from '../services/search-index';
 import type { ToolDefinition } from './index';
 
 interface PluginConfig {
-  searchSegmentSeconds?: number;
+  searchFuzzyMaxDistance?: number;
 }
 
-interface TimecodeEntry {
-  start: number;
-  end: number;
-  text: string;
-  duration: number;
-}
-
-interface SearchSegment {
-  text: string;
-  startTime: number;
-  endTime: number;
-  startFormatted: string;
-  endFormatted: string;
-}
-
-interface ScoredSegment extends SearchSegment {
+interface ScoredSegment extends IndexedSegment {
   score: number;
+  matchedTerms: string[];
 }
 
 /**
- * Tokenize text into lowercase words
+ * Score the segments of one transcript matching the query, using its indexed postings
  */
-function tokenize(text: string): string[] {
-  return text
-    .toLowerCase()
-    .replace(/[^\w\s]/g, ' ')
-    .split(/\s+/)
-    .filter((word) => word.length > 1);
-}
+function scoreSegments(query: ParsedSearchQuery, index: SearchIndexDocument, postings: SearchPosting[]): ScoredSegment[] {
+  const segments = index.segments || [];
+  const positions: TermPositions = new Map();
 
-/**
- * Calculate IDF (Inverse Document Frequency) for each term
- */
-function calculateIDF(segments: SearchSegment[], vocabulary: Set<string>): Map<string, number> {
-  const idf = new Map<string, number>();
-  const N = segments.length;
-
-  for (const term of vocabulary) {
-    const docsWithTerm = segments.filter((seg) =>
-      tokenize(seg.text).includes(term)
-    ).length;
-    idf.set(term, Math.log((N - docsWithTerm + 0.5) / (docsWithTerm + 0.5) + 1));
+  for (const { term, postings: list } of postings) {
+    positions.set(term, new Map(list.map(([segment, termPositions]) => [String(segment), termPositions])));
   }
 
-  return idf;
+  return scoreQuery(query, positions, {
+    totalSegments: index.segmentCount,
+    avgLength: index.segmentCount > 0 ? index.tokenCount / index.segmentCount : 0,
+    lengthOf: (key) => segments[Number(key)]?.length || 0,
+  })
+    .filter((match) => segments[Number(match.key)])
+    .map((match) => ({ ...segments[Number(match.key)], score: match.score, matchedTerms: match.matchedTerms }));
 }
 
 /**
- * Calculate BM25 score for a segment against a query
+ * When the match in a segment is spoken: where the phrase occurs, else the first matched
+ * term. Exact with word timing (json3/srv3 captions), otherwise the caption start.
  */
-function bm25Score(
-  segmentTokens: string[],
-  queryTokens: string[],
-  idf: Map<string, number>,
-  avgDocLength: number,
-  k1 = 1.5,
-  b = 0.75
-): number {
-  const docLength = segmentTokens.length;
-  let score = 0;
-
-  const tf = new Map<string, number>();
-  for (const token of segmentTokens) {
-    tf.set(token, (tf.get(token) || 0) + 1);
+function findMatchTime(
+  entries: SearchTimecodeEntry[],
+  analyzer: Analyzer,
+  phrase: string[],
+  matchedTerms: string[]
+): { ms: number; exact: boolean } | null {
+  const tokens: Array<{ token: string; start: number; exact: boolean }> = [];
+
+  for (const entry of entries) {
+    const exact = Boolean(entry.words && entry.words.length > 0);
+    const words = exact ? entry.words! : [{ text: entry.text, start: entry.start }];
+    for (const word of words) {
+      for (const { term } of analyzer.analyze(word.text)) {
+        tokens.push({ token: term, start: word.start, exact });
+      }
+    }
   }
 
-  for (const term of queryTokens) {
-    const termFreq = tf.get(term) || 0;
-    const termIdf = idf.get(term) || 0;
-
-    if (termFreq > 0) {
-      const numerator = termFreq * (k1 + 1);
-      const denominator = termFreq + k1 * (1 - b + b * (docLength / avgDocLength));
-      score += termIdf * (numerator / denominator);
+  for (let i = 0; phrase.length > 0 && i + phrase.length <= tokens.length; i++) {
+    if (phrase.every((term, offset) => tokens[i + offset].token === term)) {
+      return { ms: tokens[i].start, exact: tokens[i].exact };
     }
   }
 
-  return score;
-}
-
-/**
- * Format milliseconds as MM:SS or HH:MM:SS
- */
-function formatTime(ms: number): string {
-  const totalSeconds = Math.floor(ms / 1000);
-  const hours = Math.floor(totalSeconds / 3600);
-  const minutes = Math.floor((totalSeconds % 3600) / 60);
-  const seconds = totalSeconds % 60;
-
-  if (hours > 0) {
-    return `${hours}:${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
-  }
-  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+  const terms = new Set(matchedTerms);
+  const first = tokens.find((token) => terms.has(token.token));
+  return first ? { ms: first.start, exact: first.exact } : null;
 }
 
 /**
- * Split transcript timecodes into segments of specified duration
+ * How the given terms are written in the entries ("carpathi" -> "Carpathy"), first occurrence each
  */
-function createSegments(
-  timecodes: TimecodeEntry[],
-  segmentDurationMs: number
-): SearchSegment[] {
-  if (!timecodes || timecodes.length === 0) return [];
-
-  const segments: SearchSegment[] = [];
-  let currentSegment: TimecodeEntry[] = [];
-  let segmentStartTime = timecodes[0].start;
-
-  for (const entry of timecodes) {
-    const segmentEndTime = segmentStartTime + segmentDurationMs;
-
-    if (entry.start < segmentEndTime) {
-      currentSegment.push(entry);
-    } else {
-      if (currentSegment.length > 0) {
-        const endTime = currentSegment[currentSegment.length - 1].end ||
-          currentSegment[currentSegment.length - 1].start + (currentSegment[currentSegment.length - 1].duration || 0);
-        segments.push({
-          text: currentSegment.map((e) => e.text).join(' '),
-          startTime: Math.floor(segmentStartTime / 1000),
-          endTime: Math.floor(endTime / 1000),
-          startFormatted: formatTime(segmentStartTime),
-          endFormatted: formatTime(endTime),
-        });
+function findWrittenForms(entries: SearchTimecodeEntry[], analyzer: Analyzer, terms: Set<string>): Map<string, string> {
+  const forms = new Map<string, string>();
+
+  for (const entry of entries) {
+    for (const chunk of entry.text.split(/\s+/)) {
+      for (const { term } of analyzer.analyze(chunk)) {
+        if (terms.has(term) && !forms.has(term)) {
+          forms.set(term, chunk.replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, ''));
+        }
       }
-
-      segmentStartTime = entry.start;
-      currentSegment = [entry];
     }
   }
 
-  if (currentSegment.length > 0) {
-    const endTime = currentSegment[currentSegment.length - 1].end ||
-      currentSegment[currentSegment.length - 1].start + (currentSegment[currentSegment.length - 1].duration || 0);
-    segments.push({
-      text: currentSegment.map((e) => e.text).join(' '),
-      startTime: Math.floor(segmentStartTime / 1000),
-      endTime: Math.floor(endTime / 1000),
-      startFormatted: formatTime(segmentStartTime),
-      endFormatted: formatTime(endTime),
-    });
-  }
-
-  return segments;
+  return forms;
 }
 
 async function execute(args: unknown, strapi: Core.Strapi): Promise<unknown> {
   const validatedArgs = SearchTranscriptSchema.parse(args);
-  const { videoId: videoIdOrUrl, query, maxResults: maxResultsInput } = validatedArgs;
-
-  const pluginConfig = await strapi.config.get('plugin::yt-transcript-strapi-plugin') as PluginConfig | undefined;
-  const segmentSeconds = pluginConfig?.searchSegmentSeconds || 30;
+  const { videoId: videoIdOrUrl, query, language, maxResults: maxResultsInput, fuzzy } = validatedArgs;
 
   const maxResults = Math.min(Math.max(maxResultsInput || 5, 1), 20);
 
   const videoId = extractYouTubeID(videoIdOrUrl);
   if (!videoId) {
-    throw new Error(`Invalid YouTube video ID or URL: "${videoIdOrUrl}". Please provide a valid 11-character video ID or YouTube URL.`);
+    throw new TranscriptFetchError(
+      'INVALID_ID',
+      `Invalid YouTube video ID or URL: "${videoIdOrUrl}". Please provide a valid 11-character video ID or YouTube URL.`
+    );
   }
 
   const service = strapi.plugin('yt-transcript-strapi-plugin').service('service');
-  const transcript = await service.findTranscript(videoId);
+  const transcript = await service.findTranscript(videoId, language);
 
   if (!transcript) {
+    const languagesByVideo = language ? await service.getLanguagesByVideo([videoId]) : {};
+    const availableLanguages: string[] = languagesByVideo[videoId] || [];
+
+    if (availableLanguages.length > 0) {
+      return {
+        error: true,
+        message: `No "${language}" transcript found for video ID: ${videoId}. Available languages: ${availableLanguages.join(', ')}. Use fetchTranscript with languages: ["${language}"] to fetch it.`,
+        videoId,
+        availableLanguages,
+      };
+    }
+
     return {
       error: true,
       message: `No transcript found for video ID: ${videoId}. Use fetchTranscript to fetch it from YouTube first.`,
@@ -178,7 +137,7 @@ async function execute(args: unknown, strapi: Core.Strapi): Promise<unknown> {
     };
   }
 
-  const timecodes: TimecodeEntry[] = transcript.transcriptWithTimeCodes || [];
+  const timecodes: SearchTimecodeEntry[] = transcript.transcriptWithTimeCodes || [];
 
   if (timecodes.length === 0) {
     return {
@@ -188,9 +147,23 @@ async function execute(args: unknown, strapi: Core.Strapi): Promise<unknown> {
     };
   }
 
-  const segments = createSegments(timecodes, segmentSeconds * 1000);
+  // The query is analyzed like the transcript, with the analyzer of its language
+  const searchIndex = strapi.plugin('yt-transcript-strapi-plugin').service('search-index');
+  const analyzer: Analyzer = searchIndex.getAnalyzer(transcript.language);
+
+  let parsedQuery: ParsedSearchQuery;
+  try {
+    parsedQuery = parseSearchQuery(query, analyzer);
+  } catch (error) {
+    if (error instanceof SearchQueryError) {
+      return { error: true, message: error.message, query };
+    }
+    throw error;
+  }
+
+  const index: SearchIndexDocument = await searchIndex.getIndex(transcript);
 
-  if (segments.length === 0) {
+  if (index.segmentCount === 0) {
     return {
       error: true,
       message: 'Could not create searchable segments from transcript.',
@@ -198,53 +171,119 @@ async function execute(args: unknown, strapi: Core.Strapi): Promise<unknown> {
     };
   }
 
-  const queryTokens = tokenize(query);
+  const chapters: Chapter[] = transcript.chapters || [];
+  const scope = resolveScopeRange(parsedQuery.scope, chapters);
 
-  if (queryTokens.length === 0) {
+  if (!scope) {
     return {
       error: true,
-      message: 'Query is empty or contains only stop words.',
-      query,
+      message:
+        chapters.length > 0
+          ? `Chapter "${parsedQuery.scope.chapter}" not found. Chapters: ${chapters.map((c) => `${c.index}: ${c.title}`).join(', ')}`
+          : 'This video has no chapters, so chapter: cannot be used. Use time:START-END instead.',
+      videoId,
     };
   }
 
-  const vocabulary = new Set(queryTokens);
-  const idf = calculateIDF(segments, vocabulary);
-  const avgDocLength = segments.reduce((sum, seg) => sum + tokenize(seg.text).length, 0) / segments.length;
+  // Fuzzy matching expands single words to the transcript's terms that are a few typos away or sound alike
+  const expandedTerms: string[] = [];
+  if (fuzzy && parsedQuery.standaloneTerms.length > 0) {
+    const pluginConfig = await strapi.config.get('plugin::yt-transcript-strapi-plugin') as PluginConfig | undefined;
+    const maxDistance = Math.floor(pluginConfig?.searchFuzzyMaxDistance ?? 2);
+    const vocabulary: string[] = await searchIndex.getVocabulary(transcript.documentId);
+
+    parsedQuery.expansions = expandFuzzyTerms(
+      parsedQuery.standaloneTerms.map(({ term }) => term),
+      vocabulary,
+      maxDistance
+    );
+    for (const expansions of parsedQuery.expansions.values()) {
+      expandedTerms.push(...expansions.map((expansion) => expansion.term));
+    }
+  }
 
-  const scoredSegments: ScoredSegment[] = segments.map((segment) => ({
-    ...segment,
-    score: bm25Score(tokenize(segment.text), queryTokens, idf, avgDocLength),
-  }));
+  const postings: SearchPosting[] = await searchIndex.getPostings(
+    [...new Set([...parsedQuery.terms, ...expandedTerms])],
+    parsedQuery.prefixes,
+    transcript.documentId
+  );
 
-  const results = scoredSegments
-    .filter((seg) => seg.score > 0)
+  const results = scoreSegments(parsedQuery, index, postings)
+    .filter((seg) => seg.end > scope.startMs && seg.start < scope.endMs)
     .sort((a, b) => b.score - a.score)
     .slice(0, maxResults);
 
+  // Without a quoted phrase, the query's words in order are looked for as one
+  const matchPhrase = parsedQuery.phrases[0] ?? parsedQuery.terms;
+
+  // Expanded terms found in the results, as the captions spell them
+  const matchedTerms = new Set(results.flatMap((r) => r.matchedTerms));
+  const writtenForms = fuzzy
+    ? findWrittenForms(
+        results.flatMap((r) => timecodes.slice(r.firstEntry, r.firstEntry + r.entryCount)),
+        analyzer,
+        new Set(expandedTerms.filter((term) => matchedTerms.has(term)))
+      )
+    : new Map<string, string>();
+  const fuzzyMatches = parsedQuery.standaloneTerms.flatMap(({ term, word }) => {
+    const matches = (parsedQuery.expansions?.get(term) || []).filter((expansion) => matchedTerms.has(expansion.term));
+    if (matches.length === 0) return [];
+    return [
+      {
+        word,
+        matches: matches.map((expansion) => ({
+          word: writtenForms.get(expansion.term) ?? expansion.term,
+          distance: expansion.distance,
+          phonetic: expansion.phonetic,
+        })),
+      },
+    ];
+  });
+
   return {
     videoId: transcript.videoId,
     title: transcript.title,
+    language: transcript.language ?? null,
     query,
-    totalSegments: segments.length,
+    ...(hasScope(parsedQuery.scope)
+      ? {
+          scope: {
+            timeRange: `${formatTime(scope.startMs)} - ${scope.endMs === Infinity ? 'end' : formatTime(scope.endMs)}`,
+            chapter: scope.chapter ? { index: scope.chapter.index, title: scope.chapter.title } : null,
+          },
+        }
+      : {}),
+    ...(fuzzy ? { expandedTerms: fuzzyMatches } : {}),
+    totalSegments: index.segmentCount,
     matchingResults: results.length,
-    results: results.map((r) => ({
-      text: r.text,
-      startTime: r.startTime,
-      endTime: r.endTime,
-      timeRange: `${r.startFormatted} - ${r.endFormatted}`,
-      score: Math.round(r.score * 100) / 100,
-    })),
+    results: results.map((r) => {
+      const entries = timecodes.slice(r.firstEntry, r.firstEntry + r.entryCount);
+      const chapter = findChapterAt(chapters, r.start);
+      const match = findMatchTime(entries, analyzer, matchPhrase, r.matchedTerms);
+      return {
+        text: entries.map((entry) => entry.text).join(' '),
+        startTime: Math.floor(r.start / 1000),
+        endTime: Math.floor(r.end / 1000),
+        timeRange: `${formatTime(r.start)} - ${formatTime(r.end)}`,
+        matchTime: Math.floor((match?.ms ?? r.start) / 1000),
+        matchFormatted: formatTime(match?.ms ?? r.start),
+        wordTiming: match?.exact ?? false,
+        chapter: chapter ? { index: chapter.index, title: chapter.title } : null,
+        score: Math.round(r.score * 100) / 100,
+      };
+    }),
     usage: results.length > 0
-      ? `Use getTranscript with startTime: ${results[0].startTime} and endTime: ${results[0].endTime} to get full context for the top result.`
-      : 'No matches found. Try different keywords.',
+      ? `Use getTranscript with startTime: ${Math.floor(results[0].start / 1000)} and endTime: ${Math.floor(results[0].end / 1000)} to get full context for the top result.`
+      : fuzzy
+        ? 'No matches found. Try different keywords.'
+        : 'No matches found. Try different keywords, or fuzzy: true to also match misspelled words and names.',
   };
 }
 
 export const searchTranscriptTool: ToolDefinition = {
   name: 'searchTranscript',
   description:
-    'Search within a saved transcript using BM25 scoring. Returns the most relevant segments matching your query with timestamps. Use this to find specific content in long videos without loading the entire transcript.',
+    'Search within a saved transcript using BM25 scoring. Returns the most relevant segments matching your query with timestamps, the moment the match is spoken (to the word when the captions have word timing) and the chapter each one falls in. Queries support "quoted phrases", AND/OR/NOT, +required and -excluded words, prefix* wildcards, and time:5:00-12:00 or chapter:2 / chapter:"Title" to search part of the video. Set fuzzy: true to also match words a few typos away or that sound alike, useful for names that auto-generated captions misspell; the response lists these expandedTerms. Use this to find specific content in long videos without loading the entire transcript.',
   schema: SearchTranscriptSchema,
   execute,
   publicSafe: true,
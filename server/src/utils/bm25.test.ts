@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { standardAnalyzer } from '../analyzers';
+import { bm25TermScore, buildSearchIndex, createSearchSegments, idf, type SearchTimecodeEntry } from './bm25';
+
+function entry(startSeconds: number, text: string): SearchTimecodeEntry {
+  return { start: startSeconds * 1000, end: startSeconds * 1000 + 4000, duration: 4000, text };
+}
+
+const timecodes = [
+  entry(0, 'strapi plugins'),
+  entry(10, 'are written in typescript'),
+  entry(35, 'plugins plugins everywhere'),
+  entry(70, 'the end'),
+];
+
+describe('idf', () => {
+  it('is higher for rarer terms and never negative', () => {
+    expect(idf(100, 1)).toBeGreaterThan(idf(100, 50));
+    expect(idf(100, 100)).toBeGreaterThan(0);
+  });
+});
+
+describe('bm25TermScore', () => {
+  it('is zero for a missing term', () => {
+    expect(bm25TermScore(0, 1, 10, 10)).toBe(0);
+  });
+
+  it('grows with term frequency, with diminishing returns', () => {
+    const once = bm25TermScore(1, 1, 10, 10);
+    const twice = bm25TermScore(2, 1, 10, 10);
+    const thrice = bm25TermScore(3, 1, 10, 10);
+
+    expect(twice).toBeGreaterThan(once);
+    expect(thrice - twice).toBeLessThan(twice - once);
+  });
+
+  it('favours shorter documents', () => {
+    expect(bm25TermScore(1, 1, 5, 10)).toBeGreaterThan(bm25TermScore(1, 1, 20, 10));
+  });
+
+  it('matches the BM25 formula', () => {
+    // idf * tf * (k1 + 1) / (tf + k1 * (1 - b + b * dl / avgdl)) with k1 = 1.5, b = 0.75
+    expect(bm25TermScore(2, 1.2, 20, 10)).toBeCloseTo((1.2 * 2 * 2.5) / (2 + 1.5 * (0.25 + 0.75 * 2)), 10);
+  });
+});
+
+describe('createSearchSegments', () => {
+  it('groups entries starting within the segment duration of the first one', () => {
+    const segments = createSearchSegments(timecodes, 30_000);
+
+    expect(segments.map((segment) => [segment.start, segment.end, segment.text])).toEqual([
+      [0, 14_000, 'strapi plugins are written in typescript'],
+      [35_000, 39_000, 'plugins plugins everywhere'],
+      [70_000, 74_000, 'the end'],
+    ]);
+    expect(segments[0].entries).toHaveLength(2);
+  });
+
+  it('returns no segments without timecodes', () => {
+    expect(createSearchSegments([], 30_000)).toEqual([]);
+  });
+});
+
+describe('buildSearchIndex', () => {
+  it('records segment lengths, entry offsets and term positions', () => {
+    const index = buildSearchIndex(timecodes, 30_000, standardAnalyzer);
+
+    expect(index.segments).toEqual([
+      { start: 0, end: 14_000, length: 6, firstEntry: 0, entryCount: 2 },
+      { start: 35_000, end: 39_000, length: 3, firstEntry: 2, entryCount: 1 },
+      { start: 70_000, end: 74_000, length: 2, firstEntry: 3, entryCount: 1 },
+    ]);
+    expect(index.tokenCount).toBe(11);
+    expect(index.postings.get('plugins')).toEqual([
+      [0, [1]],
+      [1, [0, 1]],
+    ]);
+    expect(index.postings.get('the')).toEqual([[2, [0]]]);
+  });
+
+  it('leaves out overly long tokens but keeps them in the segment length', () => {
+    const hash = 'a'.repeat(101);
+    const index = buildSearchIndex([entry(0, `commit ${hash}`)], 30_000, standardAnalyzer);
+
+    expect(index.postings.has(hash)).toBe(false);
+    expect(index.segments[0].length).toBe(2);
+  });
+});
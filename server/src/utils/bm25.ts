@@ -0,0 +1,153 @@
+/**
+ * BM25 building blocks shared by transcript and library search: fixed-duration
+ * search segments, the inverted index and the scoring function.
+ */
+
+import type { Analyzer } from '../analyzers';
+
+export interface SearchTimecodeEntry {
+  start: number;
+  end: number;
+  text: string;
+  duration?: number;
+  words?: Array<{ text: string; start: number }>;
+}
+
+export interface SearchSegment {
+  text: string;
+  start: number; // ms
+  end: number; // ms
+  entries: SearchTimecodeEntry[];
+}
+
+// Segment and token counts of a search segment, stored in the search index
+export interface IndexedSegment {
+  start: number; // ms
+  end: number; // ms
+  length: number; // tokens
+  firstEntry: number; // index of the first transcriptWithTimeCodes entry
+  entryCount: number;
+}
+
+// A segment containing a term, with the positions of the term among the segment's tokens
+export type Posting = [segment: number, positions: number[]];
+
+export interface SearchIndexData {
+  segments: IndexedSegment[];
+  tokenCount: number;
+  postings: Map<string, Posting[]>;
+}
+
+export const BM25_K1 = 1.5;
+export const BM25_B = 0.75;
+
+/**
+ * Inverse document frequency of a term found in docsWithTerm of totalDocs documents
+ */
+export function idf(totalDocs: number, docsWithTerm: number): number {
+  return Math.log((totalDocs - docsWithTerm + 0.5) / (docsWithTerm + 0.5) + 1);
+}
+
+/**
+ * BM25 contribution of one term to a document's score
+ */
+export function bm25TermScore(
+  termFreq: number,
+  termIdf: number,
+  docLength: number,
+  avgDocLength: number,
+  k1 = BM25_K1,
+  b = BM25_B
+): number {
+  if (termFreq <= 0) return 0;
+  const numerator = termFreq * (k1 + 1);
+  const denominator = termFreq + k1 * (1 - b + b * (docLength / (avgDocLength || 1)));
+  return termIdf * (numerator / denominator);
+}
+
+/**
+ * Split transcript timecodes into segments of the given duration. A segment starts at
+ * its first entry and takes every entry that starts within segmentDurationMs of it.
+ */
+export function createSearchSegments(
+  timecodes: SearchTimecodeEntry[],
+  segmentDurationMs: number
+): SearchSegment[] {
+  if (!timecodes || timecodes.length === 0) return [];
+
+  const segments: SearchSegment[] = [];
+  let current: SearchTimecodeEntry[] = [];
+  let segmentStart = timecodes[0].start;
+
+  const close = () => {
+    const last = current[current.length - 1];
+    segments.push({
+      text: current.map((entry) => entry.text).join(' '),
+      start: segmentStart,
+      end: last.end || last.start + (last.duration || 0),
+      entries: current,
+    });
+  };
+
+  for (const entry of timecodes) {
+    if (entry.start < segmentStart + segmentDurationMs) {
+      current.push(entry);
+    } else {
+      if (current.length > 0) close();
+      segmentStart = entry.start;
+      current = [entry];
+    }
+  }
+
+  if (current.length > 0) close();
+
+  return segments;
+}
+
+// Longer tokens (e.g. pasted hashes) are left out of the index
+const MAX_TERM_LENGTH = 100;
+
+/**
+ * Build the inverted index of a transcript: its search segments and, for every term,
+ * the segments that contain it and where (for phrase queries). Stop words are indexed
+ * too, so quoted phrases can contain them.
+ */
+export function buildSearchIndex(
+  timecodes: SearchTimecodeEntry[],
+  segmentDurationMs: number,
+  analyzer: Analyzer
+): SearchIndexData {
+  const segments: IndexedSegment[] = [];
+  const postings = new Map<string, Posting[]>();
+  let tokenCount = 0;
+  let firstEntry = 0;
+
+  createSearchSegments(timecodes, segmentDurationMs).forEach((segment, index) => {
+    const tokens = analyzer.analyze(segment.text);
+    const positions = new Map<string, number[]>();
+    tokens.forEach(({ term }, position) => {
+      if (term.length > MAX_TERM_LENGTH) return;
+      const list = positions.get(term);
+      if (list) list.push(position);
+      else positions.set(term, [position]);
+    });
+
+    for (const [term, termPositions] of positions) {
+      const list = postings.get(term);
+      if (list) list.push([index, termPositions]);
+      else postings.set(term, [[index, termPositions]]);
+    }
+
+    segments.push({
+      start: segment.start,
+      end: segment.end,
+      length: tokens.length,
+      firstEntry,
+      entryCount: segment.entries.length,
+    });
+    tokenCount += tokens.length;
+    firstEntry += segment.entries.length;
+  });
+
+  return { segments, tokenCount, postings };
+}
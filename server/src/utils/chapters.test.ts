@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { findChapterAt, findChapterByTitle, parseChaptersFromDescription } from './chapters';
+
+const DESCRIPTION = `In this video we build a plugin.
+
+Chapters:
+0:00 Intro
+(1:30) - Setting up
+- 12:05 | Writing the service
+Deploying — 1:02:03
+
+Thanks for watching!`;
+
+describe('parseChaptersFromDescription', () => {
+  it('parses leading and trailing timestamps in brackets, bullets and separators', () => {
+    expect(parseChaptersFromDescription(DESCRIPTION, 4_000_000)).toEqual([
+      { index: 0, title: 'Intro', start: 0, end: 90_000 },
+      { index: 1, title: 'Setting up', start: 90_000, end: 725_000 },
+      { index: 2, title: 'Writing the service', start: 725_000, end: 3_723_000 },
+      { index: 3, title: 'Deploying', start: 3_723_000, end: 4_000_000 },
+    ]);
+  });
+
+  it('ends the last chapter at its start when the duration is unknown', () => {
+    const chapters = parseChaptersFromDescription('0:00 A\n1:00 B\n2:00 C');
+    expect(chapters[2]).toEqual({ index: 2, title: 'C', start: 120_000, end: 120_000 });
+  });
+
+  it('requires a list that starts at 0:00', () => {
+    expect(parseChaptersFromDescription('0:10 A\n1:00 B\n2:00 C')).toEqual([]);
+  });
+
+  it('requires at least three timestamps', () => {
+    expect(parseChaptersFromDescription('0:00 A\n1:00 B')).toEqual([]);
+  });
+
+  it('ignores timestamps mentioned before the chapter list', () => {
+    const description = 'Demo: 5:00\nRecap: 7:30\n\n0:00 Intro\n5:00 Demo\n7:30 Recap';
+    expect(parseChaptersFromDescription(description).map((chapter) => chapter.title)).toEqual([
+      'Intro',
+      'Demo',
+      'Recap',
+    ]);
+  });
+
+  it('stops at a timestamp that goes backwards after a complete list', () => {
+    const description = '0:00 Intro\n1:00 Middle\n2:00 End\n\nBonus clip at 0:30 here';
+    expect(parseChaptersFromDescription(description)).toHaveLength(3);
+  });
+
+  it('returns no chapters without a description', () => {
+    expect(parseChaptersFromDescription(undefined)).toEqual([]);
+  });
+});
+
+describe('findChapterAt', () => {
+  const chapters = parseChaptersFromDescription(DESCRIPTION, 4_000_000);
+
+  it('finds the chapter containing a time', () => {
+    expect(findChapterAt(chapters, 90_000)?.title).toBe('Setting up');
+    expect(findChapterAt(chapters, 3_999_999)?.title).toBe('Deploying');
+  });
+
+  it('returns undefined without chapters', () => {
+    expect(findChapterAt(null, 0)).toBeUndefined();
+    expect(findChapterAt([], 0)).toBeUndefined();
+  });
+});
+
+describe('findChapterByTitle', () => {
+  const chapters = parseChaptersFromDescription('0:00 Setup\n1:00 Setup tests\n2:00 Deploy', 180_000);
+
+  it('prefers an exact case-insensitive match', () => {
+    expect(findChapterByTitle(chapters, ' setup ')?.index).toBe(0);
+  });
+
+  it('falls back to a partial match', () => {
+    expect(findChapterByTitle(chapters, 'TESTS')?.index).toBe(1);
+    expect(findChapterByTitle(chapters, 'missing')).toBeUndefined();
+  });
+});
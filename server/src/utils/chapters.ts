@@ -0,0 +1,91 @@
+export interface Chapter {
+  index: number;
+  title: string;
+  start: number; // ms
+  end: number; // ms
+}
+
+// "0:00", "03:12", "1:02:03", optionally wrapped in brackets or parentheses
+const TIMESTAMP_PATTERN = '[\\[(]?((?:\\d{1,2}:)?\\d{1,2}:\\d{2})[\\])]?';
+const SEPARATOR_PATTERN = '[\\s\\-–—:|.)]*';
+
+const LEADING_TIMESTAMP = new RegExp(`^\\s*(?:[-•*]\\s*)?${TIMESTAMP_PATTERN}${SEPARATOR_PATTERN}(.+?)\\s*$`);
+const TRAILING_TIMESTAMP = new RegExp(`^\\s*(?:[-•*]\\s*)?(.+?)[\\s\\-–—:|]+${TIMESTAMP_PATTERN}\\s*$`);
+
+/**
+ * Parse "h:mm:ss" or "m:ss" into milliseconds
+ */
+function parseTimestamp(value: string): number {
+  return value
+    .split(':')
+    .reduce((total, part) => total * 60 + parseInt(part, 10), 0) * 1000;
+}
+
+/**
+ * Parse chapters from a video description. YouTube only treats a list as chapters when
+ * the first timestamp is 0:00 and there are at least three of them in ascending order,
+ * so the same rules are applied here to skip descriptions that merely mention a time.
+ * @param durationMs - Video duration, used as the end of the last chapter
+ */
+export function parseChaptersFromDescription(description: string | undefined, durationMs = 0): Chapter[] {
+  if (!description) return [];
+
+  const markers: { title: string; start: number }[] = [];
+
+  for (const line of description.split(/\r?\n/)) {
+    const leading = LEADING_TIMESTAMP.exec(line);
+    const trailing = leading ? null : TRAILING_TIMESTAMP.exec(line);
+    const timestamp = leading ? leading[1] : trailing?.[2];
+    const title = (leading ? leading[2] : trailing?.[1])?.trim();
+
+    if (!timestamp || !title) continue;
+
+    const start = parseTimestamp(timestamp);
+    const previous = markers[markers.length - 1];
+
+    // A timestamp that goes backwards ends the chapter list, or starts a new one
+    // when the earlier timestamps were only mentions in the text
+    if (previous && start <= previous.start) {
+      if (markers.length >= 3) break;
+      markers.length = 0;
+    }
+
+    markers.push({ title, start });
+  }
+
+  if (markers.length < 3 || markers[0].start !== 0) {
+    return [];
+  }
+
+  return markers.map((marker, index) => ({
+    index,
+    title: marker.title,
+    start: marker.start,
+    end: index < markers.length - 1 ? markers[index + 1].start : Math.max(durationMs, marker.start),
+  }));
+}
+
+/**
+ * Find the chapter that contains a point in time
+ */
+export function findChapterAt(chapters: Chapter[] | null | undefined, ms: number): Chapter | undefined {
+  if (!chapters || chapters.length === 0) return undefined;
+
+  for (let i = chapters.length - 1; i >= 0; i--) {
+    if (ms >= chapters[i].start) return chapters[i];
+  }
+  return chapters[0];
+}
+
+/**
+ * Find a chapter by title: an exact (case-insensitive) match wins over a partial match
+ */
+export function findChapterByTitle(chapters: Chapter[] | null | undefined, title: string): Chapter | undefined {
+  if (!chapters || chapters.length === 0) return undefined;
+
+  const needle = title.trim().toLowerCase();
+  return (
+    chapters.find((chapter) => chapter.title.toLowerCase() === needle) ||
+    chapters.find((chapter) => chapter.title.toLowerCase().includes(needle))
+  );
+}
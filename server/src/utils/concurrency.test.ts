@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { createKeyedLock } from './concurrency';
+
+function deferred() {
+  let resolve!: () => void;
+  const promise = new Promise<void>((done) => (resolve = done));
+  return { promise, resolve };
+}
+
+describe('createKeyedLock', () => {
+  it('runs tasks with the same key one after another', async () => {
+    const withLock = createKeyedLock();
+    const gate = deferred();
+    const events: string[] = [];
+
+    const first = withLock('a', async () => {
+      events.push('first start');
+      await gate.promise;
+      events.push('first end');
+      return 1;
+    });
+    const second = withLock('a', async () => {
+      events.push('second');
+      return 2;
+    });
+
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(events).toEqual(['first start']);
+
+    gate.resolve();
+    expect(await Promise.all([first, second])).toEqual([1, 2]);
+    expect(events).toEqual(['first start', 'first end', 'second']);
+  });
+
+  it('runs tasks with different keys concurrently', async () => {
+    const withLock = createKeyedLock();
+    const gate = deferred();
+    const events: string[] = [];
+
+    const blocked = withLock('a', async () => {
+      await gate.promise;
+      events.push('a');
+    });
+    await withLock('b', async () => {
+      events.push('b');
+    });
+
+    expect(events).toEqual(['b']);
+    gate.resolve();
+    await blocked;
+    expect(events).toEqual(['b', 'a']);
+  });
+
+  it('runs the next task after a failing one', async () => {
+    const withLock = createKeyedLock();
+
+    const failing = withLock('a', async () => {
+      throw new Error('save failed');
+    });
+    const next = withLock('a', async () => 'saved');
+
+    await expect(failing).rejects.toThrow('save failed');
+    await expect(next).resolves.toBe('saved');
+  });
+});
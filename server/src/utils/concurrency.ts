@@ -0,0 +1,47 @@
+/**
+ * Map over items with at most `concurrency` tasks running at once.
+ * Results keep the order of the input.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  task: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await task(items[index], index);
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(concurrency, items.length));
+  await Promise.all(Array.from({ length: workerCount }, () => worker()));
+
+  return results;
+}
+
+/**
+ * Create a lock that runs tasks with the same key one after another, in call order.
+ * Tasks with different keys run concurrently; a failing task does not block the next one.
+ */
+export function createKeyedLock() {
+  const tails = new Map<string, Promise<unknown>>();
+
+  return async function withLock<T>(key: string, task: () => Promise<T>): Promise<T> {
+    const previous = tails.get(key) ?? Promise.resolve();
+    const run = previous.then(task);
+    const tail = run.catch(() => undefined);
+    tails.set(key, tail);
+
+    try {
+      return await run;
+    } finally {
+      if (tails.get(key) === tail) {
+        tails.delete(key);
+      }
+    }
+  };
+}
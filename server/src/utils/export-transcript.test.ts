@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import { exportTranscript, mergeEntries } from './export-transcript';
+import { parseCaptionFile } from './parse-captions';
+import type { TimecodeEntry } from './time-range';
+
+function entry(start: number, end: number, text: string): TimecodeEntry {
+  return { start, end, duration: end - start, text };
+}
+
+const transcript = {
+  videoId: 'dQw4w9WgXcQ',
+  title: 'Example Video',
+  language: 'en',
+  transcriptWithTimeCodes: [
+    entry(1000, 2500, 'Hello  there'),
+    entry(3_723_004, 3_725_000, 'an hour later'),
+    entry(3000, 3500, '   '),
+  ],
+};
+
+describe('exportTranscript', () => {
+  it('renders SRT with numbered cues and comma milliseconds', () => {
+    const result = exportTranscript(transcript, { format: 'srt' });
+
+    expect(result.content).toBe(
+      '1\n00:00:01,000 --> 00:00:02,500\nHello there\n\n' +
+        '2\n01:02:03,004 --> 01:02:05,000\nan hour later\n'
+    );
+    expect(result.fileName).toBe('dQw4w9WgXcQ.en.srt');
+    expect(result.segmentCount).toBe(2);
+  });
+
+  it('renders WebVTT with a Language header', () => {
+    const result = exportTranscript(transcript, { format: 'vtt' });
+
+    expect(result.content).toBe(
+      'WEBVTT\nLanguage: en\n\n' +
+        '00:00:01.000 --> 00:00:02.500\nHello there\n\n' +
+        '01:02:03.004 --> 01:02:05.000\nan hour later\n'
+    );
+    expect(result.contentType).toBe('text/vtt; charset=utf-8');
+  });
+
+  it('renders timestamped text and Markdown sections', () => {
+    expect(exportTranscript(transcript, { format: 'txt' }).content).toBe(
+      '[00:01] Hello there\n[1:02:03] an hour later\n'
+    );
+    expect(exportTranscript(transcript, { format: 'md', maxLineLength: 10 }).content).toBe(
+      '# Example Video\n\n## [00:01]\n\nHello there\n\n## [1:02:03]\n\nan hour later\n'
+    );
+  });
+
+  it('renders normalized JSON', () => {
+    expect(exportTranscript(transcript, { format: 'json' }).content).toEqual({
+      videoId: 'dQw4w9WgXcQ',
+      title: 'Example Video',
+      language: 'en',
+      segments: [
+        { start: 1000, end: 2500, duration: 1500, text: 'Hello there' },
+        { start: 3_723_004, end: 3_725_000, duration: 1996, text: 'an hour later' },
+      ],
+    });
+  });
+
+  it('limits the export to a time range in seconds', () => {
+    const result = exportTranscript(transcript, { format: 'txt', startTime: 60 });
+    expect(result.content).toBe('[1:02:03] an hour later\n');
+  });
+
+  it('round-trips through the caption parser', () => {
+    for (const format of ['srt', 'vtt'] as const) {
+      const content = exportTranscript(transcript, { format }).content as string;
+      expect(parseCaptionFile(content, format)).toEqual([
+        entry(1000, 2500, 'Hello there'),
+        entry(3_723_004, 3_725_000, 'an hour later'),
+      ]);
+    }
+  });
+});
+
+describe('mergeEntries', () => {
+  it('merges short consecutive entries up to the line length', () => {
+    const merged = mergeEntries([entry(0, 1000, 'one'), entry(1000, 2000, 'two'), entry(2000, 3000, 'three')], 7);
+
+    expect(merged).toEqual([entry(0, 2000, 'one two'), entry(2000, 3000, 'three')]);
+  });
+
+  it('does not merge across a long pause', () => {
+    const merged = mergeEntries([entry(0, 1000, 'one'), entry(7000, 8000, 'two')], 100);
+    expect(merged).toHaveLength(2);
+  });
+
+  it('does not modify the input entries', () => {
+    const input = [entry(0, 1000, 'one'), entry(1000, 2000, 'two')];
+    mergeEntries(input, 100);
+    expect(input[0]).toEqual(entry(0, 1000, 'one'));
+  });
+});
@@ -0,0 +1,201 @@
+import { getTranscriptForTimeRange, type TimecodeEntry } from './time-range';
+
+export type ExportFormat = 'srt' | 'vtt' | 'txt' | 'md' | 'json';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['srt', 'vtt', 'txt', 'md', 'json'];
+
+// Smallest maxLineLength accepted by the REST route and export_transcript
+export const MIN_LINE_LENGTH = 20;
+
+export interface ExportOptions {
+  format: ExportFormat;
+  startTime?: number; // seconds
+  endTime?: number; // seconds
+  maxLineLength?: number;
+}
+
+export interface ExportableTranscript {
+  videoId: string;
+  title?: string;
+  language?: string;
+  transcriptWithTimeCodes?: TimecodeEntry[];
+}
+
+export interface ExportResult {
+  format: ExportFormat;
+  contentType: string;
+  fileName: string;
+  segmentCount: number;
+  content: string | Record<string, unknown>;
+}
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  srt: 'application/x-subrip; charset=utf-8',
+  vtt: 'text/vtt; charset=utf-8',
+  txt: 'text/plain; charset=utf-8',
+  md: 'text/markdown; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+};
+
+// Captions separated by a longer pause are never merged into one cue
+const MAX_MERGE_GAP_MS = 5000;
+
+// Markdown sections are unreadable one caption line at a time, so merge by default
+const DEFAULT_MARKDOWN_LINE_LENGTH = 500;
+
+function pad(value: number, length = 2): string {
+  return value.toString().padStart(length, '0');
+}
+
+/**
+ * Format milliseconds as a caption timestamp: HH:MM:SS,mmm (SRT) or HH:MM:SS.mmm (WebVTT)
+ */
+function formatCueTime(ms: number, separator: ',' | '.'): string {
+  const totalSeconds = Math.floor(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${separator}${pad(Math.floor(ms % 1000), 3)}`;
+}
+
+/**
+ * Format milliseconds as [mm:ss], or [h:mm:ss] past the first hour
+ */
+function formatLabel(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+
+  if (hours > 0) {
+    return `[${hours}:${pad(minutes)}:${pad(seconds)}]`;
+  }
+  return `[${pad(minutes)}:${pad(seconds)}]`;
+}
+
+function getEntryEnd(entry: TimecodeEntry): number {
+  return entry.end || entry.start + (entry.duration || 0);
+}
+
+/**
+ * Normalize whitespace, drop empty entries and sort by start time
+ */
+function normalizeEntries(entries: TimecodeEntry[]): TimecodeEntry[] {
+  return entries
+    .map((entry) => ({ ...entry, text: (entry.text || '').replace(/\s+/g, ' ').trim() }))
+    .filter((entry) => entry.text.length > 0)
+    .sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Merge consecutive entries while the combined text stays within maxLineLength
+ * and there is no long pause between them. Entries that are already longer than
+ * the limit are kept as they are.
+ */
+export function mergeEntries(entries: TimecodeEntry[], maxLineLength: number): TimecodeEntry[] {
+  const merged: TimecodeEntry[] = [];
+
+  for (const entry of entries) {
+    const previous = merged[merged.length - 1];
+
+    if (
+      previous &&
+      previous.text.length + 1 + entry.text.length <= maxLineLength &&
+      entry.start - getEntryEnd(previous) <= MAX_MERGE_GAP_MS
+    ) {
+      const end = Math.max(getEntryEnd(previous), getEntryEnd(entry));
+      previous.text = `${previous.text} ${entry.text}`;
+      previous.end = end;
+      previous.duration = end - previous.start;
+    } else {
+      merged.push({ ...entry, end: getEntryEnd(entry), duration: getEntryEnd(entry) - entry.start });
+    }
+  }
+
+  return merged;
+}
+
+function renderSrt(entries: TimecodeEntry[]): string {
+  return entries
+    .map(
+      (entry, index) =>
+        `${index + 1}\n${formatCueTime(entry.start, ',')} --> ${formatCueTime(getEntryEnd(entry), ',')}\n${entry.text}\n`
+    )
+    .join('\n');
+}
+
+function renderVtt(entries: TimecodeEntry[], language?: string): string {
+  const header = language ? `WEBVTT\nLanguage: ${language}\n` : 'WEBVTT\n';
+  const cues = entries.map(
+    (entry) => `${formatCueTime(entry.start, '.')} --> ${formatCueTime(getEntryEnd(entry), '.')}\n${entry.text}\n`
+  );
+  return [header, ...cues].join('\n');
+}
+
+function renderText(entries: TimecodeEntry[]): string {
+  return entries.map((entry) => `${formatLabel(entry.start)} ${entry.text}`).join('\n') + '\n';
+}
+
+function renderMarkdown(entries: TimecodeEntry[], transcript: ExportableTranscript): string {
+  const title = `# ${transcript.title || transcript.videoId}\n`;
+  const sections = entries.map((entry) => `## ${formatLabel(entry.start)}\n\n${entry.text}\n`);
+  return [title, ...sections].join('\n');
+}
+
+/**
+ * Render a stored transcript as SRT, WebVTT, timestamped text, Markdown or normalized JSON
+ */
+export function exportTranscript(transcript: ExportableTranscript, options: ExportOptions): ExportResult {
+  const { format, startTime, endTime } = options;
+  let entries = transcript.transcriptWithTimeCodes || [];
+
+  if (startTime !== undefined || endTime !== undefined) {
+    const startMs = (startTime || 0) * 1000;
+    const endMs = endTime !== undefined ? endTime * 1000 : Infinity;
+    entries = getTranscriptForTimeRange(entries, startMs, endMs).entries;
+  }
+
+  entries = normalizeEntries(entries);
+
+  const maxLineLength = options.maxLineLength ?? (format === 'md' ? DEFAULT_MARKDOWN_LINE_LENGTH : undefined);
+  if (maxLineLength) {
+    entries = mergeEntries(entries, maxLineLength);
+  }
+
+  let content: ExportResult['content'];
+  switch (format) {
+    case 'srt':
+      content = renderSrt(entries);
+      break;
+    case 'vtt':
+      content = renderVtt(entries, transcript.language);
+      break;
+    case 'txt':
+      content = renderText(entries);
+      break;
+    case 'md':
+      content = renderMarkdown(entries, transcript);
+      break;
+    case 'json':
+      content = {
+        videoId: transcript.videoId,
+        title: transcript.title || null,
+        language: transcript.language || null,
+        segments: entries.map((entry) => ({
+          start: entry.start,
+          end: getEntryEnd(entry),
+          duration: getEntryEnd(entry) - entry.start,
+          text: entry.text,
+        })),
+      };
+      break;
+  }
+
+  return {
+    format,
+    contentType: CONTENT_TYPES[format],
+    fileName: `${transcript.videoId}${transcript.language ? `.${transcript.language}` : ''}.${format}`,
+    segmentCount: entries.length,
+    content,
+  };
+}
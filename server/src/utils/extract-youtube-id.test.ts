@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import {
+  extractChannelID,
+  extractPlaylistID,
+  extractYouTubeID,
+  parseTimestamp,
+  parseYouTubeURL,
+} from './extract-youtube-id';
+
+const ID = 'dQw4w9WgXcQ';
+
+describe('parseYouTubeURL', () => {
+  it.each([
+    ['a bare video ID', ID],
+    ['a watch link', `https://www.youtube.com/watch?v=${ID}`],
+    ['a watch link without the scheme', `youtube.com/watch?v=${ID}`],
+    ['a watch link with other parameters first', `https://www.youtube.com/watch?feature=share&v=${ID}`],
+    ['a short link', `https://youtu.be/${ID}`],
+    ['a Shorts link', `https://www.youtube.com/shorts/${ID}`],
+    ['an embed link', `https://www.youtube.com/embed/${ID}`],
+    ['a privacy-enhanced embed link', `https://www.youtube-nocookie.com/embed/${ID}`],
+    ['a live link', `https://www.youtube.com/live/${ID}?feature=share`],
+    ['a legacy /v/ link', `https://www.youtube.com/v/${ID}`],
+    ['a mobile link', `https://m.youtube.com/watch?v=${ID}`],
+    ['a YouTube Music link', `https://music.youtube.com/watch?v=${ID}`],
+    ['an upper-case host', `https://WWW.YOUTUBE.COM/watch?v=${ID}`],
+    ['surrounding whitespace', `  https://youtu.be/${ID}  `],
+  ])('reads the video ID from %s', (_, input) => {
+    expect(parseYouTubeURL(input)).toEqual({ videoId: ID, startSeconds: null, playlistId: null });
+  });
+
+  it.each([
+    ['t= in seconds', `https://youtu.be/${ID}?t=90`, 90],
+    ['t= with a seconds suffix', `https://www.youtube.com/watch?v=${ID}&t=90s`, 90],
+    ['t= in hours, minutes and seconds', `https://www.youtube.com/watch?v=${ID}&t=1h2m3s`, 3723],
+    ['start= on an embed link', `https://www.youtube.com/embed/${ID}?start=45`, 45],
+    ['t= in the fragment', `https://www.youtube.com/watch?v=${ID}#t=1m30s`, 90],
+  ])('reads the timestamp from %s', (_, input, startSeconds) => {
+    expect(parseYouTubeURL(input)?.startSeconds).toBe(startSeconds);
+  });
+
+  it('reads the playlist from list=', () => {
+    expect(parseYouTubeURL(`https://www.youtube.com/watch?v=${ID}&list=PLrAXtmErZgOeiKm4sgNOknGvNjby9efdf&t=10`)).toEqual({
+      videoId: ID,
+      startSeconds: 10,
+      playlistId: 'PLrAXtmErZgOeiKm4sgNOknGvNjby9efdf',
+    });
+  });
+
+  it.each([
+    ['an empty string', ''],
+    ['an ID of the wrong length', 'dQw4w9WgXc'],
+    ['another host', `https://vimeo.com/watch?v=${ID}`],
+    ['a look-alike host', `https://youtube.com.example.org/watch?v=${ID}`],
+    ['a watch link without v=', 'https://www.youtube.com/watch?list=PLrAXtmErZgOeiKm4sgNOknGvNjby9efdf'],
+    ['a channel link', 'https://www.youtube.com/@strapi'],
+    ['a malformed video ID', 'https://youtu.be/not-an-id!'],
+  ])('rejects %s', (_, input) => {
+    expect(parseYouTubeURL(input)).toBeNull();
+  });
+
+  it('ignores a playlist parameter with invalid characters', () => {
+    expect(parseYouTubeURL(`https://youtu.be/${ID}?list=PL<script>`)?.playlistId).toBeNull();
+  });
+});
+
+describe('parseTimestamp', () => {
+  it.each([
+    ['90', 90],
+    ['90s', 90],
+    ['90.7', 90],
+    ['1m30s', 90],
+    ['1h', 3600],
+    ['1h2m3s', 3723],
+    ['2M', 120],
+    ['1:30', 90],
+    ['1:02:03', 3723],
+  ])('parses %s as %i seconds', (value, seconds) => {
+    expect(parseTimestamp(value)).toBe(seconds);
+  });
+
+  it.each([[''], [null], [undefined], ['abc'], ['1:2'], ['-5']])('returns null for %s', (value) => {
+    expect(parseTimestamp(value)).toBeNull();
+  });
+});
+
+describe('extractYouTubeID', () => {
+  it('returns the video ID or null', () => {
+    expect(extractYouTubeID(`https://youtu.be/${ID}?t=5`)).toBe(ID);
+    expect(extractYouTubeID('https://example.com')).toBeNull();
+  });
+});
+
+describe('extractPlaylistID', () => {
+  it.each([
+    ['a playlist ID', 'PLrAXtmErZgOeiKm4sgNOknGvNjby9efdf', 'PLrAXtmErZgOeiKm4sgNOknGvNjby9efdf'],
+    ['a playlist link', 'https://www.youtube.com/playlist?list=PLrAXtmErZgOeiKm4sgNOknGvNjby9efdf', 'PLrAXtmErZgOeiKm4sgNOknGvNjby9efdf'],
+    ['a watch link in a playlist', `https://www.youtube.com/watch?v=${ID}&list=OLAK5uy_kx1f`, 'OLAK5uy_kx1f'],
+    ['a video ID', ID, null],
+    ['a link without list=', `https://youtu.be/${ID}`, null],
+  ])('handles %s', (_, input, playlistId) => {
+    expect(extractPlaylistID(input)).toBe(playlistId);
+  });
+});
+
+describe('extractChannelID', () => {
+  const CHANNEL = 'UC_x5XG1OV2P6uZZ5FSM9Ttw';
+
+  it.each([
+    ['a channel ID', CHANNEL, CHANNEL],
+    ['a channel link', `https://www.youtube.com/channel/${CHANNEL}/videos`, CHANNEL],
+    ['a handle link', 'https://www.youtube.com/@GoogleDevelopers', null],
+    ['a channel ID of the wrong length', 'UC_x5XG1OV2P6uZZ5FSM9Tt', null],
+  ])('handles %s', (_, input, channelId) => {
+    expect(extractChannelID(input)).toBe(channelId);
+  });
+});
@@ -1,30 +1,135 @@
-export function extractYouTubeID(urlOrID: string): string | null {
-  // Regular expression for YouTube ID format
-  const regExpID = /^[a-zA-Z0-9_-]{11}$/;
+export interface ParsedYouTubeURL {
+  videoId: string;
+  startSeconds: number | null;
+  playlistId: string | null;
+}
+
+const VIDEO_ID_REGEX = /^[a-zA-Z0-9_-]{11}$/;
+
+// youtube.com (www, mobile and YouTube Music), the privacy-enhanced embed domain and the short link domain
+const YOUTUBE_HOST_REGEX = /^(?:(?:www\.|m\.|music\.)?youtube\.com|(?:www\.)?youtube-nocookie\.com|youtu\.be)$/i;
+
+// Path prefixes followed by the video ID: /shorts/ID, /embed/ID, /live/ID and the legacy /v/ID and /e/ID
+const VIDEO_PATH_PREFIXES = ['shorts', 'embed', 'live', 'v', 'e'];
+
+/**
+ * Parse a timestamp parameter: seconds ("90", "90s"), units ("1h2m3s", "1m30s") or a clock ("1:30", "1:02:03")
+ */
+export function parseTimestamp(value: string | null | undefined): number | null {
+  if (!value) return null;
+  const trimmed = value.trim().toLowerCase();
+
+  const seconds = trimmed.match(/^(\d+(?:\.\d+)?)s?$/);
+  if (seconds) {
+    return Math.floor(parseFloat(seconds[1]));
+  }
+
+  const units = trimmed.match(/^(?:(\d+)h)?(?:(\d+)m)?(?:(\d+)s)?$/);
+  if (units && (units[1] || units[2] || units[3])) {
+    return Number(units[1] || 0) * 3600 + Number(units[2] || 0) * 60 + Number(units[3] || 0);
+  }
+
+  const clock = trimmed.match(/^(?:(\d+):)?(\d{1,2}):(\d{2})$/);
+  if (clock) {
+    return Number(clock[1] || 0) * 3600 + Number(clock[2]) * 60 + Number(clock[3]);
+  }
+
+  return null;
+}
+
+/**
+ * Parse a YouTube video ID or URL into its video ID, start timestamp and playlist.
+ * Accepts watch, Shorts, embed, live and youtu.be links on youtube.com, m.youtube.com,
+ * music.youtube.com and youtube-nocookie.com, with or without the scheme.
+ * The timestamp is read from t= or start= (query or #fragment), the playlist from list=.
+ */
+export function parseYouTubeURL(urlOrID: string): ParsedYouTubeURL | null {
+  const input = (urlOrID || '').trim();
 
   // Check if the input is a YouTube ID
+  if (VIDEO_ID_REGEX.test(input)) {
+    return { videoId: input, startSeconds: null, playlistId: null };
+  }
+
+  let url: URL;
+  try {
+    url = new URL(/^[a-z][a-z0-9+.-]*:\/\//i.test(input) ? input : `https://${input}`);
+  } catch {
+    return null;
+  }
+
+  if (!YOUTUBE_HOST_REGEX.test(url.hostname)) {
+    return null;
+  }
+
+  const segments = url.pathname.split('/').filter(Boolean);
+  let videoId: string | null = null;
+
+  if (url.hostname.toLowerCase() === 'youtu.be') {
+    videoId = segments[0] || null;
+  } else if (segments[0] === 'watch') {
+    videoId = url.searchParams.get('v');
+  } else if (segments.length >= 2 && VIDEO_PATH_PREFIXES.includes(segments[0])) {
+    videoId = segments[1];
+  }
+
+  if (!videoId || !VIDEO_ID_REGEX.test(videoId)) {
+    return null;
+  }
+
+  // Share links put the timestamp in the query (?t=90), older links in the fragment (#t=1m30s)
+  const fragment = new URLSearchParams(url.hash.replace(/^#/, ''));
+  const timestamp =
+    url.searchParams.get('t') ?? url.searchParams.get('start') ?? fragment.get('t') ?? fragment.get('start');
+  const playlistId = url.searchParams.get('list');
+
+  return {
+    videoId,
+    startSeconds: parseTimestamp(timestamp),
+    playlistId: playlistId && /^[a-zA-Z0-9_-]+$/.test(playlistId) ? playlistId : null,
+  };
+}
+
+export function extractYouTubeID(urlOrID: string): string | null {
+  return parseYouTubeURL(urlOrID)?.videoId ?? null;
+}
+
+export function extractPlaylistID(urlOrID: string): string | null {
+  // Playlist IDs (PL..., UU..., OLAK5uy_..., RD...) are longer than video IDs
+  const regExpID = /^[a-zA-Z0-9_-]{12,64}$/;
+
   if (regExpID.test(urlOrID)) {
     return urlOrID;
   }
 
-  // Regular expression for standard YouTube links
-  const regExpStandard = /youtube\.com\/watch\?v=([a-zA-Z0-9_-]+)/;
+  // Regular expression for the list parameter of playlist and watch links
+  const regExpList = /[?&]list=([a-zA-Z0-9_-]+)/;
+
+  const matchList = urlOrID.match(regExpList);
+  if (matchList) {
+    return matchList[1];
+  }
 
-  // Regular expression for YouTube Shorts links
-  const regExpShorts = /youtube\.com\/shorts\/([a-zA-Z0-9_-]+)/;
+  // Return null if no match is found
+  return null;
+}
 
-  // Check for standard YouTube link
-  const matchStandard = urlOrID.match(regExpStandard);
-  if (matchStandard) {
-    return matchStandard[1];
+export function extractChannelID(urlOrID: string): string | null {
+  // Channel IDs are "UC" followed by 22 characters
+  const regExpID = /^UC[a-zA-Z0-9_-]{22}$/;
+
+  if (regExpID.test(urlOrID)) {
+    return urlOrID;
   }
 
-  // Check for YouTube Shorts link
-  const matchShorts = urlOrID.match(regExpShorts);
-  if (matchShorts) {
-    return matchShorts[1];
+  // Regular expression for /channel/ links (handles like /@name need a lookup and are not supported)
+  const regExpChannel = /youtube\.com\/channel\/(UC[a-zA-Z0-9_-]{22})/;
+
+  const matchChannel = urlOrID.match(regExpChannel);
+  if (matchChannel) {
+    return matchChannel[1];
   }
 
   // Return null if no match is found
   return null;
-}
\ No newline at end of file
+}
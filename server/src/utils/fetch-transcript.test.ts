@@ -0,0 +1,249 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  DEFAULT_RETRY_POLICY,
+  getRetryDelayMs,
+  parseJson3,
+  parseSrv3Words,
+  parseTimedTextXml,
+  resolveRetryPolicy,
+  splitTimedRuns,
+  withRetry,
+  type FetchOptions,
+  type RetryPolicy,
+} from './fetch-transcript';
+import { TranscriptFetchError } from './transcript-fetch-error';
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('resolveRetryPolicy', () => {
+  it('returns the defaults without overrides', () => {
+    expect(resolveRetryPolicy()).toEqual(DEFAULT_RETRY_POLICY);
+  });
+
+  it('applies overrides and ignores unset values', () => {
+    expect(resolveRetryPolicy({ maxAttempts: 5, baseDelayMs: undefined })).toEqual({
+      ...DEFAULT_RETRY_POLICY,
+      maxAttempts: 5,
+    });
+  });
+});
+
+describe('getRetryDelayMs', () => {
+  const policy: RetryPolicy = { ...DEFAULT_RETRY_POLICY, baseDelayMs: 500, maxDelayMs: 3000, jitter: 0 };
+
+  it.each([
+    [1, 500],
+    [2, 1000],
+    [3, 2000],
+    [4, 3000],
+    [10, 3000],
+  ])('backs off exponentially up to maxDelayMs (attempt %i: %i ms)', (attempt, delayMs) => {
+    expect(getRetryDelayMs(policy, attempt)).toBe(delayMs);
+  });
+
+  it('spreads the delay by at most +/- jitter', () => {
+    const jittered = { ...policy, jitter: 0.5 };
+
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    expect(getRetryDelayMs(jittered, 2)).toBe(500);
+
+    vi.spyOn(Math, 'random').mockReturnValue(0.9999999);
+    expect(getRetryDelayMs(jittered, 2)).toBe(1500);
+
+    vi.spyOn(Math, 'random').mockReturnValue(0.5);
+    expect(getRetryDelayMs(jittered, 2)).toBe(1000);
+  });
+
+  it('never returns a negative delay', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    expect(getRetryDelayMs({ ...policy, jitter: 2 }, 1)).toBe(0);
+  });
+});
+
+describe('withRetry', () => {
+  const logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn() };
+  const options: FetchOptions = { logger, retry: { baseDelayMs: 0, maxAttempts: 3 } };
+
+  it('retries retryable errors until the task succeeds', async () => {
+    const task = vi
+      .fn<() => Promise<string>>()
+      .mockRejectedValueOnce(new TranscriptFetchError('NETWORK', 'socket hang up'))
+      .mockResolvedValueOnce('ok');
+
+    await expect(withRetry('player', 'video', task, options)).resolves.toBe('ok');
+    expect(task).toHaveBeenCalledTimes(2);
+  });
+
+  it('gives up after maxAttempts', async () => {
+    const task = vi.fn(async () => {
+      throw new TranscriptFetchError('NETWORK', 'socket hang up');
+    });
+
+    await expect(withRetry('player', 'video', task, options)).rejects.toMatchObject({ code: 'NETWORK' });
+    expect(task).toHaveBeenCalledTimes(3);
+  });
+
+  it('throws non-retryable errors after the first attempt', async () => {
+    const task = vi.fn(async () => {
+      throw new TranscriptFetchError('NO_CAPTIONS', 'No captions');
+    });
+
+    await expect(withRetry('player', 'video', task, options)).rejects.toMatchObject({ code: 'NO_CAPTIONS' });
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+
+  it('classifies 429 responses as IP_BLOCKED before deciding', async () => {
+    const task = vi.fn(async () => {
+      throw new Error('Request failed with status 429');
+    });
+
+    await expect(withRetry('timedtext', 'video', task, options)).rejects.toMatchObject({
+      code: 'IP_BLOCKED',
+      videoId: 'video',
+    });
+    expect(task).toHaveBeenCalledTimes(3);
+  });
+
+  it('only retries the codes in retryableErrors', async () => {
+    const task = vi.fn(async () => {
+      throw new Error('Request failed with status 429');
+    });
+
+    await expect(
+      withRetry('timedtext', 'video', task, { ...options, retry: { baseDelayMs: 0, retryableErrors: ['NETWORK'] } })
+    ).rejects.toMatchObject({ code: 'IP_BLOCKED' });
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+
+  it('rethrows unclassified errors unchanged', async () => {
+    const error = new Error('unexpected');
+
+    await expect(withRetry('player', 'video', async () => Promise.reject(error), options)).rejects.toBe(error);
+  });
+});
+
+describe('splitTimedRuns', () => {
+  it('spreads the words of a run evenly until the next run starts', () => {
+    expect(
+      splitTimedRuns(
+        [
+          { text: 'hello world', start: 1000 },
+          { text: 'again', start: 2000 },
+        ],
+        3000
+      )
+    ).toEqual([
+      { text: 'hello', start: 1000 },
+      { text: 'world', start: 1500 },
+      { text: 'again', start: 2000 },
+    ]);
+  });
+
+  it('gives every word the run start when the next run starts earlier', () => {
+    expect(
+      splitTimedRuns(
+        [
+          { text: 'a b', start: 2000 },
+          { text: 'c', start: 1000 },
+        ],
+        3000
+      )
+    ).toEqual([
+      { text: 'a', start: 2000 },
+      { text: 'b', start: 2000 },
+      { text: 'c', start: 1000 },
+    ]);
+  });
+});
+
+describe('parseJson3', () => {
+  it('reads word timing from tOffsetMs', () => {
+    const body = JSON.stringify({
+      events: [
+        {
+          tStartMs: 1000,
+          dDurationMs: 2000,
+          segs: [{ utf8: 'hello' }, { utf8: ' world', tOffsetMs: 400 }, { utf8: ' again', tOffsetMs: 1200 }],
+        },
+      ],
+    });
+
+    expect(parseJson3(body)).toEqual([
+      {
+        text: 'hello world again',
+        start: 1000,
+        end: 3000,
+        duration: 2000,
+        words: [
+          { text: 'hello', start: 1000 },
+          { text: 'world', start: 1400 },
+          { text: 'again', start: 2200 },
+        ],
+      },
+    ]);
+  });
+
+  it('leaves out words for events without offsets and skips empty events', () => {
+    const body = JSON.stringify({
+      events: [
+        { tStartMs: 0, dDurationMs: 500, segs: [{ utf8: '\n' }] },
+        { tStartMs: 500, dDurationMs: 1500, segs: [{ utf8: 'Hello  there' }] },
+        { tStartMs: 2000 },
+      ],
+    });
+
+    expect(parseJson3(body)).toEqual([{ text: 'Hello there', start: 500, end: 2000, duration: 1500 }]);
+  });
+
+  it.each([['<transcript></transcript>'], [''], ['{}']])('returns [] for %j', (body) => {
+    expect(parseJson3(body)).toEqual([]);
+  });
+});
+
+describe('parseSrv3Words', () => {
+  it('reads word timing from <s t> runs', () => {
+    expect(parseSrv3Words('<s>hello</s><s t="500"> world</s><s t="800"> &amp; more</s>', 1000, 2000)).toEqual([
+      { text: 'hello', start: 1000 },
+      { text: 'world', start: 1500 },
+      { text: '&', start: 1800 },
+      { text: 'more', start: 1900 },
+    ]);
+  });
+
+  it('returns undefined when the runs carry no offsets', () => {
+    expect(parseSrv3Words('<s ac="0">styled</s> text', 0, 1000)).toBeUndefined();
+    expect(parseSrv3Words('plain text', 0, 1000)).toBeUndefined();
+  });
+});
+
+describe('parseTimedTextXml', () => {
+  it('parses srv3 paragraphs with word timing', () => {
+    const xml =
+      '<timedtext><body>' +
+      '<p t="1000" d="2000"><s>hello</s><s t="500"> world</s></p>' +
+      '<p t="4000" d="1000">plain &amp; simple</p>' +
+      '</body></timedtext>';
+
+    expect(parseTimedTextXml(xml)).toEqual([
+      {
+        text: 'hello world',
+        start: 1000,
+        end: 3000,
+        duration: 2000,
+        words: [
+          { text: 'hello', start: 1000 },
+          { text: 'world', start: 1500 },
+        ],
+      },
+      { text: 'plain & simple', start: 4000, end: 5000, duration: 1000 },
+    ]);
+  });
+
+  it('falls back to the <text> format', () => {
+    expect(parseTimedTextXml('<transcript><text start="1.5" dur="2">Hi &amp; bye</text></transcript>')).toEqual([
+      { text: 'Hi & bye', start: 1500, end: 3500, duration: 2000 },
+    ]);
+  });
+});
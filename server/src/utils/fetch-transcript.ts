@@ -1,11 +1,47 @@
-import { Innertube } from 'youtubei.js';
+import { Innertube, YTNodes } from 'youtubei.js';
 import { ProxyAgent, fetch as undiciFetch } from 'undici';
+import {
+  TranscriptFetchError,
+  classifyFetchError,
+  isTranscriptFetchError,
+  type TranscriptFetchErrorCode,
+} from './transcript-fetch-error';
+import { parseChaptersFromDescription, type Chapter } from './chapters';
+import { buildReadableTranscript, type ReadableTranscript } from './readable-transcript';
+
+export interface TranscriptWord {
+  text: string;
+  start: number; // ms from the start of the video
+}
 
 export interface TranscriptSegment {
   text: string;
   start: number;
   end: number;
   duration: number;
+  words?: TranscriptWord[]; // only when the caption format has word timing (json3, srv3)
+}
+
+export type CaptionKind = 'asr' | 'manual';
+
+export interface VideoThumbnail {
+  url: string;
+  width: number;
+  height: number;
+}
+
+export interface VideoMetadata {
+  channelId?: string;
+  channelName?: string;
+  videoPublishedAt?: string; // ISO 8601, when the video was published on YouTube
+  durationSeconds?: number;
+  viewCount?: number; // at fetch time
+  description?: string;
+  keywords: string[];
+  thumbnails: VideoThumbnail[];
+  isLive: boolean;
+  isShort: boolean;
+  chapters: Chapter[];
 }
 
 export interface TranscriptData {
@@ -13,10 +49,81 @@ export interface TranscriptData {
   title?: string;
   fullTranscript: string;
   transcriptWithTimeCodes: TranscriptSegment[];
+  language: string;
+  translated: boolean;
+  sourceLanguage: string;
+  captionKind?: CaptionKind;
+  metadata?: VideoMetadata;
+  readableTranscript?: ReadableTranscript;
+}
+
+export interface RetryPolicy {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  jitter: number;
+  retryableErrors: TranscriptFetchErrorCode[];
+}
+
+export interface FetchLogger {
+  debug(message: string): void;
+  info(message: string): void;
+  warn(message: string): void;
 }
 
 export interface FetchOptions {
   proxyUrl?: string;
+  languages?: string[];
+  translateTo?: string;
+  retry?: Partial<RetryPolicy>;
+  logger?: FetchLogger;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+  jitter: 0.5,
+  retryableErrors: ['NETWORK', 'IP_BLOCKED'],
+};
+
+export interface CaptionTrackInfo {
+  languageCode: string;
+  name: string;
+  kind: CaptionKind;
+  isTranslatable: boolean;
+}
+
+export interface CaptionTrackList {
+  videoId: string;
+  title?: string;
+  playabilityStatus?: string;
+  tracks: CaptionTrackInfo[];
+}
+
+export interface PlaylistVideoInfo {
+  videoId: string;
+  title?: string;
+  durationSeconds?: number;
+}
+
+export interface PlaylistVideoList {
+  playlistId: string;
+  title?: string;
+  videos: PlaylistVideoInfo[];
+}
+
+interface CaptionTrack {
+  base_url: string;
+  name?: { toString(): string };
+  language_code: string;
+  kind?: string;
+  is_translatable?: boolean;
+}
+
+interface CaptionTrackSelection {
+  track: CaptionTrack;
+  translateTo?: string;
 }
 
 /**
@@ -33,10 +140,17 @@ function isRequestLike(input: unknown): input is Request {
   );
 }
 
+/**
+ * Logger for fetch progress; console when the caller passes none
+ */
+function getLogger(options?: Pick<FetchOptions, 'logger'>): FetchLogger {
+  return options?.logger || console;
+}
+
 /**
  * Create a proxy-enabled fetch function using undici
  */
-function createProxyFetch(proxyUrl?: string): typeof fetch | undefined {
+function createProxyFetch(proxyUrl: string | undefined, logger: FetchLogger): typeof fetch | undefined {
   if (!proxyUrl) {
     return undefined;
   }
@@ -109,13 +223,13 @@ function createProxyFetch(proxyUrl?: string): typeof fetch | undefined {
 
     // Log request details
     const urlPath = new URL(url).pathname;
-    console.log(`[yt-transcript] Proxy ${method} ${urlPath} via ${maskedProxyUrl}`);
+    logger.debug(`[yt-transcript] Proxy ${method} ${urlPath} via ${maskedProxyUrl}`);
 
     const response = await undiciFetch(url, options);
 
     // Log response status
     if (!response.ok) {
-      console.log(`[yt-transcript] Proxy response: ${response.status} ${response.statusText}`);
+      logger.debug(`[yt-transcript] Proxy response: ${response.status} ${response.statusText}`);
     }
 
     return response;
@@ -125,7 +239,7 @@ function createProxyFetch(proxyUrl?: string): typeof fetch | undefined {
 /**
  * Decode HTML entities in transcript text
  */
-function decodeHtmlEntities(text: string): string {
+export function decodeHtmlEntities(text: string): string {
   return text
     .replace(/&#39;/g, "'")
     .replace(/&quot;/g, '"')
@@ -140,7 +254,48 @@ function decodeHtmlEntities(text: string): string {
 }
 
 /**
- * Parse <p t="ms" d="ms">text</p> format (Android client)
+ * Spread the words of each timed run evenly until the next run starts.
+ * Runs are word-sized in ASR captions; longer runs share their time span.
+ */
+export function splitTimedRuns(runs: Array<{ text: string; start: number }>, end: number): TranscriptWord[] {
+  const words: TranscriptWord[] = [];
+
+  runs.forEach((run, index) => {
+    const runWords = run.text.split(/\s+/).filter(Boolean);
+    const runEnd = Math.max(run.start, runs[index + 1]?.start ?? end);
+    const step = (runEnd - run.start) / Math.max(runWords.length, 1);
+    runWords.forEach((text, i) => words.push({ text, start: Math.round(run.start + step * i) }));
+  });
+
+  return words;
+}
+
+/**
+ * Word timing of an srv3 paragraph: <s t="offsetMs">word</s> runs.
+ * Returns undefined when the runs carry no offsets (styling only).
+ */
+export function parseSrv3Words(rawText: string, start: number, end: number): TranscriptWord[] | undefined {
+  const runRegex = /<s([^>]*)>([\s\S]*?)<\/s>/g;
+  const runs: Array<{ text: string; start: number }> = [];
+  let hasOffsets = false;
+
+  let match = runRegex.exec(rawText);
+  while (match !== null) {
+    const offset = match[1].match(/\bt="(\d+)"/);
+    hasOffsets = hasOffsets || Boolean(offset);
+    const text = decodeHtmlEntities(match[2]);
+    if (text) {
+      runs.push({ text, start: start + (offset ? parseInt(offset[1], 10) : 0) });
+    }
+    match = runRegex.exec(rawText);
+  }
+
+  return hasOffsets && runs.length > 0 ? splitTimedRuns(runs, end) : undefined;
+}
+
+/**
+ * Parse <p t="ms" d="ms">text</p> format (Android client and srv3).
+ * srv3 paragraphs of ASR tracks wrap each word in <s t="offsetMs">, which gives word timing.
  */
 function parsePTagFormat(xml: string): TranscriptSegment[] {
   const segments: TranscriptSegment[] = [];
@@ -150,15 +305,17 @@ function parsePTagFormat(xml: string): TranscriptSegment[] {
   while (match !== null) {
     const [, startMsStr, durationMsStr, rawText] = match;
     if (startMsStr && durationMsStr && rawText) {
-      const text = decodeHtmlEntities(rawText);
+      const text = decodeHtmlEntities(rawText).replace(/\s+/g, ' ');
       if (text) {
         const start = parseInt(startMsStr, 10);
         const duration = parseInt(durationMsStr, 10);
+        const words = parseSrv3Words(rawText, start, start + duration);
         segments.push({
           text,
           start,
           end: start + duration,
           duration,
+          ...(words && { words }),
         });
       }
     }
@@ -199,7 +356,7 @@ function parseTextTagFormat(xml: string): TranscriptSegment[] {
  * Parse timedtext XML into transcript segments
  * Supports both <p> format (Android) and <text> format (alternative)
  */
-function parseTimedTextXml(xml: string): TranscriptSegment[] {
+export function parseTimedTextXml(xml: string): TranscriptSegment[] {
   // Try <p> tag format first (Android client format)
   const pSegments = parsePTagFormat(xml);
   if (pSegments.length > 0) {
@@ -209,10 +366,81 @@ function parseTimedTextXml(xml: string): TranscriptSegment[] {
   return parseTextTagFormat(xml);
 }
 
+interface Json3Event {
+  tStartMs?: number;
+  dDurationMs?: number;
+  segs?: Array<{ utf8?: string; tOffsetMs?: number }>;
+}
+
+/**
+ * Parse json3 timedtext (fmt=json3) into transcript segments.
+ * ASR tracks split each event into word runs with tOffsetMs, which gives word timing;
+ * manual tracks usually have one run per event. Returns [] for anything that is not json3.
+ */
+export function parseJson3(body: string): TranscriptSegment[] {
+  let data: { events?: Json3Event[] };
+  try {
+    data = JSON.parse(body);
+  } catch {
+    return [];
+  }
+
+  const segments: TranscriptSegment[] = [];
+
+  for (const event of data?.events || []) {
+    if (!event.segs || event.tStartMs === undefined) continue;
+
+    const text = event.segs.map((seg) => seg.utf8 || '').join('').replace(/\s+/g, ' ').trim();
+    if (!text) continue;
+
+    const start = event.tStartMs;
+    const duration = event.dDurationMs || 0;
+    const hasOffsets = event.segs.some((seg) => seg.tOffsetMs !== undefined);
+    const runs = event.segs
+      .filter((seg) => seg.utf8 && seg.utf8.trim())
+      .map((seg) => ({ text: seg.utf8!.trim(), start: start + (seg.tOffsetMs || 0) }));
+
+    segments.push({
+      text,
+      start,
+      end: start + duration,
+      duration,
+      ...(hasOffsets && { words: splitTimedRuns(runs, start + duration) }),
+    });
+  }
+
+  return segments;
+}
+
 /**
- * Fetch timedtext XML from caption URL
+ * Fetch a caption track. json3 is requested first because it carries word timing for ASR
+ * tracks; srv3 XML (word timing in <s t="..."> runs) is the fallback when json3 is unavailable
+ * or unparseable. Blocked requests are not retried in the other format.
  */
-async function fetchTimedTextXml(
+async function fetchCaptionSegments(
+  selection: CaptionTrackSelection,
+  proxyFetch?: typeof fetch
+): Promise<{ segments: TranscriptSegment[]; format: 'json3' | 'srv3' }> {
+  try {
+    const body = await fetchTimedText(buildCaptionUrl(selection, 'json3'), proxyFetch);
+    const segments = parseJson3(body);
+    if (segments.length > 0) {
+      return { segments, format: 'json3' };
+    }
+  } catch (error) {
+    if (isTranscriptFetchError(error) && error.code === 'IP_BLOCKED') {
+      throw error;
+    }
+  }
+
+  const xml = await fetchTimedText(buildCaptionUrl(selection, 'srv3'), proxyFetch);
+  return { segments: parseTimedTextXml(xml), format: 'srv3' };
+}
+
+/**
+ * Fetch timedtext (srv3 XML or json3) from caption URL
+ */
+async function fetchTimedText(
   captionUrl: string,
   proxyFetch?: typeof fetch
 ): Promise<string> {
@@ -226,104 +454,347 @@ async function fetchTimedTextXml(
   });
 
   if (!response.ok) {
-    throw new Error(`Failed to fetch timedtext: ${response.status}`);
+    const code = response.status === 403 || response.status === 429 ? 'IP_BLOCKED' : 'NETWORK';
+    throw new TranscriptFetchError(code, `Failed to fetch timedtext: ${response.status}`);
   }
 
   const xml = await response.text();
   if (!xml || xml.length === 0) {
-    throw new Error('Empty timedtext response');
+    throw new TranscriptFetchError('PARSE_FAILED', 'Empty timedtext response');
   }
 
   return xml;
 }
 
 /**
- * Fetch transcript using youtubei.js getBasicInfo to get caption URLs
- * This approach uses the Innertube client to get caption track URLs,
- * then fetches timedtext directly - avoiding BotGuard requirements.
+ * Find the best caption track for a language code.
+ * Exact matches win over regional variants (e.g. "es" vs "es-419"),
+ * and manual tracks win over auto-generated (ASR) tracks.
  */
-async function fetchTranscriptFromYouTube(
+function findTrackForLanguage(captionTracks: CaptionTrack[], language: string): CaptionTrack | undefined {
+  const code = language.toLowerCase();
+  const exact = captionTracks.filter((t) => t.language_code?.toLowerCase() === code);
+  const regional = captionTracks.filter((t) => t.language_code?.toLowerCase().startsWith(`${code}-`));
+
+  return (
+    exact.find((t) => t.kind !== 'asr') ||
+    exact[0] ||
+    regional.find((t) => t.kind !== 'asr') ||
+    regional[0]
+  );
+}
+
+// Languages tried when none are requested, before falling back to the first track
+export const DEFAULT_CAPTION_LANGUAGES = ['en'];
+
+/**
+ * Pick the caption track to download based on preferred languages and an optional translation target.
+ * - A native track in the translation target is always preferred over a machine translation
+ * - Without explicit languages, English is preferred and any track is accepted as a fallback
+ * - With explicit languages, an error is thrown instead of silently returning another language
+ */
+function selectCaptionTrack(
+  captionTracks: CaptionTrack[],
+  languages?: string[],
+  translateTo?: string
+): CaptionTrackSelection {
+  const requested = languages?.filter(Boolean) ?? [];
+
+  if (translateTo) {
+    const nativeTrack = findTrackForLanguage(captionTracks, translateTo);
+    if (nativeTrack) {
+      return { track: nativeTrack };
+    }
+  }
+
+  for (const language of requested.length > 0 ? requested : DEFAULT_CAPTION_LANGUAGES) {
+    const track = findTrackForLanguage(captionTracks, language);
+    if (track && (!translateTo || track.is_translatable)) {
+      return { track, translateTo };
+    }
+  }
+
+  if (translateTo) {
+    const translatable =
+      captionTracks.find((t) => t.is_translatable && t.kind !== 'asr') ||
+      captionTracks.find((t) => t.is_translatable);
+    if (translatable) {
+      return { track: translatable, translateTo };
+    }
+  }
+
+  const available = captionTracks
+    .map((t) => `${t.language_code}${t.kind === 'asr' ? ' (auto)' : ''}`)
+    .join(', ');
+
+  if (translateTo) {
+    throw new TranscriptFetchError(
+      'NO_CAPTIONS',
+      `No caption track can be translated to "${translateTo}". Available languages: ${available}`
+    );
+  }
+
+  if (requested.length > 0) {
+    throw new TranscriptFetchError(
+      'NO_CAPTIONS',
+      `No captions available in requested languages (${requested.join(', ')}). ` +
+        `Available languages: ${available}`
+    );
+  }
+
+  return { track: captionTracks[0] };
+}
+
+/**
+ * Build the timedtext URL for a caption track in the given format,
+ * adding the tlang parameter for auto-translation
+ */
+function buildCaptionUrl(selection: CaptionTrackSelection, format: 'json3' | 'srv3'): string {
+  const url = new URL(selection.track.base_url);
+  if (selection.translateTo) {
+    url.searchParams.set('tlang', selection.translateTo);
+  }
+  url.searchParams.set('fmt', format);
+  return url.toString();
+}
+
+/**
+ * Merge retry overrides into the default policy, ignoring unset values
+ */
+export function resolveRetryPolicy(overrides?: Partial<RetryPolicy>): RetryPolicy {
+  const policy = { ...DEFAULT_RETRY_POLICY };
+  for (const [key, value] of Object.entries(overrides || {})) {
+    if (value !== undefined) {
+      (policy as Record<string, unknown>)[key] = value;
+    }
+  }
+  return policy;
+}
+
+/**
+ * Delay before the next attempt: exponential backoff capped at maxDelayMs,
+ * spread by +/- jitter so parallel fetches don't retry in lockstep
+ */
+export function getRetryDelayMs(policy: RetryPolicy, attempt: number): number {
+  const backoff = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  const spread = backoff * policy.jitter * (Math.random() * 2 - 1);
+  return Math.max(0, Math.round(backoff + spread));
+}
+
+/**
+ * Run one step of the fetch (player info or timedtext) with retries.
+ * Only errors whose code is in retryableErrors are retried; anything else
+ * (no captions, private video) is thrown immediately.
+ */
+export async function withRetry<T>(
+  step: string,
   videoId: string,
+  task: () => Promise<T>,
   options?: FetchOptions
-): Promise<TranscriptData> {
-  const proxyFetch = createProxyFetch(options?.proxyUrl);
+): Promise<T> {
+  const policy = resolveRetryPolicy(options?.retry);
+  const logger = getLogger(options);
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const result = await task();
+      if (attempt > 1) {
+        logger.info(`[yt-transcript] Video ${videoId} - ${step} succeeded on attempt ${attempt}/${policy.maxAttempts}`);
+      }
+      return result;
+    } catch (error) {
+      const classified = classifyFetchError(error, videoId);
+      const retryable =
+        isTranscriptFetchError(classified) && policy.retryableErrors.includes(classified.code);
+
+      if (!retryable || attempt >= policy.maxAttempts) {
+        throw classified;
+      }
 
-  // Log proxy status for debugging
-  if (options?.proxyUrl) {
-    const maskedUrl = options.proxyUrl.replace(/:([^@:]+)@/, ':****@');
-    console.log(`[yt-transcript] Fetching video ${videoId} via proxy: ${maskedUrl}`);
-  } else {
-    console.log(`[yt-transcript] Fetching video ${videoId} without proxy`);
+      const delayMs = getRetryDelayMs(policy, attempt);
+      logger.warn(
+        `[yt-transcript] Video ${videoId} - ${step} attempt ${attempt}/${policy.maxAttempts} failed ` +
+          `(${classified.code}: ${classified.message}), retrying in ${delayMs}ms`
+      );
+      await new Promise((resolve) => setTimeout(resolve, delayMs));
+    }
   }
+}
 
-  // 1. Create Innertube client with optional proxy
-  const client = await Innertube.create({
+/**
+ * Create an Innertube client with optional proxy
+ */
+async function createClient(proxyFetch?: typeof fetch) {
+  return Innertube.create({
     generate_session_locally: true,
     lang: 'en',
     location: 'US',
     retrieve_player: true, // Required to get caption tracks
     fetch: proxyFetch,
   });
+}
+
+/**
+ * Create an Innertube client and load basic player info (title, playability, caption tracks)
+ */
+async function getVideoInfo(videoId: string, logger: FetchLogger, proxyFetch?: typeof fetch) {
+  // 1. Create Innertube client with optional proxy
+  const client = await createClient(proxyFetch);
 
   // 2. Get basic info (includes caption tracks)
   const info = await client.getBasicInfo(videoId);
 
-  // Get title from basic info
-  const title = info.basic_info?.title;
+  // Log detailed info for debugging
+  logger.debug(`[yt-transcript] Video ${videoId} - Title: ${info.basic_info?.title || 'Unknown'}`);
+  logger.debug(`[yt-transcript] Video ${videoId} - Playability: ${info.playability_status?.status || 'Unknown'}`);
+  logger.debug(`[yt-transcript] Video ${videoId} - Caption tracks found: ${info.captions?.caption_tracks?.length || 0}`);
 
-  // 3. Check for caption tracks
-  const captionTracks = info.captions?.caption_tracks;
-  const playabilityStatus = (info as any).playability_status;
+  return info;
+}
 
-  // Log detailed info for debugging
-  console.log(`[yt-transcript] Video ${videoId} - Title: ${info.basic_info?.title || 'Unknown'}`);
-  console.log(`[yt-transcript] Video ${videoId} - Playability: ${playabilityStatus?.status || 'Unknown'}`);
-  console.log(`[yt-transcript] Video ${videoId} - Caption tracks found: ${captionTracks?.length || 0}`);
+// YouTube Shorts are at most 3 minutes long
+const MAX_SHORT_DURATION_SECONDS = 180;
 
-  if (!captionTracks || captionTracks.length === 0) {
-    // Check playability status for more details
-    const status = playabilityStatus?.status;
-    const reason = playabilityStatus?.reason;
-    const subreason = playabilityStatus?.messages?.[0] || playabilityStatus?.subreason;
-
-    console.log(`[yt-transcript] Video ${videoId} - No captions found`);
-    console.log(`[yt-transcript] Video ${videoId} - Playability status: ${status || 'Unknown'}`);
-    if (reason) {
-      console.log(`[yt-transcript] Video ${videoId} - Playability reason: ${reason}`);
-    }
-    if (subreason) {
-      console.log(`[yt-transcript] Video ${videoId} - Playability subreason: ${subreason}`);
-    }
+/**
+ * Convert a YouTube date string (e.g. "2024-03-01" or "2024-03-01T09:00:00-08:00") to ISO 8601
+ */
+function toIsoDate(value: unknown): string | undefined {
+  if (typeof value !== 'string' || value === '') return undefined;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : date.toISOString();
+}
 
-    // Check for various error conditions
-    if (reason && reason.includes('Sign in')) {
-      throw new Error(
-        'YouTube requires sign-in. This usually means the IP is blocked. ' +
-          'Configure a residential proxy in the plugin settings.'
-      );
-    }
+/**
+ * Collect channel, publish date, duration, views, description, keywords, thumbnails and
+ * chapters (parsed from the description) from the player response. Shorts are not flagged
+ * by the player API, so a video counts as a Short when it is at most 3 minutes long and
+ * its embed or thumbnail is portrait.
+ */
+function extractVideoMetadata(info: Awaited<ReturnType<typeof getVideoInfo>>): VideoMetadata {
+  const basic = info.basic_info;
+  const microformatNode = info.page[0]?.microformat;
+  const microformat = microformatNode?.is(YTNodes.PlayerMicroformat) ? microformatNode : undefined;
+
+  const thumbnails: VideoThumbnail[] = (basic?.thumbnail || []).map((t) => ({
+    url: t.url,
+    width: t.width,
+    height: t.height,
+  }));
+
+  const durationSeconds = basic?.duration ?? (Number(microformat?.length_seconds) || undefined);
+  const viewCount = Number(basic?.view_count);
+  const embed = basic?.embed;
+  const description: string | undefined = microformat?.description?.toString() || basic?.short_description;
+  const largestThumbnail = thumbnails[0];
+  const isPortrait =
+    (embed && Number(embed.height) > Number(embed.width)) ||
+    (largestThumbnail && largestThumbnail.height > largestThumbnail.width);
 
-    if (status === 'ERROR' || status === 'UNPLAYABLE') {
-      throw new Error(
-        `Video is not playable (status: ${status}). ${reason || 'The video may be private, deleted, or unavailable in your region.'}`
-      );
-    }
+  return {
+    channelId: basic?.channel?.id || basic?.channel_id,
+    channelName: basic?.channel?.name || basic?.author,
+    videoPublishedAt: toIsoDate(microformat?.publish_date) || toIsoDate(microformat?.upload_date),
+    durationSeconds,
+    viewCount: Number.isFinite(viewCount) ? viewCount : undefined,
+    description,
+    keywords: basic?.keywords || basic?.tags || [],
+    thumbnails,
+    isLive: Boolean(basic?.is_live || basic?.is_live_content),
+    isShort: Boolean(
+      isPortrait && !basic?.is_live_content && durationSeconds && durationSeconds <= MAX_SHORT_DURATION_SECONDS
+    ),
+    chapters: parseChaptersFromDescription(description, (durationSeconds || 0) * 1000),
+  };
+}
 
-    if (status === 'LOGIN_REQUIRED') {
-      throw new Error(
-        'YouTube requires login to access this video. This usually indicates IP blocking. ' +
-          'Configure a residential proxy in the plugin settings.'
-      );
-    }
+/**
+ * Inspect the playability status of a video without caption tracks.
+ * Throws when YouTube is blocking the request or the video cannot be played,
+ * otherwise returns the status so callers can report missing captions.
+ */
+function assertPlayable(
+  videoId: string,
+  info: Awaited<ReturnType<typeof getVideoInfo>>,
+  logger: FetchLogger
+): string | undefined {
+  // Check playability status for more details
+  const status = info.playability_status?.status;
+  const reason = info.playability_status?.reason;
+
+  logger.info(`[yt-transcript] Video ${videoId} - No captions found`);
+  logger.info(`[yt-transcript] Video ${videoId} - Playability status: ${status || 'Unknown'}`);
+  if (reason) {
+    logger.info(`[yt-transcript] Video ${videoId} - Playability reason: ${reason}`);
+  }
 
-    // Check if captions object exists but is empty
-    if (info.captions) {
-      console.log(`[yt-transcript] Video ${videoId} - Captions object exists but no tracks available`);
-    } else {
-      console.log(`[yt-transcript] Video ${videoId} - No captions object in response`);
-    }
+  // Check for various error conditions
+  if (reason && reason.includes('Sign in')) {
+    throw new TranscriptFetchError(
+      'IP_BLOCKED',
+      'YouTube requires sign-in. This usually means the IP is blocked. ' +
+        'Configure a residential proxy in the plugin settings.'
+    );
+  }
+
+  if (status === 'ERROR' || status === 'UNPLAYABLE') {
+    throw new TranscriptFetchError(
+      'UNPLAYABLE',
+      `Video is not playable (status: ${status}). ${reason || 'The video may be private, deleted, or unavailable in your region.'}`
+    );
+  }
+
+  if (status === 'LOGIN_REQUIRED') {
+    throw new TranscriptFetchError(
+      'LOGIN_REQUIRED',
+      'YouTube requires login to access this video. This usually indicates IP blocking. ' +
+        'Configure a residential proxy in the plugin settings.'
+    );
+  }
+
+  // Check if captions object exists but is empty
+  if (info.captions) {
+    logger.debug(`[yt-transcript] Video ${videoId} - Captions object exists but no tracks available`);
+  } else {
+    logger.debug(`[yt-transcript] Video ${videoId} - No captions object in response`);
+  }
+
+  return status;
+}
+
+/**
+ * Fetch transcript using youtubei.js getBasicInfo to get caption URLs
+ * This approach uses the Innertube client to get caption track URLs,
+ * then fetches timedtext directly - avoiding BotGuard requirements.
+ */
+async function fetchTranscriptFromYouTube(
+  videoId: string,
+  options?: FetchOptions
+): Promise<TranscriptData> {
+  const logger = getLogger(options);
+  const proxyFetch = createProxyFetch(options?.proxyUrl, logger);
 
-    throw new Error(
+  // Log proxy status for debugging
+  if (options?.proxyUrl) {
+    const maskedUrl = options.proxyUrl.replace(/:([^@:]+)@/, ':****@');
+    logger.debug(`[yt-transcript] Fetching video ${videoId} via proxy: ${maskedUrl}`);
+  } else {
+    logger.debug(`[yt-transcript] Fetching video ${videoId} without proxy`);
+  }
+
+  // 1-2. Get basic info (includes caption tracks)
+  const info = await withRetry('player info', videoId, () => getVideoInfo(videoId, logger, proxyFetch), options);
+
+  // Get title from basic info
+  const title = info.basic_info?.title;
+
+  // 3. Check for caption tracks
+  const captionTracks = info.captions?.caption_tracks;
+
+  if (!captionTracks || captionTracks.length === 0) {
+    const status = assertPlayable(videoId, info, logger);
+
+    throw new TranscriptFetchError(
+      'NO_CAPTIONS',
       `No captions available for this video. ` +
         `Playability: ${status || 'Unknown'}. ` +
         `The video may not have captions enabled, or YouTube may be blocking the request. ` +
@@ -333,40 +804,71 @@ async function fetchTranscriptFromYouTube(
 
   // Log available caption languages
   const availableLanguages = captionTracks.map((t) => `${t.language_code}${t.kind === 'asr' ? ' (auto)' : ''}`);
-  console.log(`[yt-transcript] Video ${videoId} - Available languages: ${availableLanguages.join(', ')}`);
+  logger.debug(`[yt-transcript] Video ${videoId} - Available languages: ${availableLanguages.join(', ')}`);
 
-  // 4. Find English caption track (prefer non-ASR if available)
-  const englishTrack =
-    captionTracks.find((t) => t.language_code === 'en' && t.kind !== 'asr') ||
-    captionTracks.find((t) => t.language_code?.startsWith('en')) ||
-    captionTracks[0];
+  // 4. Select caption track by preferred languages and optional translation target
+  const selection = selectCaptionTrack(captionTracks, options?.languages, options?.translateTo);
+  const sourceTrack = selection.track;
 
-  if (!englishTrack?.base_url) {
-    throw new Error('No valid caption track URL found');
+  if (!sourceTrack?.base_url) {
+    throw new TranscriptFetchError('NO_CAPTIONS', 'No valid caption track URL found');
   }
 
-  // 5. Fetch timedtext XML
-  console.log(`[yt-transcript] Video ${videoId} - Fetching caption track: ${englishTrack.language_code}`);
-  const xml = await fetchTimedTextXml(englishTrack.base_url, proxyFetch);
-
-  // 6. Parse XML to segments
-  const segments = parseTimedTextXml(xml);
+  // 5. Fetch the caption track (json3 for word timing, srv3 as fallback)
+  logger.debug(
+    `[yt-transcript] Video ${videoId} - Fetching caption track: ${sourceTrack.language_code}` +
+      (selection.translateTo ? ` (translated to ${selection.translateTo})` : '')
+  );
+  const { segments, format } = await withRetry(
+    'timedtext',
+    videoId,
+    () => fetchCaptionSegments(selection, proxyFetch),
+    options
+  );
 
+  // 6. Check the parsed segments
   if (segments.length === 0) {
-    throw new Error('Failed to parse any transcript segments from XML');
+    throw new TranscriptFetchError('PARSE_FAILED', 'Failed to parse any transcript segments from the caption track');
   }
 
+  const wordTiming = segments.some((segment) => segment.words && segment.words.length > 0);
+  logger.debug(`[yt-transcript] Video ${videoId} - Caption format: ${format}${wordTiming ? ' (word timing)' : ''}`);
+
   const transcriptLength = segments.map((s) => s.text).join(' ').length;
-  console.log(`[yt-transcript] Video ${videoId} - Success! ${segments.length} segments, ${transcriptLength} chars`);
+  logger.info(`[yt-transcript] Video ${videoId} - Success! ${segments.length} segments, ${transcriptLength} chars`);
+
+  // 7. Rebuild sentences and paragraphs (removes rolling-caption repeats)
+  const metadata = extractVideoMetadata(info);
+  const readableTranscript = buildReadableTranscript(segments, metadata.chapters);
 
   return {
     videoId,
     title,
     fullTranscript: segments.map((s) => s.text).join(' '),
     transcriptWithTimeCodes: segments,
+    language: selection.translateTo || sourceTrack.language_code,
+    translated: Boolean(selection.translateTo),
+    sourceLanguage: sourceTrack.language_code,
+    captionKind: sourceTrack.kind === 'asr' ? 'asr' : 'manual',
+    metadata,
+    readableTranscript,
   };
 }
 
+/**
+ * Prefix an error with context while keeping its TranscriptFetchError code when it has one
+ */
+function wrapFetchError(error: unknown, videoId: string, context: string): Error {
+  const classified = classifyFetchError(error, videoId);
+  const message = `${context}Error: ${error instanceof Error ? error.message : String(error)}`;
+
+  if (isTranscriptFetchError(classified)) {
+    return new TranscriptFetchError(classified.code, message, { videoId, cause: error });
+  }
+
+  return new Error(message);
+}
+
 /**
  * Main entry point for fetching YouTube transcripts
  * @param videoId - The YouTube video ID
@@ -376,12 +878,115 @@ const fetchTranscript = async (videoId: string, options?: FetchOptions): Promise
   try {
     return await fetchTranscriptFromYouTube(videoId, options);
   } catch (error) {
-    throw new Error(
+    throw wrapFetchError(
+      error,
+      videoId,
       `Failed to fetch transcript for video ${videoId}. ` +
-        `The video may not have captions enabled, or may be unavailable. ` +
-        `Error: ${error instanceof Error ? error.message : String(error)}`
+        `The video may not have captions enabled, or may be unavailable. `
     );
   }
 };
 
+/**
+ * List the caption tracks available for a video without downloading any transcript
+ * @param videoId - The YouTube video ID
+ * @param options - Optional configuration including proxy settings
+ */
+export const listCaptionTracks = async (
+  videoId: string,
+  options?: Pick<FetchOptions, 'proxyUrl' | 'retry' | 'logger'>
+): Promise<CaptionTrackList> => {
+  try {
+    const logger = getLogger(options);
+    const proxyFetch = createProxyFetch(options?.proxyUrl, logger);
+    const info = await withRetry('player info', videoId, () => getVideoInfo(videoId, logger, proxyFetch), options);
+    const captionTracks: CaptionTrack[] = info.captions?.caption_tracks || [];
+    const playabilityStatus =
+      captionTracks.length === 0 ? assertPlayable(videoId, info, logger) : info.playability_status?.status;
+
+    return {
+      videoId,
+      title: info.basic_info?.title,
+      playabilityStatus,
+      tracks: captionTracks.map((track) => ({
+        languageCode: track.language_code,
+        name: track.name?.toString() || track.language_code,
+        kind: track.kind === 'asr' ? 'asr' : 'manual',
+        isTranslatable: Boolean(track.is_translatable),
+      })),
+    };
+  } catch (error) {
+    throw wrapFetchError(error, videoId, `Failed to list caption tracks for video ${videoId}. `);
+  }
+};
+
+type PlaylistItem = YTNodes.PlaylistVideo | YTNodes.ReelItem | YTNodes.ShortsLockupView;
+
+/**
+ * Video ID of a playlist item (regular videos, Shorts shelves and Shorts lockups)
+ */
+function getPlaylistItemVideoId(item: PlaylistItem): string | undefined {
+  if (item.is(YTNodes.ShortsLockupView)) {
+    return item.on_tap_endpoint?.payload?.videoId || undefined;
+  }
+  return item.id || undefined;
+}
+
+/**
+ * Title and duration of a playlist item; Shorts lockups carry their title in the overlay
+ */
+function getPlaylistItemDetails(item: PlaylistItem): Omit<PlaylistVideoInfo, 'videoId'> {
+  if (item.is(YTNodes.PlaylistVideo)) {
+    return { title: item.title?.toString() || undefined, durationSeconds: item.duration?.seconds || undefined };
+  }
+  if (item.is(YTNodes.ReelItem)) {
+    return { title: item.title?.toString() || undefined };
+  }
+  return { title: item.overlay_metadata?.primary_text?.toString() || undefined };
+}
+
+/**
+ * List the videos in a playlist, following continuations until the end or maxVideos
+ * @param playlistId - The YouTube playlist ID
+ * @param options - Optional configuration including proxy settings and a video limit
+ */
+export const listPlaylistVideos = async (
+  playlistId: string,
+  options?: Pick<FetchOptions, 'proxyUrl' | 'retry' | 'logger'> & { maxVideos?: number }
+): Promise<PlaylistVideoList> => {
+  try {
+    const logger = getLogger(options);
+    const proxyFetch = createProxyFetch(options?.proxyUrl, logger);
+    const client = await createClient(proxyFetch);
+
+    let page = await withRetry('playlist', playlistId, () => client.getPlaylist(playlistId), options);
+    const title = page.info?.title;
+    const videos: PlaylistVideoInfo[] = [];
+    const seen = new Set<string>();
+
+    for (;;) {
+      for (const item of page.items) {
+        const videoId = getPlaylistItemVideoId(item);
+        if (!videoId || seen.has(videoId)) continue;
+        seen.add(videoId);
+        videos.push({ videoId, ...getPlaylistItemDetails(item) });
+      }
+
+      if (options?.maxVideos && videos.length >= options.maxVideos) {
+        videos.length = options.maxVideos;
+        break;
+      }
+      if (!page.has_continuation) break;
+      const current = page;
+      page = await withRetry('playlist continuation', playlistId, () => current.getContinuation(), options);
+    }
+
+    logger.info(`[yt-transcript] Playlist ${playlistId} - ${videos.length} videos found`);
+
+    return { playlistId, title, videos };
+  } catch (error) {
+    throw wrapFetchError(error, playlistId, `Failed to list videos of playlist ${playlistId}. `);
+  }
+};
+
 export default fetchTranscript;
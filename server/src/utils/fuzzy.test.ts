@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { editDistance, expandFuzzyTerms, maxEditsFor, phoneticKey } from './fuzzy';
+
+describe('maxEditsFor', () => {
+  it('allows more edits for longer terms, up to maxDistance', () => {
+    expect(maxEditsFor('ai', 3)).toBe(0);
+    expect(maxEditsFor('rust', 3)).toBe(1);
+    expect(maxEditsFor('python', 3)).toBe(2);
+    expect(maxEditsFor('javascript', 3)).toBe(3);
+    expect(maxEditsFor('javascript', 1)).toBe(1);
+  });
+});
+
+describe('editDistance', () => {
+  it('counts insertions, deletions and substitutions', () => {
+    expect(editDistance('kitten', 'sitting', 5)).toBe(3);
+    expect(editDistance('karpathy', 'karpaty', 2)).toBe(1);
+  });
+
+  it('counts a swap of neighbouring letters as one edit', () => {
+    expect(editDistance('teh', 'the', 1)).toBe(1);
+  });
+
+  it('returns max + 1 once the distance exceeds max', () => {
+    expect(editDistance('kitten', 'sitting', 1)).toBe(2);
+    expect(editDistance('go', 'golang', 2)).toBe(3);
+  });
+});
+
+describe('phoneticKey', () => {
+  it('gives names that sound alike the same key', () => {
+    expect(phoneticKey('pichai')).toBe(phoneticKey('pitchai'));
+    expect(phoneticKey('karpathy')).toBe(phoneticKey('karpaty'));
+    expect(phoneticKey('philip')).toBe(phoneticKey('filip'));
+  });
+
+  it('codes consonant groups and keeps a leading vowel', () => {
+    expect(phoneticKey('karpathy')).toBe('2613');
+    expect(phoneticKey('aaron')).toBe('A65');
+  });
+
+  it('returns an empty key for terms with other characters', () => {
+    expect(phoneticKey('über')).toBe('');
+    expect(phoneticKey('web3')).toBe('');
+  });
+});
+
+describe('expandFuzzyTerms', () => {
+  it('expands a term to vocabulary terms within the allowed edits', () => {
+    const expansions = expandFuzzyTerms(['karpathy'], ['karpathy', 'karpaty', 'python'], 2);
+
+    expect(expansions.get('karpathy')).toEqual([{ term: 'karpaty', distance: 1, phonetic: true, weight: 0.75 }]);
+  });
+
+  it('expands to terms that only sound alike, weighted below close typos', () => {
+    const expansions = expandFuzzyTerms(['pichai'], ['pitchai', 'pichay'], 0);
+
+    expect(expansions.get('pichai')).toEqual([
+      { term: 'pichay', distance: null, phonetic: true, weight: 0.5 },
+      { term: 'pitchai', distance: null, phonetic: true, weight: 0.5 },
+    ]);
+  });
+
+  it('ranks fewer edits first', () => {
+    const expansions = expandFuzzyTerms(['strapi'], ['strapyy', 'strapy'], 2).get('strapi')!;
+
+    expect(expansions.map((expansion) => [expansion.term, expansion.distance])).toEqual([
+      ['strapy', 1],
+      ['strapyy', 2],
+    ]);
+  });
+
+  it('keeps at most ten expansions per term', () => {
+    const vocabulary = ['astrapy', ...'bcdefghijklm'.split('').map((letter) => `str${letter}pi`)];
+    const expansions = expandFuzzyTerms(['strapi'], vocabulary, 2).get('strapi')!;
+
+    expect(expansions).toHaveLength(10);
+    expect(expansions.every((expansion) => expansion.distance === 1)).toBe(true);
+  });
+
+  it('does not expand very short terms', () => {
+    expect(expandFuzzyTerms(['ai'], ['al', 'ai'], 2).size).toBe(0);
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * Typo-tolerant matching for transcript search. Auto-generated captions misrecognize words
+ * and users misspell names, so a query term can be expanded to the transcript's terms within
+ * a few edits ("karpathy" -> "karpaty") or that sound alike ("pichai" -> "pitchai").
+ * Expansions score below the exact term.
+ */
+
+export interface FuzzyExpansion {
+  term: string;
+  distance: number | null; // edits from the query term, null when it only sounds alike
+  phonetic: boolean;
+  weight: number; // multiplier applied to the expansion's score
+}
+
+// Score multiplier lost per edit, and the multiplier of terms that only sound alike
+const EDIT_PENALTY = 0.25;
+const PHONETIC_WEIGHT = 0.5;
+
+// Expansions kept per query term, best first
+const MAX_FUZZY_EXPANSIONS = 10;
+
+// Phonetic matching is for names: shorter terms sound like too many others
+const MIN_PHONETIC_LENGTH = 4;
+
+// Soundex-style consonant groups; vowels, h, w and y are not coded
+const PHONETIC_GROUPS: Record<string, string> = {
+  b: '1', f: '1', p: '1', v: '1',
+  c: '2', g: '2', j: '2', k: '2', q: '2', s: '2', x: '2', z: '2',
+  d: '3', t: '3',
+  l: '4',
+  m: '5', n: '5',
+  r: '6',
+};
+
+// Spellings that sound the same, rewritten before coding
+const PHONETIC_REWRITES: Array<[RegExp, string]> = [
+  [/^(?:kn|gn|pn)/, 'n'],
+  [/^wr/, 'r'],
+  [/ph/g, 'f'],
+  [/tch/g, 'ch'],
+  [/dg/g, 'j'],
+  [/ck/g, 'k'],
+  [/th/g, 't'],
+  [/c(?=[eiy])/g, 's'],
+];
+
+/**
+ * Maximum edits for a term of this length: none for very short terms, more for longer ones
+ */
+export function maxEditsFor(term: string, maxDistance: number): number {
+  const length = Array.from(term).length;
+  const edits = length < 3 ? 0 : length < 6 ? 1 : length < 9 ? 2 : 3;
+  return Math.min(edits, maxDistance);
+}
+
+/**
+ * Edit distance (insertions, deletions, substitutions and swaps of neighbouring letters)
+ * between two terms; returns max + 1 as soon as it is known to exceed max
+ */
+export function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let beforePrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, beforePrevious[j - 2] + 1);
+      }
+      current.push(value);
+      rowMin = Math.min(rowMin, value);
+    }
+
+    if (rowMin > max) return max + 1;
+    beforePrevious = previous;
+    previous = current;
+  }
+
+  return Math.min(previous[b.length], max + 1);
+}
+
+/**
+ * Phonetic key of a term: its consonant sounds, with a leading vowel kept as "A".
+ * Only Latin letters are coded; other terms get an empty key.
+ */
+export function phoneticKey(term: string): string {
+  if (!/^[a-z]+$/.test(term)) return '';
+
+  const text = PHONETIC_REWRITES.reduce((result, [pattern, replacement]) => result.replace(pattern, replacement), term);
+  let key = /^[aeiouy]/.test(text) ? 'A' : '';
+  let last = '';
+
+  for (const char of text) {
+    const code = PHONETIC_GROUPS[char];
+    if (code) {
+      if (code !== last) key += code;
+      last = code;
+    } else if (char !== 'h' && char !== 'w') {
+      // A vowel separates two consonants of the same group ("tat"); h and w do not
+      last = '';
+    }
+  }
+
+  return key;
+}
+
+/**
+ * Terms of the vocabulary within the allowed edit distance of each query term, or with the
+ * same phonetic key. A term is expanded even when the vocabulary has it, since captions can
+ * spell the same name several ways.
+ */
+export function expandFuzzyTerms(
+  terms: string[],
+  vocabulary: string[],
+  maxDistance: number
+): Map<string, FuzzyExpansion[]> {
+  const expansions = new Map<string, FuzzyExpansion[]>();
+  const keys = new Map<string, string>();
+  const keyOf = (term: string) => {
+    let key = keys.get(term);
+    if (key === undefined) {
+      key = term.length >= MIN_PHONETIC_LENGTH ? phoneticKey(term) : '';
+      keys.set(term, key);
+    }
+    return key;
+  };
+
+  for (const term of terms) {
+    const maxEdits = maxEditsFor(term, maxDistance);
+    const key = keyOf(term);
+    const matches: FuzzyExpansion[] = [];
+
+    for (const candidate of vocabulary) {
+      if (candidate === term) continue;
+      const distance = maxEdits > 0 ? editDistance(term, candidate, maxEdits) : maxEdits + 1;
+      const phonetic = key.length >= 2 && keyOf(candidate) === key;
+      if (distance > maxEdits && !phonetic) continue;
+
+      const editWeight = distance <= maxEdits ? 1 - EDIT_PENALTY * distance : 0;
+      matches.push({
+        term: candidate,
+        distance: distance <= maxEdits ? distance : null,
+        phonetic,
+        weight: Math.max(editWeight, phonetic ? PHONETIC_WEIGHT : 0),
+      });
+    }
+
+    if (matches.length > 0) {
+      matches.sort((a, b) => b.weight - a.weight || a.term.localeCompare(b.term));
+      expansions.set(term, matches.slice(0, MAX_FUZZY_EXPANSIONS));
+    }
+  }
+
+  return expansions;
+}
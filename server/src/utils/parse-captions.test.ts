@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import { detectCaptionFormat, detectCaptionLanguage, parseCaptionFile } from './parse-captions';
+
+const SRT = `1
+00:00:01,000 --> 00:00:03,500
+Hello &amp; welcome
+
+2
+00:00:04,000 --> 00:00:06,250
+to the <i>show</i>
+second line
+`;
+
+const VTT = `WEBVTT
+Kind: captions
+Language: pt-BR
+
+NOTE this block is skipped
+
+00:01.000 --> 00:03.500 align:start position:0%
+Olá
+
+cue-2
+01:00:04.000 --> 01:00:06.000
+tudo bem
+`;
+
+const SBV = `0:00:01.000,0:00:03.500
+Hello there
+
+0:00:04.000,0:00:06.000
+General Kenobi
+`;
+
+describe('detectCaptionFormat', () => {
+  it('prefers the file extension', () => {
+    expect(detectCaptionFormat(SRT, 'captions.VTT')).toBe('vtt');
+  });
+
+  it('detects the format from the content', () => {
+    expect(detectCaptionFormat(`\uFEFF${VTT}`)).toBe('vtt');
+    expect(detectCaptionFormat(SRT)).toBe('srt');
+    expect(detectCaptionFormat(SBV)).toBe('sbv');
+  });
+
+  it('returns null for unknown content', () => {
+    expect(detectCaptionFormat('just some text')).toBeNull();
+  });
+});
+
+describe('parseCaptionFile', () => {
+  it('parses SRT cues into millisecond segments', () => {
+    expect(parseCaptionFile(SRT, 'srt')).toEqual([
+      { text: 'Hello & welcome', start: 1000, end: 3500, duration: 2500 },
+      { text: 'to the show second line', start: 4000, end: 6250, duration: 2250 },
+    ]);
+  });
+
+  it('parses WebVTT cues with settings, identifiers and hour timestamps', () => {
+    expect(parseCaptionFile(VTT, 'vtt')).toEqual([
+      { text: 'Olá', start: 1000, end: 3500, duration: 2500 },
+      { text: 'tudo bem', start: 3_604_000, end: 3_606_000, duration: 2000 },
+    ]);
+  });
+
+  it('parses SBV cues', () => {
+    expect(parseCaptionFile(SBV, 'sbv').map((segment) => [segment.text, segment.start, segment.end])).toEqual([
+      ['Hello there', 1000, 3500],
+      ['General Kenobi', 4000, 6000],
+    ]);
+  });
+
+  it('handles CRLF line endings', () => {
+    expect(parseCaptionFile(SRT.replace(/\n/g, '\r\n'), 'srt')).toHaveLength(2);
+  });
+
+  it('sorts cues by start time and clamps an end before the start', () => {
+    const srt = `1\n00:00:05,000 --> 00:00:04,000\nlate\n\n2\n00:00:01,000 --> 00:00:02,000\nearly\n`;
+    expect(parseCaptionFile(srt, 'srt')).toEqual([
+      { text: 'early', start: 1000, end: 2000, duration: 1000 },
+      { text: 'late', start: 5000, end: 5000, duration: 0 },
+    ]);
+  });
+
+  it('skips cues without text', () => {
+    expect(parseCaptionFile('1\n00:00:01,000 --> 00:00:02,000\n\n', 'srt')).toEqual([]);
+  });
+});
+
+describe('detectCaptionLanguage', () => {
+  it('reads the WebVTT Language header', () => {
+    expect(detectCaptionLanguage(VTT)).toBe('pt-BR');
+  });
+
+  it('returns undefined without a header', () => {
+    expect(detectCaptionLanguage(SRT)).toBeUndefined();
+  });
+});
@@ -0,0 +1,113 @@
+import { decodeHtmlEntities, type TranscriptSegment } from './fetch-transcript';
+
+export type CaptionFormat = 'srt' | 'vtt' | 'sbv';
+
+export const CAPTION_FORMATS: CaptionFormat[] = ['srt', 'vtt', 'sbv'];
+
+/**
+ * Error thrown when uploaded caption content cannot be parsed
+ */
+export class CaptionParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CaptionParseError';
+  }
+}
+
+// Thrown when an import would replace a stored transcript without overwrite
+export class CaptionImportConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CaptionImportConflictError';
+  }
+}
+
+// 00:01:02,500 --> 00:01:04,000 (SRT) or 01:02.500 --> 01:04.000 align:start (WebVTT)
+const ARROW_TIMING_REGEX =
+  /^\s*((?:\d+:)?\d{1,2}:\d{2}(?:[.,]\d{1,3})?)\s*-->\s*((?:\d+:)?\d{1,2}:\d{2}(?:[.,]\d{1,3})?)/;
+
+// 0:01:02.500,0:01:04.000 (SBV)
+const SBV_TIMING_REGEX = /^\s*(\d+:\d{2}:\d{2}(?:\.\d{1,3})?),(\d+:\d{2}:\d{2}(?:\.\d{1,3})?)\s*$/;
+
+/**
+ * Parse a caption timestamp (HH:MM:SS,mmm, MM:SS.mmm or H:MM:SS.mmm) into milliseconds
+ */
+function parseTimestamp(timestamp: string): number {
+  const [clock, fraction = '0'] = timestamp.trim().split(/[.,]/);
+  const parts = clock.split(':').map((part) => parseInt(part, 10));
+  const seconds = parts.reduce((total, part) => total * 60 + part, 0);
+  const millis = parseInt(fraction.padEnd(3, '0').slice(0, 3), 10);
+  return seconds * 1000 + millis;
+}
+
+/**
+ * Guess the caption format from a file name or the file content
+ */
+export function detectCaptionFormat(content: string, fileName?: string): CaptionFormat | null {
+  const extension = fileName?.split('.').pop()?.toLowerCase();
+  if (extension === 'srt' || extension === 'vtt' || extension === 'sbv') {
+    return extension;
+  }
+
+  const firstLines = content.replace(/^\uFEFF/, '').trimStart().split(/\r?\n/, 20);
+
+  if (firstLines[0]?.startsWith('WEBVTT')) return 'vtt';
+  if (firstLines.some((line) => ARROW_TIMING_REGEX.test(line))) return 'srt';
+  if (firstLines.some((line) => SBV_TIMING_REGEX.test(line))) return 'sbv';
+
+  return null;
+}
+
+/**
+ * Parse SRT, WebVTT or SBV captions into transcript segments (milliseconds),
+ * the same shape produced when fetching from YouTube.
+ * Cues are separated by blank lines; each cue has a timing line followed by text.
+ */
+export function parseCaptionFile(content: string, format: CaptionFormat): TranscriptSegment[] {
+  const timingRegex = format === 'sbv' ? SBV_TIMING_REGEX : ARROW_TIMING_REGEX;
+  const blocks = content
+    .replace(/^\uFEFF/, '')
+    .replace(/\r\n?/g, '\n')
+    .split(/\n\s*\n/);
+
+  const segments: TranscriptSegment[] = [];
+
+  for (const block of blocks) {
+    const lines = block.split('\n');
+    const timingIndex = lines.findIndex((line) => timingRegex.test(line));
+
+    // Skip WEBVTT header, NOTE/STYLE/REGION blocks and anything without a timing line
+    if (timingIndex === -1) continue;
+
+    const [, startStr, endStr] = lines[timingIndex].match(timingRegex)!;
+    const text = decodeHtmlEntities(
+      lines
+        .slice(timingIndex + 1)
+        .map((line) => line.trim())
+        .filter(Boolean)
+        .join(' ')
+    );
+
+    if (!text) continue;
+
+    const start = parseTimestamp(startStr);
+    const end = Math.max(start, parseTimestamp(endStr));
+    segments.push({
+      text,
+      start,
+      end,
+      duration: end - start,
+    });
+  }
+
+  return segments.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Read the Language header of a WebVTT file, if present
+ */
+export function detectCaptionLanguage(content: string): string | undefined {
+  const header = content.replace(/\r\n?/g, '\n').split('\n\n')[0];
+  const match = header.match(/^Language:\s*([A-Za-z]{2,3}(?:-[A-Za-z0-9]+)*)\s*$/m);
+  return match?.[1];
+}
@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildReadableTranscript,
+  getParagraphText,
+  getReadableUnits,
+  type CaptionSegment,
+} from './readable-transcript';
+
+function segment(start: number, end: number, text: string): CaptionSegment {
+  return { start, end, duration: end - start, text };
+}
+
+function sentenceTexts(segments: CaptionSegment[]): string[] {
+  return buildReadableTranscript(segments).paragraphs.flatMap((paragraph) =>
+    paragraph.sentences.map((sentence) => sentence.text)
+  );
+}
+
+describe('buildReadableTranscript', () => {
+  it('removes text repeated by rolling captions', () => {
+    const rolling = [
+      segment(0, 4000, 'so today we are going'),
+      segment(2000, 6000, 'we are going to build a plugin'),
+      segment(4000, 8000, 'to build a plugin for strapi'),
+    ];
+
+    expect(sentenceTexts(rolling).join(' ')).toBe('So today we are going to build a plugin for strapi.');
+  });
+
+  it('keeps a word genuinely said twice in back-to-back captions', () => {
+    const captions = [segment(0, 1000, 'I think that'), segment(1000, 2000, 'that works.')];
+    expect(sentenceTexts(captions).join(' ')).toBe('I think that that works.');
+  });
+
+  it('splits punctuated captions at sentence ends but not at abbreviations', () => {
+    const captions = [
+      segment(0, 3000, 'Dr. Smith lives in the U.S. now.'),
+      segment(3000, 5000, 'Is that right? Yes!'),
+    ];
+
+    const readable = buildReadableTranscript(captions);
+    expect(readable.punctuated).toBe(true);
+    expect(sentenceTexts(captions)).toEqual(['Dr. Smith lives in the U.S. now.', 'Is that right?', 'Yes!']);
+  });
+
+  it('infers sentences from pauses in unpunctuated captions', () => {
+    const captions = [
+      segment(0, 2000, 'hello and welcome to the show'),
+      segment(3000, 5000, 'today we talk about search'),
+    ];
+
+    const readable = buildReadableTranscript(captions);
+    expect(readable.punctuated).toBe(false);
+    expect(sentenceTexts(captions)).toEqual(['Hello and welcome to the show.', 'Today we talk about search.']);
+  });
+
+  it('uses caption word timing for sentence times', () => {
+    const captions: CaptionSegment[] = [
+      {
+        ...segment(0, 6000, 'first part second part'),
+        words: [
+          { text: 'first', start: 0 },
+          { text: 'part', start: 400 },
+          { text: 'second', start: 4000 },
+          { text: 'part', start: 4400 },
+        ],
+      },
+    ];
+
+    // Without word timing the words would be spread evenly and the last one would end at 6000
+    const sentences = buildReadableTranscript(captions).paragraphs.flatMap((paragraph) => paragraph.sentences);
+    expect(sentences).toEqual([{ start: 0, end: 5200, text: 'First part second part.' }]);
+  });
+
+  it('starts a new paragraph at a chapter start', () => {
+    const captions = [segment(0, 2000, 'Welcome to the intro.'), segment(2000, 4000, 'Now the main part.')];
+    const chapters = [
+      { index: 0, title: 'Intro', start: 0, end: 2000 },
+      { index: 1, title: 'Main', start: 2000, end: 4000 },
+    ];
+
+    const readable = buildReadableTranscript(captions, chapters);
+    expect(readable.paragraphs.map(getParagraphText)).toEqual(['Welcome to the intro.', 'Now the main part.']);
+    expect(readable.paragraphs[1]).toMatchObject({ start: 2000, end: 4000 });
+  });
+
+  it('returns no paragraphs for empty captions', () => {
+    expect(buildReadableTranscript([])).toEqual({ punctuated: false, paragraphs: [] });
+  });
+});
+
+describe('getReadableUnits', () => {
+  const readable = buildReadableTranscript(
+    [segment(0, 2000, 'One sentence here.'), segment(2000, 4000, 'Another one there.')],
+    [
+      { index: 0, title: 'A', start: 0, end: 2000 },
+      { index: 1, title: 'B', start: 2000, end: 4000 },
+    ]
+  );
+
+  it('returns sentences starting inside the range', () => {
+    expect(getReadableUnits(readable, 'sentences', 1000).map((unit) => unit.text)).toEqual(['Another one there.']);
+  });
+
+  it('returns paragraphs as timed units', () => {
+    expect(getReadableUnits(readable, 'paragraphs')).toEqual([
+      expect.objectContaining({ start: 0, text: 'One sentence here.' }),
+      expect.objectContaining({ start: 2000, text: 'Another one there.' }),
+    ]);
+  });
+});
@@ -0,0 +1,268 @@
+/**
+ * Rebuild readable text from caption segments.
+ *
+ * Auto-generated (ASR) captions arrive as short, often overlapping fragments without
+ * punctuation, and rolling captions repeat the previous line at the start of the next one.
+ * This stage removes the repeated text, splits the words into sentences (at punctuation when
+ * the captions have it, otherwise at pauses) and groups the sentences into paragraphs at
+ * longer pauses, keeping start and end times (ms) throughout.
+ */
+
+import type { Chapter } from './chapters';
+
+export interface CaptionSegment {
+  start: number;
+  end: number;
+  text: string;
+  duration?: number;
+  words?: Array<{ text: string; start: number }>;
+}
+
+export interface ReadableSentence {
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface ReadableParagraph {
+  start: number;
+  end: number;
+  sentences: ReadableSentence[];
+}
+
+export interface ReadableTranscript {
+  punctuated: boolean; // false when sentence breaks were inferred from pauses
+  paragraphs: ReadableParagraph[];
+}
+
+export type TranscriptFormat = 'raw' | 'sentences' | 'paragraphs';
+
+export const TRANSCRIPT_FORMATS: TranscriptFormat[] = ['raw', 'sentences', 'paragraphs'];
+
+interface TimedWord {
+  text: string;
+  start: number;
+  end: number;
+  pauseBefore: number;
+}
+
+// Longest repeated run of words looked for between consecutive rolling captions
+const MAX_OVERLAP_WORDS = 30;
+
+// Captions that do not overlap in time only count as repeated text from this many words,
+// so a word genuinely said twice ("that that") is kept
+const MIN_SEQUENTIAL_OVERLAP_WORDS = 3;
+
+// When caption display times overlap, speech is assumed to last until the next caption,
+// but no longer than this per word (a slow speaking rate), so real pauses still show
+const MAX_WORD_MS = 800;
+
+// Unpunctuated captions: a pause this long ends a sentence, and sentences never grow past MAX_SENTENCE_WORDS
+const SENTENCE_PAUSE_MS = 700;
+const MIN_SENTENCE_WORDS = 4;
+const MAX_SENTENCE_WORDS = 30;
+
+// A pause this long starts a new paragraph once the current one has MIN_PARAGRAPH_CHARS
+const PARAGRAPH_PAUSE_MS = 1500;
+const MIN_PARAGRAPH_CHARS = 200;
+const MAX_PARAGRAPH_CHARS = 1000;
+
+// Captions count as punctuated when at least one word in this many ends a sentence
+const PUNCTUATION_WORDS_PER_SENTENCE = 60;
+
+const SENTENCE_END_REGEX = /[.!?…。！？]["'”’)\]]*$/;
+
+const ABBREVIATIONS = new Set(['mr.', 'mrs.', 'ms.', 'dr.', 'prof.', 'st.', 'vs.', 'etc.', 'jr.', 'sr.', 'inc.', 'ltd.', 'co.', 'no.', 'approx.']);
+
+/**
+ * Comparable form of a word: lowercase without surrounding punctuation
+ */
+function normalizeWord(word: string): string {
+  return word.toLowerCase().replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, '');
+}
+
+/**
+ * Number of words at the start of `next` that repeat the end of `previous`
+ */
+function findOverlap(previous: string[], next: string[]): number {
+  const max = Math.min(previous.length, next.length, MAX_OVERLAP_WORDS);
+
+  for (let size = max; size > 0; size--) {
+    let matches = true;
+    for (let i = 0; i < size; i++) {
+      if (previous[previous.length - size + i] !== next[i]) {
+        matches = false;
+        break;
+      }
+    }
+    if (matches) return size;
+  }
+  return 0;
+}
+
+/**
+ * Split segments into timed words, dropping text repeated from the previous caption.
+ * Word times come from the caption's word timing when it has it, otherwise they are
+ * spread evenly over the part of the segment that is new.
+ */
+function toTimedWords(segments: CaptionSegment[]): TimedWord[] {
+  const words: TimedWord[] = [];
+  let recent: string[] = [];
+  let lastEnd = 0;
+  let previousSegmentEnd = 0;
+
+  const sorted = [...segments].sort((a, b) => a.start - b.start);
+
+  for (let index = 0; index < sorted.length; index++) {
+    const segment = sorted[index];
+    const segmentWords = (segment.text || '').replace(/\s+/g, ' ').trim().split(' ').filter(Boolean);
+    const normalized = segmentWords.map(normalizeWord);
+    const repeated = findOverlap(recent, normalized);
+    const overlap = previousSegmentEnd > segment.start || repeated >= MIN_SEQUENTIAL_OVERLAP_WORDS ? repeated : 0;
+    const fresh = segmentWords.slice(overlap);
+
+    const segmentEnd = segment.end || segment.start + (segment.duration || 0);
+    recent = [...recent, ...normalized.slice(overlap)].slice(-MAX_OVERLAP_WORDS);
+    previousSegmentEnd = segmentEnd;
+    if (fresh.length === 0) continue;
+
+    // Rolling captions stay on screen after the next one starts; estimate when the new words were spoken
+    const nextStart = sorted[index + 1]?.start ?? Infinity;
+    const overlapsNext = segmentEnd > nextStart;
+    const start = Math.max(segment.start, overlap > 0 ? Math.min(lastEnd, segmentEnd) : segment.start);
+    const end = overlapsNext
+      ? Math.max(start, Math.min(segmentEnd, start + fresh.length * MAX_WORD_MS, nextStart))
+      : Math.max(start, segmentEnd);
+    const step = (end - start) / fresh.length;
+
+    // Word-timed captions (json3, srv3) give the real start of every word
+    const timed = overlap === 0 && segment.words && segment.words.length === fresh.length ? segment.words : null;
+
+    fresh.forEach((text, i) => {
+      const wordStart = timed ? timed[i].start : Math.round(start + step * i);
+      const wordEnd = timed ? Math.min(timed[i + 1]?.start ?? end, wordStart + MAX_WORD_MS) : Math.round(start + step * (i + 1));
+      words.push({
+        text,
+        start: wordStart,
+        end: Math.max(wordStart, wordEnd),
+        pauseBefore: i === 0 ? wordStart - lastEnd : wordStart - words[words.length - 1].end,
+      });
+    });
+    lastEnd = timed ? words[words.length - 1].end : end;
+  }
+
+  return words;
+}
+
+function isSentenceEnd(word: string): boolean {
+  if (!SENTENCE_END_REGEX.test(word)) return false;
+  const lower = word.toLowerCase();
+  // Abbreviations and initialisms ("Dr.", "U.S.") do not end a sentence
+  return !ABBREVIATIONS.has(lower) && !/^(?:\p{L}\.){2,}$/u.test(lower);
+}
+
+/**
+ * Capitalize the first letter and end with a period (for sentences inferred from pauses)
+ */
+function finishSentence(text: string): string {
+  const capitalized = text.replace(/^(\P{L}*)(\p{Ll})/u, (_, prefix: string, letter: string) => prefix + letter.toUpperCase());
+  return /[\p{L}\p{N}]$/u.test(capitalized) ? `${capitalized}.` : capitalized;
+}
+
+/**
+ * Build sentences and paragraphs from caption segments
+ */
+export function buildReadableTranscript(
+  segments: CaptionSegment[],
+  chapters: Chapter[] | null | undefined = []
+): ReadableTranscript {
+  const words = toTimedWords(segments);
+  const sentenceEnds = words.filter((word) => isSentenceEnd(word.text)).length;
+  const punctuated = words.length > 0 && sentenceEnds * PUNCTUATION_WORDS_PER_SENTENCE >= words.length;
+
+  // Sentences, each with the pause before its first word
+  const sentences: Array<ReadableSentence & { pauseBefore: number }> = [];
+  let current: TimedWord[] = [];
+
+  const closeSentence = () => {
+    if (current.length === 0) return;
+    const text = current.map((word) => word.text).join(' ');
+    sentences.push({
+      start: current[0].start,
+      end: current[current.length - 1].end,
+      text: punctuated ? text : finishSentence(text),
+      pauseBefore: current[0].pauseBefore,
+    });
+    current = [];
+  };
+
+  for (const word of words) {
+    const longPause = word.pauseBefore >= (punctuated ? PARAGRAPH_PAUSE_MS : SENTENCE_PAUSE_MS);
+    if (
+      current.length >= (punctuated ? 1 : MIN_SENTENCE_WORDS) &&
+      (longPause || (!punctuated && current.length >= MAX_SENTENCE_WORDS))
+    ) {
+      closeSentence();
+    }
+
+    current.push(word);
+
+    if (punctuated && isSentenceEnd(word.text)) {
+      closeSentence();
+    }
+  }
+  closeSentence();
+
+  // Paragraphs break at long pauses, at chapter starts and before growing too long
+  const chapterStarts = (chapters || []).map((chapter) => chapter.start).filter((start) => start > 0);
+  const paragraphs: ReadableParagraph[] = [];
+  let paragraph: ReadableParagraph | null = null;
+  let paragraphChars = 0;
+
+  for (const { pauseBefore, ...sentence } of sentences) {
+    const startsChapter = paragraph !== null && chapterStarts.some((start) => start > paragraph!.start && start <= sentence.start);
+    const pauseBreak = pauseBefore >= PARAGRAPH_PAUSE_MS && paragraphChars >= MIN_PARAGRAPH_CHARS;
+    const tooLong = paragraphChars + sentence.text.length > MAX_PARAGRAPH_CHARS;
+
+    if (!paragraph || startsChapter || pauseBreak || tooLong) {
+      paragraph = { start: sentence.start, end: sentence.end, sentences: [] };
+      paragraphs.push(paragraph);
+      paragraphChars = 0;
+    }
+
+    paragraph.sentences.push(sentence);
+    paragraph.end = sentence.end;
+    paragraphChars += sentence.text.length + 1;
+  }
+
+  return { punctuated, paragraphs };
+}
+
+/**
+ * Text of a paragraph
+ */
+export function getParagraphText(paragraph: ReadableParagraph): string {
+  return paragraph.sentences.map((sentence) => sentence.text).join(' ');
+}
+
+/**
+ * Sentences or paragraphs starting inside a time range (start inclusive, end exclusive),
+ * as timed units like transcriptWithTimeCodes entries
+ */
+export function getReadableUnits(
+  readable: ReadableTranscript,
+  format: Exclude<TranscriptFormat, 'raw'>,
+  startMs = 0,
+  endMs = Infinity
+): ReadableSentence[] {
+  const units =
+    format === 'sentences'
+      ? readable.paragraphs.flatMap((paragraph) => paragraph.sentences)
+      : readable.paragraphs.map((paragraph) => ({
+          start: paragraph.start,
+          end: paragraph.end,
+          text: getParagraphText(paragraph),
+        }));
+
+  return units.filter((unit) => unit.start >= startMs && unit.start < endMs);
+}
@@ -0,0 +1,256 @@
+import { describe, expect, it } from 'vitest';
+import { standardAnalyzer } from '../analyzers';
+import { englishAnalyzer } from '../analyzers/language';
+import { buildSearchIndex, type SearchTimecodeEntry } from './bm25';
+import {
+  hasScope,
+  parseSearchQuery,
+  resolveScopeRange,
+  scoreQuery,
+  SearchQueryError,
+  type QueryStats,
+  type TermPositions,
+} from './search-query';
+
+const parse = (query: string) => parseSearchQuery(query, englishAnalyzer);
+
+/**
+ * Index one search segment per sentence and return the keys of the segments matching the query
+ */
+function search(query: string, sentences: string[]): string[] {
+  const timecodes: SearchTimecodeEntry[] = sentences.map((text, index) => ({
+    start: index * 60_000,
+    end: index * 60_000 + 5000,
+    text,
+  }));
+  const index = buildSearchIndex(timecodes, 30_000, englishAnalyzer);
+
+  const postings: TermPositions = new Map();
+  for (const [term, list] of index.postings) {
+    postings.set(term, new Map(list.map(([segment, positions]) => [String(segment), positions])));
+  }
+  const stats: QueryStats = {
+    totalSegments: index.segments.length,
+    avgLength: index.tokenCount / index.segments.length,
+    lengthOf: (key) => index.segments[Number(key)].length,
+  };
+
+  return scoreQuery(parse(query), postings, stats)
+    .sort((a, b) => b.score - a.score)
+    .map((match) => match.key);
+}
+
+const SENTENCES = [
+  'rust and webassembly make fast web apps', // 0
+  'python is great for machine learning', // 1
+  'learning machine code by hand', // 2
+  'java and python in the enterprise', // 3
+  'optimizing rust async code', // 4
+  'the optimizer runs every night', // 5
+];
+
+describe('parseSearchQuery', () => {
+  it('parses plain words as optional clauses with stemmed terms', () => {
+    const query = parse('Running tests');
+
+    expect(query.root).toEqual({
+      type: 'bool',
+      must: [],
+      should: [
+        { type: 'term', term: 'run', word: 'running' },
+        { type: 'term', term: 'test', word: 'tests' },
+      ],
+      mustNot: [],
+    });
+    expect(query.terms).toEqual(['run', 'test']);
+    expect(query.standaloneTerms).toEqual([
+      { term: 'run', word: 'running' },
+      { term: 'test', word: 'tests' },
+    ]);
+  });
+
+  it('returns a single term without a bool wrapper', () => {
+    expect(parse('python').root).toEqual({ type: 'term', term: 'python', word: 'python' });
+  });
+
+  it('parses quoted phrases, keeping their stop words', () => {
+    const query = parse('"the state of the art"');
+
+    expect(query.root).toEqual({ type: 'phrase', terms: ['the', 'state', 'of', 'the', 'art'] });
+    expect(query.phrases).toEqual([['the', 'state', 'of', 'the', 'art']]);
+    expect(query.standaloneTerms).toEqual([]);
+  });
+
+  it('parses a word that splits into several terms as a phrase', () => {
+    expect(parse('node.js').root).toEqual({ type: 'phrase', terms: ['node', 'js'] });
+  });
+
+  it('parses required and excluded clauses', () => {
+    expect(parse('+python -java learning').root).toEqual({
+      type: 'bool',
+      must: [{ type: 'term', term: 'python', word: 'python' }],
+      should: [{ type: 'term', term: 'learn', word: 'learning' }],
+      mustNot: [{ type: 'term', term: 'java', word: 'java' }],
+    });
+  });
+
+  it('treats a NOT clause like an excluded clause', () => {
+    expect(parse('python NOT java').root).toEqual(parse('python -java').root);
+  });
+
+  it('binds NOT tighter than AND, and AND tighter than OR', () => {
+    expect(parse('rust OR go AND NOT java').root).toEqual({
+      type: 'or',
+      children: [
+        { type: 'term', term: 'rust', word: 'rust' },
+        {
+          type: 'and',
+          children: [
+            { type: 'term', term: 'go', word: 'go' },
+            { type: 'not', child: { type: 'term', term: 'java', word: 'java' } },
+          ],
+        },
+      ],
+    });
+  });
+
+  it('groups with parentheses', () => {
+    expect(parse('(rust OR go) AND async').root).toEqual({
+      type: 'and',
+      children: [
+        {
+          type: 'or',
+          children: [
+            { type: 'term', term: 'rust', word: 'rust' },
+            { type: 'term', term: 'go', word: 'go' },
+          ],
+        },
+        { type: 'term', term: 'async', word: 'async' },
+      ],
+    });
+  });
+
+  it('searches lower-case operators as words', () => {
+    expect(parse('rock and roll').terms).toEqual(['rock', 'roll']);
+    expect(parse('"rock and roll"').root).toEqual({ type: 'phrase', terms: ['rock', 'and', 'roll'] });
+  });
+
+  it('parses prefixes using the part the word shares with its stem', () => {
+    expect(parse('optim*').root).toEqual({ type: 'prefix', prefix: 'optim' });
+    expect(parse('running*').prefixes).toEqual(['run']);
+  });
+
+  it('parses time and chapter filters', () => {
+    expect(parse('rust time:5:00-12:30').scope).toEqual({ startMs: 300_000, endMs: 750_000 });
+    expect(parse('rust time:90-').scope).toEqual({ startMs: 90_000, endMs: undefined });
+    expect(parse('rust time:-1:00:00').scope).toEqual({ startMs: undefined, endMs: 3_600_000 });
+    expect(parse('rust chapter:2').scope).toEqual({ chapter: 2 });
+    expect(parse('rust chapter:"Q&A session"').scope).toEqual({ chapter: 'Q&A session' });
+  });
+
+  it.each([
+    ['"unclosed phrase', /Unclosed quote/],
+    ['-java', /cannot only exclude/],
+    ['the of', /only contains stop words \("the", "of"\)/],
+    ['a', /no searchable words/],
+    ['rust AND', /"AND" must be followed by/],
+    ['OR rust', /"OR" must come between/],
+    ['(rust', /Missing "\)"/],
+    ['rust)', /Unexpected "\)"/],
+    ['()', /Empty parentheses/],
+    ['op*im', /only supported at the end of a word/],
+    ['o*', /too short/],
+    ['time:abc', /Invalid time range/],
+    ['rust time:10:00-5:00', /end must be after the start/],
+    ['rust time:1-2 time:3-4', /Only one time: filter/],
+    ['rust chapter:1 chapter:2', /Only one chapter: filter/],
+    ['(rust chapter:1)', /cannot be used inside parentheses/],
+    ['rust AND chapter:1', /cannot be combined with AND, OR or NOT/],
+  ])('rejects %s', (query, message) => {
+    expect(() => parse(query)).toThrow(SearchQueryError);
+    expect(() => parse(query)).toThrow(message);
+  });
+
+  it('analyzes words with the given analyzer', () => {
+    expect(parseSearchQuery('Running', standardAnalyzer).root).toEqual({ type: 'term', term: 'running', word: 'running' });
+  });
+});
+
+describe('scoreQuery', () => {
+  it('matches any of the optional words, ranking segments with more of them higher', () => {
+    const keys = search('python learning', SENTENCES);
+    expect(keys[0]).toBe('1');
+    expect(keys.slice(1).sort()).toEqual(['2', '3']);
+  });
+
+  it('matches phrases only when the words are adjacent and in order', () => {
+    expect(search('"machine learning"', SENTENCES)).toEqual(['1']);
+    expect(search('"learning machine"', SENTENCES)).toEqual(['2']);
+  });
+
+  it('requires +clauses and drops -clauses', () => {
+    expect(search('+python -java', SENTENCES)).toEqual(['1']);
+    expect(search('python NOT java', SENTENCES)).toEqual(['1']);
+  });
+
+  it('evaluates AND, OR and groups', () => {
+    expect(search('rust AND code', SENTENCES)).toEqual(['4']);
+    expect(search('(java OR webassembly) AND NOT python', SENTENCES)).toEqual(['0']);
+  });
+
+  it('matches stemmed variants and prefixes', () => {
+    expect(search('optimized', SENTENCES).sort()).toEqual(['4', '5']);
+    expect(search('run', SENTENCES)).toEqual(['5']);
+    expect(search('mach*', SENTENCES).sort()).toEqual(['1', '2']);
+  });
+
+  it('reports the matched terms', () => {
+    const query = parse('optim*');
+    const postings: TermPositions = new Map([
+      ['optim', new Map([['a', [0]]])],
+      ['optimis', new Map([['a', [3]]])],
+    ]);
+    const [match] = scoreQuery(query, postings, { totalSegments: 1, avgLength: 4, lengthOf: () => 4 });
+
+    expect(match.key).toBe('a');
+    expect(match.matchedTerms.sort()).toEqual(['optim', 'optimis']);
+  });
+
+  it('ranks fuzzy variants below exact matches', () => {
+    const query = { ...parse('python'), expansions: new Map([['python', [{ term: 'pyton', distance: 1, phonetic: false, weight: 0.5 }]]]) };
+    const postings: TermPositions = new Map([
+      ['python', new Map([['exact', [0]]])],
+      ['pyton', new Map([['typo', [0, 1, 2]]])],
+    ]);
+    const matches = scoreQuery(query, postings, { totalSegments: 10, avgLength: 5, lengthOf: () => 5 });
+    const score = (key: string) => matches.find((match) => match.key === key)!.score;
+
+    expect(score('exact')).toBeGreaterThan(score('typo'));
+  });
+});
+
+describe('scopes', () => {
+  const chapters = [
+    { index: 0, title: 'Intro', start: 0, end: 60_000 },
+    { index: 1, title: 'Q&A session', start: 60_000, end: 180_000 },
+  ];
+
+  it('detects whether a query is scoped', () => {
+    expect(hasScope(parse('rust').scope)).toBe(false);
+    expect(hasScope(parse('rust time:1:00-').scope)).toBe(true);
+  });
+
+  it('resolves a chapter by index or title, intersected with the time range', () => {
+    expect(resolveScopeRange({ chapter: 1 }, chapters)).toEqual({ startMs: 60_000, endMs: 180_000, chapter: chapters[1] });
+    expect(resolveScopeRange({ chapter: 'q&a', startMs: 90_000 }, chapters)).toEqual({
+      startMs: 90_000,
+      endMs: 180_000,
+      chapter: chapters[1],
+    });
+  });
+
+  it('returns null for a chapter the transcript does not have', () => {
+    expect(resolveScopeRange({ chapter: 5 }, chapters)).toBeNull();
+    expect(resolveScopeRange({ chapter: 'outro' }, [])).toBeNull();
+  });
+});
@@ -0,0 +1,609 @@
+/**
+ * Query language for transcript and library search.
+ *
+ *   machine learning           either word; segments with both rank higher
+ *   "machine learning"         the words next to each other, in this order
+ *   +python -java              python required, java excluded
+ *   rust AND wasm, rust OR go  both / either; NOT java excludes
+ *   optim*                     any word starting with "optim"
+ *   (rust OR go) AND async     parentheses group
+ *   time:10:00-25:00           only segments in this time range (either end may be left out)
+ *   chapter:2, chapter:"Q&A"   only segments in this chapter (index or title)
+ *
+ * Operators are upper case; lower case "and", "or" and "not" are searched as words.
+ * NOT binds tighter than AND, AND tighter than OR, and OR tighter than the space between clauses.
+ * Words go through the transcript language's analyzer, so "running" also finds "runs";
+ * stop words ("the", "of") are skipped unless they are part of a quoted phrase.
+ */
+
+import type { Analyzer } from '../analyzers';
+import { bm25TermScore, idf } from './bm25';
+import type { FuzzyExpansion } from './fuzzy';
+import { findChapterByTitle, type Chapter } from './chapters';
+import { parseTimestamp } from './extract-youtube-id';
+
+export class SearchQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SearchQueryError';
+  }
+}
+
+export type QueryNode =
+  | { type: 'term'; term: string; word?: string }
+  | { type: 'prefix'; prefix: string }
+  | { type: 'phrase'; terms: string[] }
+  | { type: 'and'; children: QueryNode[] }
+  | { type: 'or'; children: QueryNode[] }
+  | { type: 'not'; child: QueryNode }
+  | { type: 'bool'; must: QueryNode[]; should: QueryNode[]; mustNot: QueryNode[] };
+
+type LeafNode = Extract<QueryNode, { type: 'term' | 'prefix' | 'phrase' }>;
+
+export interface QueryScope {
+  startMs?: number;
+  endMs?: number;
+  chapter?: number | string; // chapter index or title
+}
+
+export interface ParsedSearchQuery {
+  root: QueryNode;
+  scope: QueryScope;
+  terms: string[]; // exact terms, including the words of phrases
+  standaloneTerms: Array<{ term: string; word: string }>; // terms outside phrases, as typed
+  prefixes: string[];
+  phrases: string[][];
+  expansions?: Map<string, FuzzyExpansion[]>; // fuzzy matches of standalone terms
+}
+
+export interface QueryMatch {
+  key: string;
+  score: number;
+  matchedTerms: string[];
+}
+
+// Segment statistics for scoring; segments are identified by a caller-defined key
+export interface QueryStats {
+  totalSegments: number;
+  avgLength: number;
+  lengthOf: (key: string) => number;
+}
+
+// Term -> segment key -> positions of the term in the segment
+export type TermPositions = Map<string, Map<string, number[]>>;
+
+// Prefixes must have this many characters, and match at most this many terms (the most common)
+const MIN_PREFIX_LENGTH = 2;
+const MAX_PREFIX_EXPANSIONS = 50;
+
+const OPERATORS = ['AND', 'OR', 'NOT'] as const;
+type Operator = (typeof OPERATORS)[number];
+
+type Token =
+  | { type: 'word'; value: string }
+  | { type: 'phrase'; value: string }
+  | { type: 'operator'; value: Operator }
+  | { type: 'modifier'; value: '+' | '-' }
+  | { type: 'field'; name: 'time' | 'chapter'; value: string }
+  | { type: 'open' }
+  | { type: 'close' };
+
+const FIELD_REGEX = /^(time|chapter):(.*)$/i;
+
+/**
+ * Read a quoted string starting at the opening quote; returns the text and the index after the closing quote
+ */
+function readQuoted(query: string, start: number): { value: string; end: number } {
+  const close = query.indexOf('"', start + 1);
+  if (close === -1) {
+    throw new SearchQueryError(`Unclosed quote in search query at position ${start + 1}. Close the phrase with a second ".`);
+  }
+  return { value: query.slice(start + 1, close), end: close + 1 };
+}
+
+function lex(query: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < query.length) {
+    const char = query[i];
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '(') {
+      tokens.push({ type: 'open' });
+      i++;
+    } else if (char === ')') {
+      tokens.push({ type: 'close' });
+      i++;
+    } else if (char === '"') {
+      const { value, end } = readQuoted(query, i);
+      tokens.push({ type: 'phrase', value });
+      i = end;
+    } else if ((char === '+' || char === '-') && i + 1 < query.length && !/[\s)]/.test(query[i + 1])) {
+      tokens.push({ type: 'modifier', value: char });
+      i++;
+    } else {
+      let end = i;
+      while (end < query.length && !/[\s()"]/.test(query[end])) end++;
+      const word = query.slice(i, end);
+      i = end;
+
+      const field = FIELD_REGEX.exec(word);
+      if (field) {
+        let value = field[2];
+        if (value === '' && query[i] === '"') {
+          const quoted = readQuoted(query, i);
+          value = quoted.value;
+          i = quoted.end;
+        }
+        tokens.push({ type: 'field', name: field[1].toLowerCase() as 'time' | 'chapter', value });
+      } else if ((OPERATORS as readonly string[]).includes(word)) {
+        tokens.push({ type: 'operator', value: word as Operator });
+      } else {
+        tokens.push({ type: 'word', value: word });
+      }
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Parse "START-END" (either end optional) into milliseconds
+ */
+function parseTimeScope(value: string): { startMs?: number; endMs?: number } {
+  const invalid = () =>
+    new SearchQueryError(`Invalid time range "time:${value}". Use time:START-END, e.g. time:5:00-12:30, time:90-300 or time:10:00-.`);
+
+  const dash = value.indexOf('-');
+  if (dash === -1) throw invalid();
+
+  const startText = value.slice(0, dash).trim();
+  const endText = value.slice(dash + 1).trim();
+  const start = startText ? parseTimestamp(startText) : null;
+  const end = endText ? parseTimestamp(endText) : null;
+
+  if ((startText && start === null) || (endText && end === null) || (start === null && end === null)) {
+    throw invalid();
+  }
+  if (start !== null && end !== null && end <= start) {
+    throw new SearchQueryError(`Invalid time range "time:${value}": the end must be after the start.`);
+  }
+
+  return {
+    startMs: start !== null ? start * 1000 : undefined,
+    endMs: end !== null ? end * 1000 : undefined,
+  };
+}
+
+class Parser {
+  private position = 0;
+  readonly scope: QueryScope = {};
+  readonly skippedStopWords = new Set<string>();
+
+  constructor(
+    private readonly tokens: Token[],
+    private readonly analyzer: Analyzer
+  ) {}
+
+  get finished(): boolean {
+    return this.position >= this.tokens.length;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.position];
+  }
+
+  private isOperator(value: Operator): boolean {
+    const token = this.peek();
+    return token?.type === 'operator' && token.value === value;
+  }
+
+  /**
+   * Clauses separated by spaces: +clause is required, -clause and NOT clause are excluded,
+   * other clauses are optional but at least one must match when nothing is required
+   */
+  parseSequence(depth: number): QueryNode | null {
+    const must: QueryNode[] = [];
+    const should: QueryNode[] = [];
+    const mustNot: QueryNode[] = [];
+
+    for (let token = this.peek(); token && token.type !== 'close'; token = this.peek()) {
+      if (token.type === 'field') {
+        if (depth > 0) {
+          throw new SearchQueryError(`${token.name}: filters apply to the whole query and cannot be used inside parentheses.`);
+        }
+        this.position++;
+        this.addScope(token.name, token.value);
+        continue;
+      }
+
+      const modifier = token.type === 'modifier' ? token.value : null;
+      if (modifier) this.position++;
+
+      const node = this.parseOr();
+      if (!node) continue;
+
+      if (modifier === '-') {
+        mustNot.push(node);
+      } else if (node.type === 'not') {
+        mustNot.push(node.child);
+      } else if (modifier === '+') {
+        must.push(node);
+      } else {
+        should.push(node);
+      }
+    }
+
+    if (must.length === 0 && should.length === 0) {
+      if (mustNot.length > 0) {
+        throw new SearchQueryError('A query cannot only exclude words. Add a word or phrase to search for.');
+      }
+      return null;
+    }
+    if (must.length === 0 && mustNot.length === 0 && should.length === 1) {
+      return should[0];
+    }
+    return { type: 'bool', must, should, mustNot };
+  }
+
+  private parseOr(): QueryNode | null {
+    const children = [this.parseAnd()];
+    while (this.isOperator('OR')) {
+      this.position++;
+      children.push(this.parseAnd('OR'));
+    }
+    return combine('or', children);
+  }
+
+  private parseAnd(after?: Operator): QueryNode | null {
+    const children = [this.parseUnary(after)];
+    while (this.isOperator('AND')) {
+      this.position++;
+      children.push(this.parseUnary('AND'));
+    }
+    return combine('and', children);
+  }
+
+  private parseUnary(after?: Operator): QueryNode | null {
+    if (this.isOperator('NOT')) {
+      this.position++;
+      const child = this.parsePrimary('NOT');
+      return child ? { type: 'not', child } : null;
+    }
+    return this.parsePrimary(after);
+  }
+
+  private parsePrimary(after?: Operator): QueryNode | null {
+    const token = this.peek();
+
+    if (!token || token.type === 'close' || token.type === 'operator' || token.type === 'modifier') {
+      if (after) {
+        throw new SearchQueryError(`"${after}" must be followed by a word, phrase or group.`);
+      }
+      if (token?.type === 'operator') {
+        throw new SearchQueryError(`"${token.value}" must come between two words, phrases or groups.`);
+      }
+      if (token?.type === 'modifier') {
+        throw new SearchQueryError(`"${token.value}" must come directly before a word, phrase or group.`);
+      }
+      throw new SearchQueryError('Unexpected ")" in search query.');
+    }
+
+    this.position++;
+
+    switch (token.type) {
+      case 'open': {
+        const group = this.parseSequence(1);
+        if (this.peek()?.type !== 'close') {
+          throw new SearchQueryError('Missing ")" in search query.');
+        }
+        this.position++;
+        if (!group) {
+          throw new SearchQueryError('Empty parentheses in search query.');
+        }
+        return group;
+      }
+
+      case 'phrase': {
+        const terms = this.analyzer.analyze(token.value).map((analyzed) => analyzed.term);
+        if (terms.length === 0) {
+          throw new SearchQueryError(`Phrase "${token.value}" has no searchable words.`);
+        }
+        return terms.length === 1 ? { type: 'term', term: terms[0] } : { type: 'phrase', terms };
+      }
+
+      case 'field':
+        throw new SearchQueryError(`${token.name}: filters apply to the whole query and cannot be combined with AND, OR or NOT.`);
+
+      case 'word':
+        return this.parseWord(token.value);
+    }
+  }
+
+  /**
+   * A single word: a term, a prefix (optim*), or a phrase when it splits into several terms (node.js).
+   * A lone stop word is skipped.
+   */
+  private parseWord(word: string): QueryNode | null {
+    const star = word.indexOf('*');
+    if (star === -1) {
+      const tokens = this.analyzer.analyze(word);
+      if (tokens.length === 1 && tokens[0].stopWord) {
+        this.skippedStopWords.add(tokens[0].word);
+        return null;
+      }
+      const terms = tokens.map((analyzed) => analyzed.term);
+      if (terms.length === 0) return null;
+      return terms.length === 1 ? { type: 'term', term: terms[0], word: tokens[0].word } : { type: 'phrase', terms };
+    }
+
+    if (star !== word.length - 1) {
+      throw new SearchQueryError(`Wildcards are only supported at the end of a word (e.g. optim*), not in "${word}".`);
+    }
+
+    const tokens = this.analyzer.analyze(word.slice(0, -1));
+    if (tokens.length > 1) {
+      throw new SearchQueryError(`A wildcard can only follow a single word, not "${word}".`);
+    }
+    // Indexed terms are stems, and stemming may change the end of the word ("running" -> "run"),
+    // so only the part the word and its stem share is used
+    const prefix = tokens.length === 1 ? commonPrefix(tokens[0].word, tokens[0].term) : '';
+    if (prefix.length < MIN_PREFIX_LENGTH) {
+      throw new SearchQueryError(`Prefix "${word}" is too short. Use at least ${MIN_PREFIX_LENGTH} letters before *.`);
+    }
+    return { type: 'prefix', prefix };
+  }
+
+  private addScope(name: 'time' | 'chapter', value: string) {
+    if (name === 'time') {
+      if (this.scope.startMs !== undefined || this.scope.endMs !== undefined) {
+        throw new SearchQueryError('Only one time: filter is allowed per query.');
+      }
+      Object.assign(this.scope, parseTimeScope(value));
+      return;
+    }
+
+    if (this.scope.chapter !== undefined) {
+      throw new SearchQueryError('Only one chapter: filter is allowed per query.');
+    }
+    const title = value.trim();
+    if (!title) {
+      throw new SearchQueryError('chapter: needs a chapter index or title, e.g. chapter:2 or chapter:"Q&A".');
+    }
+    this.scope.chapter = /^\d+$/.test(title) ? Number(title) : title;
+  }
+}
+
+function combine(type: 'and' | 'or', nodes: Array<QueryNode | null>): QueryNode | null {
+  const children = nodes.filter((node): node is QueryNode => node !== null);
+  if (children.length === 0) return null;
+  return children.length === 1 ? children[0] : { type, children };
+}
+
+function commonPrefix(a: string, b: string): string {
+  let length = 0;
+  while (length < a.length && length < b.length && a[length] === b[length]) length++;
+  return a.slice(0, length);
+}
+
+function collectLeaves(node: QueryNode, leaves: LeafNode[] = []): LeafNode[] {
+  switch (node.type) {
+    case 'term':
+    case 'prefix':
+    case 'phrase':
+      leaves.push(node);
+      break;
+    case 'and':
+    case 'or':
+      node.children.forEach((child) => collectLeaves(child, leaves));
+      break;
+    case 'not':
+      collectLeaves(node.child, leaves);
+      break;
+    case 'bool':
+      [...node.must, ...node.should, ...node.mustNot].forEach((child) => collectLeaves(child, leaves));
+      break;
+  }
+  return leaves;
+}
+
+/**
+ * Parse a search query, analyzing its words with the given analyzer.
+ * Throws SearchQueryError with a readable message when it is invalid.
+ */
+export function parseSearchQuery(query: string, analyzer: Analyzer): ParsedSearchQuery {
+  const parser = new Parser(lex(query), analyzer);
+  const root = parser.parseSequence(0);
+
+  if (!parser.finished) {
+    throw new SearchQueryError('Unexpected ")" in search query.');
+  }
+  if (!root && parser.skippedStopWords.size > 0) {
+    const words = [...parser.skippedStopWords].map((word) => `"${word}"`).join(', ');
+    throw new SearchQueryError(
+      `Query only contains stop words (${words}). Put them in quotes to search for them as a phrase.`
+    );
+  }
+  if (!root) {
+    throw new SearchQueryError('Query has no searchable words. Use words of at least two characters.');
+  }
+
+  const leaves = collectLeaves(root);
+  const terms = new Set<string>();
+  const standaloneTerms = new Map<string, string>();
+  const prefixes = new Set<string>();
+  const phrases: string[][] = [];
+
+  for (const leaf of leaves) {
+    if (leaf.type === 'term') {
+      terms.add(leaf.term);
+      if (leaf.word && !standaloneTerms.has(leaf.term)) standaloneTerms.set(leaf.term, leaf.word);
+    } else if (leaf.type === 'prefix') prefixes.add(leaf.prefix);
+    else {
+      leaf.terms.forEach((term) => terms.add(term));
+      phrases.push(leaf.terms);
+    }
+  }
+
+  return {
+    root,
+    scope: parser.scope,
+    terms: [...terms],
+    standaloneTerms: [...standaloneTerms].map(([term, word]) => ({ term, word })),
+    prefixes: [...prefixes],
+    phrases,
+  };
+}
+
+/**
+ * Whether the query limits results to a time range or chapter
+ */
+export function hasScope(scope: QueryScope): boolean {
+  return scope.startMs !== undefined || scope.endMs !== undefined || scope.chapter !== undefined;
+}
+
+/**
+ * Time range (ms) covered by a scope in a transcript with these chapters,
+ * or null when the chapter does not exist in it
+ */
+export function resolveScopeRange(
+  scope: QueryScope,
+  chapters: Chapter[] | null | undefined
+): { startMs: number; endMs: number; chapter: Chapter | null } | null {
+  let startMs = scope.startMs ?? 0;
+  let endMs = scope.endMs ?? Infinity;
+  let chapter: Chapter | null = null;
+
+  if (scope.chapter !== undefined) {
+    const found =
+      typeof scope.chapter === 'number' ? chapters?.[scope.chapter] : findChapterByTitle(chapters, scope.chapter);
+    if (!found) return null;
+
+    chapter = found;
+    startMs = Math.max(startMs, found.start);
+    endMs = Math.min(endMs, found.end || Infinity);
+  }
+
+  return { startMs, endMs, chapter };
+}
+
+/**
+ * Score every segment matching the query with BM25. Phrases count as one term whose
+ * frequency is the number of times the words occur next to each other in order; a prefix
+ * scores each matching term. A term with fuzzy expansions scores its best variant in the
+ * segment, with expansions weighted below exact matches. Excluded clauses add nothing to the score.
+ */
+export function scoreQuery(query: ParsedSearchQuery, postings: TermPositions, stats: QueryStats): QueryMatch[] {
+  const termScore = (termFreq: number, docs: number, key: string) =>
+    bm25TermScore(termFreq, idf(stats.totalSegments, docs), stats.lengthOf(key), stats.avgLength);
+
+  // Score and matched terms of each leaf, per segment
+  const leafResults = new Map<LeafNode, Map<string, { score: number; terms: string[] }>>();
+
+  for (const leaf of collectLeaves(query.root)) {
+    if (leafResults.has(leaf)) continue;
+    const results = new Map<string, { score: number; terms: string[] }>();
+
+    if (leaf.type === 'term') {
+      const segments = postings.get(leaf.term);
+      for (const [key, positions] of segments || []) {
+        results.set(key, { score: termScore(positions.length, segments!.size, key), terms: [leaf.term] });
+      }
+
+      // A fuzzy variant scores at most its weight times the lowest exact match, so it ranks below them
+      const ceiling = [...results.values()].reduce((min, result) => Math.min(min, result.score), Infinity);
+      for (const { term, weight } of query.expansions?.get(leaf.term) || []) {
+        const variantSegments = postings.get(term);
+        for (const [key, positions] of variantSegments || []) {
+          const score = Math.min(termScore(positions.length, variantSegments!.size, key), ceiling) * weight;
+          const result = results.get(key);
+          if (result) {
+            result.score = Math.max(result.score, score);
+            result.terms.push(term);
+          } else {
+            results.set(key, { score, terms: [term] });
+          }
+        }
+      }
+    } else if (leaf.type === 'prefix') {
+      const expansions = [...postings.keys()]
+        .filter((term) => term.startsWith(leaf.prefix))
+        .sort((a, b) => postings.get(b)!.size - postings.get(a)!.size)
+        .slice(0, MAX_PREFIX_EXPANSIONS);
+
+      for (const term of expansions) {
+        const segments = postings.get(term)!;
+        for (const [key, positions] of segments) {
+          const result = results.get(key) || { score: 0, terms: [] };
+          result.score += termScore(positions.length, segments.size, key);
+          result.terms.push(term);
+          results.set(key, result);
+        }
+      }
+    } else {
+      const occurrences = new Map<string, number>();
+      for (const [key, firstPositions] of postings.get(leaf.terms[0]) || []) {
+        const rest = leaf.terms.slice(1).map((term) => new Set(postings.get(term)?.get(key) || []));
+        const count = firstPositions.filter((position) => rest.every((set, i) => set.has(position + i + 1))).length;
+        if (count > 0) occurrences.set(key, count);
+      }
+      const terms = [...new Set(leaf.terms)];
+      for (const [key, count] of occurrences) {
+        results.set(key, { score: termScore(count, occurrences.size, key), terms });
+      }
+    }
+
+    leafResults.set(leaf, results);
+  }
+
+  const evaluate = (node: QueryNode, key: string): { score: number; terms: string[] } | null => {
+    switch (node.type) {
+      case 'term':
+      case 'prefix':
+      case 'phrase':
+        return leafResults.get(node)?.get(key) ?? null;
+      case 'not':
+        return evaluate(node.child, key) ? null : { score: 0, terms: [] };
+      case 'and':
+      case 'or':
+      case 'bool': {
+        const required = node.type === 'and' ? node.children : node.type === 'bool' ? node.must : [];
+        const optional = node.type === 'or' ? node.children : node.type === 'bool' ? node.should : [];
+        const excluded = node.type === 'bool' ? node.mustNot : [];
+
+        if (excluded.some((child) => evaluate(child, key))) return null;
+
+        const matches = [];
+        for (const child of required) {
+          const match = evaluate(child, key);
+          if (!match) return null;
+          matches.push(match);
+        }
+        const optionalMatches = optional.map((child) => evaluate(child, key)).filter((match) => match !== null);
+        if (required.length === 0 && optionalMatches.length === 0) return null;
+
+        matches.push(...optionalMatches);
+        return {
+          score: matches.reduce((sum, match) => sum + match.score, 0),
+          terms: [...new Set(matches.flatMap((match) => match.terms))],
+        };
+      }
+    }
+  };
+
+  const candidates = new Set<string>();
+  for (const results of leafResults.values()) {
+    for (const key of results.keys()) candidates.add(key);
+  }
+
+  const matches: QueryMatch[] = [];
+  for (const key of candidates) {
+    const match = evaluate(query.root, key);
+    if (match && match.terms.length > 0) {
+      matches.push({ key, score: match.score, matchedTerms: match.terms });
+    }
+  }
+  return matches;
+}
@@ -0,0 +1,37 @@
+export interface TimecodeEntry {
+  start: number;
+  end: number;
+  text: string;
+  duration: number;
+}
+
+/**
+ * Get transcript text for a specific time range from timecoded entries.
+ * An entry belongs to the range when it starts inside it (start inclusive, end exclusive).
+ */
+export function getTranscriptForTimeRange(
+  timecodes: TimecodeEntry[],
+  startTimeMs: number,
+  endTimeMs: number
+): { text: string; entries: TimecodeEntry[] } {
+  const entries = timecodes.filter(
+    (entry) => entry.start >= startTimeMs && entry.start < endTimeMs
+  );
+  const text = entries.map((e) => e.text).join(' ');
+  return { text, entries };
+}
+
+/**
+ * Format milliseconds as MM:SS or HH:MM:SS
+ */
+export function formatTime(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+
+  if (hours > 0) {
+    return `${hours}:${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
+  }
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+}
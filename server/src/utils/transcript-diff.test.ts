@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { diffTranscripts } from './transcript-diff';
+import type { TimecodeEntry } from './time-range';
+
+function transcript(...texts: string[]): TimecodeEntry[] {
+  return texts.map((text, index) => ({ start: index * 2000, end: index * 2000 + 2000, duration: 2000, text }));
+}
+
+describe('diffTranscripts', () => {
+  it('reports identical transcripts, ignoring whitespace and timing', () => {
+    const before = transcript('hello world', 'second line');
+    const after = transcript('hello  world ', 'second line').map((entry) => ({ ...entry, start: entry.start + 100 }));
+
+    expect(diffTranscripts(before, after)).toEqual({
+      identical: true,
+      summary: { added: 0, removed: 0, changed: 0, unchanged: 2 },
+      changes: [],
+    });
+  });
+
+  it('reports a corrected line as one changed block with its time range', () => {
+    const diff = diffTranscripts(transcript('one', 'too', 'three'), transcript('one', 'two', 'three'));
+
+    expect(diff.identical).toBe(false);
+    expect(diff.summary).toEqual({ added: 0, removed: 0, changed: 1, unchanged: 2 });
+    expect(diff.changes).toEqual([
+      { type: 'changed', start: 2000, end: 4000, timeRange: '0:02 - 0:04', before: 'too', after: 'two' },
+    ]);
+  });
+
+  it('groups consecutive replaced lines into one change', () => {
+    const diff = diffTranscripts(transcript('a', 'b', 'c', 'd'), transcript('a', 'x', 'y', 'd'));
+
+    expect(diff.changes).toHaveLength(1);
+    expect(diff.changes[0]).toMatchObject({ type: 'changed', before: 'b c', after: 'x y' });
+  });
+
+  it('reports added and removed lines', () => {
+    const diff = diffTranscripts(transcript('a', 'b', 'c'), transcript('a', 'c', 'd'));
+
+    expect(diff.summary).toEqual({ added: 1, removed: 1, changed: 0, unchanged: 2 });
+    expect(diff.changes.map((change) => [change.type, change.before ?? change.after])).toEqual([
+      ['removed', 'b'],
+      ['added', 'd'],
+    ]);
+  });
+
+  it('treats a missing side as empty', () => {
+    const diff = diffTranscripts(undefined, transcript('first'));
+    expect(diff.summary).toEqual({ added: 1, removed: 0, changed: 0, unchanged: 0 });
+  });
+
+  it('formats time ranges past the first hour', () => {
+    const before: TimecodeEntry[] = [{ start: 3_600_000, end: 3_605_000, duration: 5000, text: 'old' }];
+    const after: TimecodeEntry[] = [{ start: 3_600_000, end: 3_605_000, duration: 5000, text: 'new' }];
+    expect(diffTranscripts(before, after).changes[0].timeRange).toBe('1:00:00 - 1:00:05');
+  });
+});
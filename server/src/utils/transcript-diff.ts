@@ -0,0 +1,165 @@
+import { formatTime, type TimecodeEntry } from './time-range';
+
+export type DiffChangeType = 'added' | 'removed' | 'changed';
+
+export interface DiffChange {
+  type: DiffChangeType;
+  start: number; // ms
+  end: number; // ms
+  timeRange: string;
+  before?: string;
+  after?: string;
+}
+
+export interface DiffSummary {
+  added: number;
+  removed: number;
+  changed: number;
+  unchanged: number;
+}
+
+export interface TranscriptDiff {
+  identical: boolean;
+  summary: DiffSummary;
+  changes: DiffChange[];
+}
+
+// Above this many LCS cells (old x new segments) the middle section is reported as one change
+const MAX_LCS_CELLS = 16_000_000;
+
+function normalize(text: string): string {
+  return (text || '').replace(/\s+/g, ' ').trim();
+}
+
+function getEntryEnd(entry: TimecodeEntry): number {
+  return entry.end || entry.start + (entry.duration || 0);
+}
+
+type Operation = { op: 'equal' | 'delete' | 'insert'; entry: TimecodeEntry };
+
+/**
+ * Longest-common-subsequence diff of two segment lists, compared by normalized text
+ */
+function lcsOperations(before: TimecodeEntry[], after: TimecodeEntry[]): Operation[] {
+  const n = before.length;
+  const m = after.length;
+  const a = before.map((entry) => normalize(entry.text));
+  const b = after.map((entry) => normalize(entry.text));
+
+  // lengths[i * (m + 1) + j] = LCS length of a[i..] and b[j..]
+  const lengths = new Uint32Array((n + 1) * (m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lengths[i * (m + 1) + j] =
+        a[i] === b[j]
+          ? lengths[(i + 1) * (m + 1) + j + 1] + 1
+          : Math.max(lengths[(i + 1) * (m + 1) + j], lengths[i * (m + 1) + j + 1]);
+    }
+  }
+
+  const operations: Operation[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (a[i] === b[j]) {
+      operations.push({ op: 'equal', entry: after[j] });
+      i++;
+      j++;
+    } else if (lengths[(i + 1) * (m + 1) + j] >= lengths[i * (m + 1) + j + 1]) {
+      operations.push({ op: 'delete', entry: before[i++] });
+    } else {
+      operations.push({ op: 'insert', entry: after[j++] });
+    }
+  }
+  while (i < n) operations.push({ op: 'delete', entry: before[i++] });
+  while (j < m) operations.push({ op: 'insert', entry: after[j++] });
+
+  return operations;
+}
+
+/**
+ * Turn a run of deleted and inserted segments into one change.
+ * A run with both is a "changed" block, otherwise it is "added" or "removed".
+ */
+function toChange(removed: TimecodeEntry[], added: TimecodeEntry[]): DiffChange {
+  const entries = [...removed, ...added];
+  const start = Math.min(...entries.map((entry) => entry.start));
+  const end = Math.max(...entries.map(getEntryEnd));
+  const type: DiffChangeType = removed.length > 0 && added.length > 0 ? 'changed' : removed.length > 0 ? 'removed' : 'added';
+
+  return {
+    type,
+    start,
+    end,
+    timeRange: `${formatTime(start)} - ${formatTime(end)}`,
+    ...(removed.length > 0 && { before: removed.map((entry) => normalize(entry.text)).join(' ') }),
+    ...(added.length > 0 && { after: added.map((entry) => normalize(entry.text)).join(' ') }),
+  };
+}
+
+/**
+ * Segment-level diff between two versions of a transcript. Segments are matched by text;
+ * consecutive removed and added segments are reported together as one changed block
+ * with the time range it covers.
+ */
+export function diffTranscripts(before: TimecodeEntry[] = [], after: TimecodeEntry[] = []): TranscriptDiff {
+  // Skip the common prefix and suffix, typical for small caption fixes
+  let prefix = 0;
+  while (
+    prefix < before.length &&
+    prefix < after.length &&
+    normalize(before[prefix].text) === normalize(after[prefix].text)
+  ) {
+    prefix++;
+  }
+
+  let suffix = 0;
+  while (
+    suffix < before.length - prefix &&
+    suffix < after.length - prefix &&
+    normalize(before[before.length - 1 - suffix].text) === normalize(after[after.length - 1 - suffix].text)
+  ) {
+    suffix++;
+  }
+
+  const middleBefore = before.slice(prefix, before.length - suffix);
+  const middleAfter = after.slice(prefix, after.length - suffix);
+
+  let operations: Operation[];
+  if ((middleBefore.length + 1) * (middleAfter.length + 1) > MAX_LCS_CELLS) {
+    operations = [
+      ...middleBefore.map((entry) => ({ op: 'delete' as const, entry })),
+      ...middleAfter.map((entry) => ({ op: 'insert' as const, entry })),
+    ];
+  } else {
+    operations = lcsOperations(middleBefore, middleAfter);
+  }
+
+  const changes: DiffChange[] = [];
+  const summary: DiffSummary = { added: 0, removed: 0, changed: 0, unchanged: prefix + suffix };
+  let removed: TimecodeEntry[] = [];
+  let added: TimecodeEntry[] = [];
+
+  const flush = () => {
+    if (removed.length === 0 && added.length === 0) return;
+    const change = toChange(removed, added);
+    changes.push(change);
+    summary[change.type]++;
+    removed = [];
+    added = [];
+  };
+
+  for (const operation of operations) {
+    if (operation.op === 'equal') {
+      flush();
+      summary.unchanged++;
+    } else if (operation.op === 'delete') {
+      removed.push(operation.entry);
+    } else {
+      added.push(operation.entry);
+    }
+  }
+  flush();
+
+  return { identical: changes.length === 0, summary, changes };
+}
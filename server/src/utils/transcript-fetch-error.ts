@@ -0,0 +1,111 @@
+export type TranscriptFetchErrorCode =
+  | 'IP_BLOCKED'
+  | 'LOGIN_REQUIRED'
+  | 'UNPLAYABLE'
+  | 'NO_CAPTIONS'
+  | 'PARSE_FAILED'
+  | 'NETWORK'
+  | 'INVALID_ID';
+
+/**
+ * HTTP status returned by the REST API for each error code
+ */
+export const TRANSCRIPT_FETCH_ERROR_STATUS: Record<TranscriptFetchErrorCode, number> = {
+  INVALID_ID: 400,
+  LOGIN_REQUIRED: 403,
+  NO_CAPTIONS: 404,
+  UNPLAYABLE: 422,
+  PARSE_FAILED: 502,
+  NETWORK: 502,
+  IP_BLOCKED: 503,
+};
+
+/**
+ * Codes where retrying (later, or through another proxy) can succeed.
+ * Also the only codes accepted in the retryableErrors config.
+ */
+export const RETRYABLE_CODES: TranscriptFetchErrorCode[] = ['IP_BLOCKED', 'LOGIN_REQUIRED', 'NETWORK'];
+
+/**
+ * Error thrown when a transcript cannot be fetched, with a stable code
+ * so REST and MCP clients can decide whether to retry without matching messages
+ */
+export class TranscriptFetchError extends Error {
+  readonly code: TranscriptFetchErrorCode;
+  readonly videoId?: string;
+  readonly cause?: unknown;
+
+  constructor(
+    code: TranscriptFetchErrorCode,
+    message: string,
+    options: { videoId?: string; cause?: unknown } = {}
+  ) {
+    super(message);
+    this.name = 'TranscriptFetchError';
+    this.code = code;
+    this.videoId = options.videoId;
+    this.cause = options.cause;
+  }
+
+  get retryable(): boolean {
+    return RETRYABLE_CODES.includes(this.code);
+  }
+
+  get status(): number {
+    return TRANSCRIPT_FETCH_ERROR_STATUS[this.code];
+  }
+
+  toJSON() {
+    return {
+      code: this.code,
+      message: this.message,
+      retryable: this.retryable,
+      ...(this.videoId && { videoId: this.videoId }),
+    };
+  }
+}
+
+export function isTranscriptFetchError(error: unknown): error is TranscriptFetchError {
+  return error instanceof TranscriptFetchError;
+}
+
+/**
+ * Check whether an unknown error comes from the network layer (undici, Node sockets, timeouts)
+ */
+function isNetworkError(error: unknown): boolean {
+  if (!(error instanceof Error)) return false;
+
+  const cause = (error as { cause?: { code?: string } }).cause;
+  const code = (error as { code?: string }).code || cause?.code;
+  if (code && (/^E(CONN|TIMEDOUT|NOTFOUND|AI_AGAIN|PIPE|HOSTUNREACH|NETUNREACH)/.test(code) || code.startsWith('UND_ERR'))) {
+    return true;
+  }
+
+  return (
+    error.name === 'AbortError' ||
+    error.name === 'TimeoutError' ||
+    /fetch failed|socket hang up|network/i.test(error.message)
+  );
+}
+
+/**
+ * Convert any error raised while fetching into a TranscriptFetchError when it can be classified.
+ * Unclassified errors are returned unchanged.
+ */
+export function classifyFetchError(error: unknown, videoId?: string): unknown {
+  if (isTranscriptFetchError(error)) {
+    return error;
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+
+  if (/\b(429|403)\b/.test(message)) {
+    return new TranscriptFetchError('IP_BLOCKED', message, { videoId, cause: error });
+  }
+
+  if (isNetworkError(error)) {
+    return new TranscriptFetchError('NETWORK', message, { videoId, cause: error });
+  }
+
+  return error;
+}
@@ -0,0 +1,71 @@
+import type { CaptionKind } from './fetch-transcript';
+
+export interface MetadataFilterInput {
+  channelId?: string;
+  channelName?: string;
+  language?: string;
+  captionKind?: CaptionKind;
+  isShort?: boolean;
+  isLive?: boolean;
+  publishedAfter?: string;
+  publishedBefore?: string;
+  minDurationSeconds?: number;
+  maxDurationSeconds?: number;
+  minViewCount?: number;
+}
+
+/**
+ * Build Strapi document filters for the video metadata stored with each transcript.
+ * Only the criteria that are set are added; the result is combined with other filters via $and.
+ */
+export function buildMetadataFilters(input: MetadataFilterInput): Record<string, unknown>[] {
+  const filters: Record<string, unknown>[] = [];
+
+  if (input.channelId) {
+    filters.push({ channelId: { $eq: input.channelId } });
+  }
+
+  if (input.channelName) {
+    filters.push({ channelName: { $containsi: input.channelName } });
+  }
+
+  if (input.language) {
+    filters.push({
+      $or: [{ language: { $eqi: input.language } }, { language: { $startsWithi: `${input.language}-` } }],
+    });
+  }
+
+  if (input.captionKind) {
+    filters.push({ captionKind: { $eq: input.captionKind } });
+  }
+
+  if (input.isShort !== undefined) {
+    filters.push({ isShort: { $eq: input.isShort } });
+  }
+
+  if (input.isLive !== undefined) {
+    filters.push({ isLive: { $eq: input.isLive } });
+  }
+
+  if (input.publishedAfter) {
+    filters.push({ videoPublishedAt: { $gte: new Date(input.publishedAfter).toISOString() } });
+  }
+
+  if (input.publishedBefore) {
+    filters.push({ videoPublishedAt: { $lte: new Date(input.publishedBefore).toISOString() } });
+  }
+
+  if (input.minDurationSeconds !== undefined) {
+    filters.push({ durationSeconds: { $gte: input.minDurationSeconds } });
+  }
+
+  if (input.maxDurationSeconds !== undefined) {
+    filters.push({ durationSeconds: { $lte: input.maxDurationSeconds } });
+  }
+
+  if (input.minViewCount !== undefined) {
+    filters.push({ viewCount: { $gte: input.minViewCount } });
+  }
+
+  return filters;
+}